@@ -1,8 +1,59 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { summarizeText, generateMindMapData, generateInfographicData } from './services/geminiService';
-import MindMapGraph from './components/MindMapGraph';
+import {
+  summarizeText,
+  generateMindMapData,
+  generateConceptMapData,
+  generateComparisonMapData,
+  generateInfographicData,
+  generateTimelineData,
+  expandMindMapNode,
+  explainMindMapNode,
+  isAbortError
+} from './services/geminiService';
+import MindMapGraph, { MindMapGraphHandle } from './components/MindMapGraph';
 import InfographicView from './components/InfographicView';
-import { GraphData, InfographicItem } from './types';
+import TimelineView from './components/TimelineView';
+import ProviderSettings from './components/ProviderSettings';
+import SummaryProgressView from './components/SummaryProgressView';
+import NodeExplanationPanel from './components/NodeExplanationPanel';
+import SourcePanel from './components/SourcePanel';
+import DocumentInfo from './components/DocumentInfo';
+import ProjectLibrary from './components/ProjectLibrary';
+import SummaryStyleControls from './components/SummaryStyleControls';
+import ThemeSettings from './components/ThemeSettings';
+import DocumentCompareInput from './components/DocumentCompareInput';
+import SummaryDiffView from './components/SummaryDiffView';
+import { ACCEPTED_EXTENSIONS, ingestFile } from './services/documentIngestion';
+import { LAYOUTS, MindMapLayout, computeLayout } from './services/mindMapLayout';
+import { EXPORT_FORMATS, MindMapExportFormat, exportMindMap } from './services/mindMapExport';
+import { downloadBlob } from './services/download';
+import { IMPORT_EXTENSIONS, importMindMapFile } from './services/mindMapImport';
+import { toInfographicSvg } from './services/infographicExport';
+import { itemDataLines } from './services/infographicCharts';
+import { INFOGRAPHIC_LAYOUTS, InfographicLayout } from './services/infographicLayout';
+import { TIMELINE_ORIENTATIONS } from './services/timelineLayout';
+import { toTimelineMarkdown, toTimelineSvg } from './services/timelineExport';
+import { getVisualTheme, setVisualTheme } from './services/theme';
+import { PNG_SCALES, PngScale, rasterizeSvg, svgToPdf } from './services/imageExport';
+import {
+  createProjectId,
+  getCurrentProjectId,
+  getProject,
+  saveProject,
+  setCurrentProjectId,
+  suggestProjectTitle
+} from './services/projectLibrary';
+import { SharedState, clearSharedState, createShareUrl, hasSharedState, readSharedState } from './services/shareLink';
+import { mergeNodeExpansion } from './services/graphEditing';
+import { isUnsupported } from './services/grounding';
+import { isConceptMap } from './services/conceptMap';
+import { combineSummaries, combineTexts, createComparedDocument, isMultiDocumentMap } from './services/multiDocument';
+import { ComparedDocument, GraphData, IngestedDocument, InfographicItem, OutputLanguage, Project, SectionSummary, SourceSpan, SummaryProgress, SummaryStyle, TimelineEntry, TimelineOrientation, VisualTheme, VisualizerType } from './types';
+import { ValidationIssue } from './services/validation';
+import { LANGUAGES, detectLanguage, getOutputLanguage, setOutputLanguage } from './services/language';
+import { getPreferredSummaryStyle, setPreferredSummaryStyle, summaryStyleLabel } from './services/summaryStyle';
+import { AIErrorKind, toAIError } from './services/providers';
+import { MessageKey, UILanguage, UI_LANGUAGES, getUILanguage, setUILanguage, t } from './i18n';
 import { 
   ArrowPathIcon, 
   ChartBarIcon, 
@@ -15,158 +66,911 @@ import {
   SunIcon,
   MoonIcon,
   EyeIcon,
-  EyeSlashIcon
+  EyeSlashIcon,
+  StopIcon,
+  ClipboardDocumentIcon,
+  FolderOpenIcon,
+  BookOpenIcon,
+  LanguageIcon,
+  ExclamationTriangleIcon,
+  ClockIcon
 } from '@heroicons/react/24/outline';
 
+// Edits are written to the library once typing pauses for this long
+const AUTOSAVE_DELAY = 1000;
+
+// How the user can get past a failed AI request, shown as a button next to the error
+type RecoveryAction = 'retry' | 'openSettings' | 'editInput' | 'shorten';
+
+interface ErrorState {
+  message: string;
+  recovery?: { action: RecoveryAction; retry: () => void };
+}
+
+type ProjectContent = Omit<Project, 'id' | 'title' | 'createdAt' | 'updatedAt'>;
+
+const projectContent = (project: ProjectContent): ProjectContent => ({
+  inputText: project.inputText,
+  sourceDocument: project.sourceDocument,
+  documents: project.documents,
+  summary: project.summary,
+  summaryStyle: project.summaryStyle,
+  sections: project.sections,
+  graphData: project.graphData,
+  infographicData: project.infographicData,
+  timelineData: project.timelineData,
+  visualizerType: project.visualizerType,
+});
+
 function App() {
   // Navigation State
   const [view, setView] = useState<'input' | 'visualizer'>('input');
-  const [visualizerType, setVisualizerType] = useState<'mindmap' | 'infographic'>('mindmap');
+  const [visualizerType, setVisualizerType] = useState<VisualizerType>('mindmap');
 
   // Data State
   const [inputText, setInputText] = useState('');
+  const [sourceDocument, setSourceDocument] = useState<IngestedDocument | null>(null);
+  // Multi-document mode: the compared documents, or null for a single text.
+  // inputText then holds their combined text and summary their combined summaries.
+  const [documents, setDocuments] = useState<ComparedDocument[] | null>(null);
   const [summary, setSummary] = useState('');
+  const [summaryStyle, setSummaryStyle] = useState<SummaryStyle | undefined>(undefined);
+  const [sections, setSections] = useState<SectionSummary[]>([]);
   const [graphData, setGraphData] = useState<GraphData | null>(null);
   const [infographicData, setInfographicData] = useState<InfographicItem[] | null>(null);
+  const [timelineData, setTimelineData] = useState<TimelineEntry[] | null>(null);
+
+  // Library State: the open project's identity; its content is the data state above
+  const [projectInfo, setProjectInfo] = useState<Pick<Project, 'id' | 'title' | 'createdAt'> | null>(null);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  // Opened from a share link: view only, nothing is saved to the library
+  const [isReadOnly, setIsReadOnly] = useState(false);
 
   // UI State
+  const [isIngesting, setIsIngesting] = useState(false);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
   const [isSummarizing, setIsSummarizing] = useState(false);
+  const [summaryProgress, setSummaryProgress] = useState<SummaryProgress | null>(null);
+  const [summarizingIndex, setSummarizingIndex] = useState<number | null>(null); // Compared document being summarized
   const [isGeneratingGraph, setIsGeneratingGraph] = useState(false);
   const [isGeneratingInfographic, setIsGeneratingInfographic] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [isGeneratingTimeline, setIsGeneratingTimeline] = useState(false);
+  const [error, setErrorState] = useState<ErrorState | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [expandingNodeId, setExpandingNodeId] = useState<string | null>(null);
+  const [explanation, setExplanation] = useState<{ label: string; text: string; isLoading: boolean } | null>(null);
+  // The node, card or event whose source passages are shown
+  const [sourceTarget, setSourceTarget] = useState<{ nodeId: string } | { itemIndex: number } | { eventIndex: number } | null>(null);
 
   // Settings State
   const [isDarkMode, setIsDarkMode] = useState(false);
   const [showAnnotations, setShowAnnotations] = useState(true);
+  const [mindMapLayout, setMindMapLayout] = useState<MindMapLayout>('force');
+  // Generate the mind map as a concept map, with named relations and cross-links
+  const [isConceptMapMode, setIsConceptMapMode] = useState(false);
+  const [infographicLayout, setInfographicLayout] = useState<InfographicLayout>('grid');
+  const [timelineOrientation, setTimelineOrientation] = useState<TimelineOrientation>('horizontal');
+  const [theme, setTheme] = useState<VisualTheme>(getVisualTheme);
+  // The sender's theme, shown while viewing a share link instead of one's own
+  const [sharedTheme, setSharedTheme] = useState<VisualTheme | null>(null);
+  // Leaving the read-only view (editing a copy, opening a project) brings one's own theme back
+  const visualTheme = (isReadOnly && sharedTheme) || theme;
+  const [pngScale, setPngScale] = useState<PngScale>(2);
+  const [uiLanguage, setUiLanguageState] = useState<UILanguage>(getUILanguage);
+  const [outputLanguage, setOutputLanguageState] = useState<OutputLanguage>(getOutputLanguage);
+  const [styleOptions, setStyleOptions] = useState<SummaryStyle>(getPreferredSummaryStyle);
+  const [isProviderSettingsOpen, setIsProviderSettingsOpen] = useState(false);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const inputTextRef = useRef<HTMLTextAreaElement>(null);
+  const mindMapRef = useRef<MindMapGraphHandle>(null);
+  const mindMapFileInputRef = useRef<HTMLInputElement>(null);
+  const lastSavedRef = useRef<string>('');
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Node actions have their own requests, so explaining one node does not
+  // cancel the expansion of another, nor a summary or map being generated
+  const expandControllerRef = useRef<AbortController | null>(null);
+  const explainControllerRef = useRef<AbortController | null>(null);
+
+  // One request of each kind runs at a time: starting a new one cancels the previous
+  const startRequest = (controllerRef = abortControllerRef) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    return controller.signal;
+  };
+
+  const cancelRequest = (controllerRef = abortControllerRef) => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  };
+
+  const handleCancel = () => cancelRequest();
+
+  // Replacing the project (or unmounting) stops everything, node actions included
+  const cancelAllRequests = () => {
+    [abortControllerRef, expandControllerRef, explainControllerRef].forEach(cancelRequest);
+  };
+
+  useEffect(() => cancelAllRequests, []);
+
+  const setError = (message: string | null, recovery?: ErrorState['recovery']) => {
+    setErrorState(message ? { message, recovery } : null);
+  };
+
+  // Failures the app recognizes get their own message and recovery action;
+  // anything else keeps the operation's generic message and can be retried
+  const reportAIError = (e: unknown, fallbackMessage: string, retry: () => void, onTruncated?: () => void) => {
+    const { kind } = toAIError(e);
+    const message = kind === 'unknown' ? fallbackMessage : t(`aiError.${kind}` as MessageKey);
+    setError(message, { action: recoveryAction(kind, Boolean(onTruncated)), retry: kind === 'truncated' && onTruncated ? onTruncated : retry });
+  };
+
+  const recoveryAction = (kind: AIErrorKind, canShorten: boolean): RecoveryAction => {
+    if (kind === 'apiKey') return 'openSettings';
+    if (kind === 'safety') return 'editInput';
+    if (kind === 'truncated') return canShorten ? 'shorten' : 'editInput';
+    return 'retry';
+  };
+
+  const runRecovery = () => {
+    if (!error?.recovery) return;
+    const { action, retry } = error.recovery;
+    setError(null);
+    if (action === 'openSettings') {
+      setView('input');
+      setIsProviderSettingsOpen(true);
+    } else if (action === 'editInput') {
+      setView('input');
+      // The text box only exists once the input view has rendered
+      requestAnimationFrame(() => inputTextRef.current?.focus());
+    } else {
+      retry();
+    }
+  };
+
+  const applyProject = (project: Project) => {
+    cancelAllRequests();
+    setProjectInfo({ id: project.id, title: project.title, createdAt: project.createdAt });
+    setInputText(project.inputText);
+    setSourceDocument(project.sourceDocument);
+    setDocuments(project.documents ?? null);
+    setSummary(project.summary);
+    setSummaryStyle(project.summaryStyle);
+    if (project.summaryStyle) setStyleOptions(project.summaryStyle);
+    setSections(project.sections);
+    setGraphData(project.graphData);
+    if (project.graphData) setIsConceptMapMode(isConceptMap(project.graphData));
+    setInfographicData(project.infographicData);
+    setTimelineData(project.timelineData ?? null);
+    setVisualizerType(project.visualizerType);
+    setExplanation(null);
+    setSourceTarget(null);
+    setError(null);
+    setNotice(null);
+    setCurrentProjectId(project.id);
+    lastSavedRef.current = JSON.stringify(projectContent({ ...project, documents: project.documents ?? null, timelineData: project.timelineData ?? null }));
+  };
+
+  const applySharedState = (shared: SharedState) => {
+    cancelAllRequests();
+    setIsReadOnly(true);
+    setProjectInfo(null);
+    setInputText('');
+    setSourceDocument(null);
+    setDocuments(null);
+    setSummary(shared.summary);
+    setSummaryStyle(shared.summaryStyle);
+    setSections([]);
+    setGraphData(shared.graphData || null);
+    if (shared.graphData) setIsConceptMapMode(isConceptMap(shared.graphData));
+    setInfographicData(shared.infographicData || null);
+    setTimelineData(shared.timelineData || null);
+    setVisualizerType(shared.visualizerType);
+    setIsDarkMode(shared.settings.isDarkMode);
+    setShowAnnotations(shared.settings.showAnnotations);
+    setMindMapLayout(shared.settings.mindMapLayout);
+    setInfographicLayout(shared.settings.infographicLayout);
+    setTimelineOrientation(shared.settings.timelineOrientation);
+    setSharedTheme(shared.settings.theme);
+    setExplanation(null);
+    setSourceTarget(null);
+    setError(null);
+    setNotice(null);
+    setView('visualizer');
+  };
+
+  const openSharedLink = async () => {
+    const shared = await readSharedState();
+    if (shared) {
+      applySharedState(shared);
+    } else {
+      clearSharedState();
+      setError(t('error.invalidShareLink'));
+    }
+  };
+
+  // A share link opens its visualization; otherwise reopen the project that
+  // was open before the page was refreshed
+  useEffect(() => {
+    if (hasSharedState()) {
+      openSharedLink();
+    } else {
+      const id = getCurrentProjectId();
+      if (id) {
+        getProject(id)
+          .then(project => { if (project) applyProject(project); })
+          .catch(e => console.error("Project restore error:", e));
+      }
+    }
+
+    // Pasting another share link into the same tab only changes the fragment
+    const handleHashChange = () => { if (hasSharedState()) openSharedLink(); };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  // Autosave the current session into the library
+  useEffect(() => {
+    if (isReadOnly) return;
+    if (!inputText.trim() && !summary && !graphData && !infographicData && !timelineData) return;
+    const content = projectContent({ inputText, sourceDocument, documents, summary, summaryStyle, sections, graphData, infographicData, timelineData, visualizerType });
+    const serialized = JSON.stringify(content);
+    if (serialized === lastSavedRef.current) return;
+
+    const timer = setTimeout(async () => {
+      const now = Date.now();
+      const info = projectInfo || { id: createProjectId(), title: suggestProjectTitle(content), createdAt: now };
+      try {
+        await saveProject({ ...info, ...content, updatedAt: now });
+        lastSavedRef.current = serialized;
+        if (!projectInfo) setProjectInfo(info);
+        setCurrentProjectId(info.id);
+      } catch (e) {
+        console.error("Autosave error:", e);
+      }
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [inputText, sourceDocument, documents, summary, summaryStyle, sections, graphData, infographicData, timelineData, visualizerType, projectInfo, isReadOnly]);
+
+  const handleNewProject = () => {
+    cancelAllRequests();
+    setIsReadOnly(false);
+    clearSharedState();
+    setProjectInfo(null);
+    setCurrentProjectId(null);
+    setInputText('');
+    setSourceDocument(null);
+    setDocuments(null);
+    setSummary('');
+    setSummaryStyle(undefined);
+    setSections([]);
+    setGraphData(null);
+    setInfographicData(null);
+    setTimelineData(null);
+    setExplanation(null);
+    setSourceTarget(null);
+    setError(null);
+    setNotice(null);
+    lastSavedRef.current = '';
+    setView('input');
+  };
+
+  const handleOpenProject = (project: Project) => {
+    setIsReadOnly(false);
+    clearSharedState();
+    applyProject(project);
+    setIsLibraryOpen(false);
+    const hasVisualization = project.visualizerType === 'mindmap' ? project.graphData
+      : project.visualizerType === 'infographic' ? project.infographicData
+      : project.timelineData;
+    setView(hasVisualization ? 'visualizer' : 'input');
+  };
+
+  const handleProjectRenamed = (project: Project) => {
+    if (project.id === projectInfo?.id) setProjectInfo({ ...projectInfo, title: project.title });
+  };
+
+  const handleProjectDeleted = (id: string) => {
+    // The open work stays on screen and is saved again as a new project on the next edit
+    if (id === projectInfo?.id) {
+      setProjectInfo(null);
+      lastSavedRef.current = '';
+    }
+  };
+
+  // Reads a file into the text box, or into one of the compared documents
+  const loadFile = async (file: File, documentIndex?: number) => {
+    setError(null);
+    setIsIngesting(true);
+    try {
+      const ingested = await ingestFile(file);
+      if (!ingested.text.trim()) {
+        setError(t('error.noTextInFile'));
+        return;
+      }
+      if (documentIndex === undefined) {
+        setSourceDocument(ingested);
+        setInputText(ingested.text);
+      } else {
+        setDocuments(current => current && current.map((d, i) => (i === documentIndex ? { ...d, text: ingested.text, sourceDocument: ingested } : d)));
+      }
+    } catch (e) {
+      console.error("File ingestion error:", e);
+      setError(t('error.unreadableFile'));
+    } finally {
+      setIsIngesting(false);
+    }
+  };
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const text = e.target?.result;
-        if (typeof text === 'string') {
-          setInputText(text);
-        }
-      };
-      reader.readAsText(file);
+      loadFile(file);
+    }
+    // Allow picking the same file again
+    event.target.value = '';
+  };
+
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    setIsDraggingFile(true);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    const file = event.dataTransfer.files?.[0];
+    setIsDraggingFile(false);
+    if (!file) return;
+    event.preventDefault();
+    loadFile(file);
+  };
+
+  // Opens an existing map directly in the visualizer, skipping generation
+  const handleImportMindMap = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    setNotice(null);
+    try {
+      const { value, issues } = await importMindMapFile(file);
+      if (!value) {
+        setError(t('error.invalidMindMapFile'));
+        return;
+      }
+      // An imported map becomes a project of its own
+      handleNewProject();
+      setProjectInfo({ id: createProjectId(), title: file.name.replace(/\.[^.]+$/, ''), createdAt: Date.now() });
+      setGraphData(value);
+      setVisualizerType('mindmap');
+      setView('visualizer');
+      const repairs = issues.filter(i => i.severity === 'repaired');
+      if (repairs.length > 0) setNotice(t('notice.repairedFile', { count: repairs.length }));
+    } catch (e) {
+      console.error("Mind map import error:", e);
+      setError(t('error.unreadableMindMapFile'));
+    }
+  };
+
+  const handleClearDocument = () => {
+    setSourceDocument(null);
+    setInputText('');
+  };
+
+  // In multi-document mode the text the app works from is derived from the documents
+  useEffect(() => {
+    if (documents) setInputText(combineTexts(documents));
+  }, [documents]);
+
+  // A cancelled or failed comparison leaves some documents without a summary.
+  // Visuals wait for all of them: the maps tag ideas with every document.
+  const isSummaryIncomplete = Boolean(documents?.some(d => !d.summary.trim()));
+
+  // The current text becomes the first compared document, and back. The
+  // summary was written for the other mode, so it and its visuals are dropped,
+  // after asking when that loses anything.
+  const handleCompareModeChange = (isCompare: boolean) => {
+    const losesWork = isCompare
+      ? Boolean(summary)
+      : Boolean(summary) || (documents?.filter(d => d.text.trim()).length ?? 0) > 1;
+    if (losesWork && !window.confirm(isCompare ? t('compare.confirmEnter') : t('compare.confirmLeave', { label: documents?.[0].label ?? '' }))) return;
+    if (isCompare) {
+      setDocuments([{ ...createComparedDocument(0), text: inputText, sourceDocument }, createComparedDocument(1)]);
+      setSourceDocument(null);
+    } else if (documents) {
+      setInputText(documents[0].text);
+      setSourceDocument(documents[0].sourceDocument);
+      setDocuments(null);
     }
+    setSummary('');
+    setSummaryStyle(undefined);
+    setSections([]);
+    clearDerivedData();
   };
 
-  const handleSummarize = async () => {
+  // styleOverride lets a truncated summary be retried with a shorter length
+  const handleSummarize = async (styleOverride?: SummaryStyle) => {
+    const style = styleOverride ?? styleOptions;
+    if (documents) return handleSummarizeDocuments(documents, style);
     if (!inputText.trim()) {
-        setError("Vui lòng nhập nội dung để tóm tắt.");
+        setError(t('error.emptyInput'));
         return;
     }
     setError(null);
     setIsSummarizing(true);
+    setSummaryProgress(null);
+    setSummary('');
+    // Set up front: a cancelled summary keeps its partial text, written in this style
+    setSummaryStyle(style);
+    const previousSummary = summary;
+    let latestSummary = '';
     try {
-      const result = await summarizeText(inputText);
-      setSummary(result);
+      const result = await summarizeText(inputText, {
+        onProgress: setSummaryProgress,
+        onText: text => {
+          latestSummary = text;
+          setSummary(text);
+        },
+        language: outputLanguage,
+        style,
+        signal: startRequest(),
+      });
+      latestSummary = result.summary;
+      setSummary(result.summary);
+      setSections(result.sections);
     } catch (e) {
-      setError("Có lỗi xảy ra khi tóm tắt. Vui lòng thử lại.");
+      // A cancelled summary keeps whatever had streamed in so far
+      if (!isAbortError(e)) {
+        // Already at the shortest length, the text itself has to get shorter
+        const shorten = style.length === 'short' ? undefined : () => {
+          const shorter: SummaryStyle = { ...style, length: 'short' };
+          setStyleOptions(shorter);
+          latestHandlers.current.handleSummarize(shorter);
+        };
+        reportAIError(e, t('error.summarize'), () => latestHandlers.current.handleSummarize(style), shorten);
+      }
+    } finally {
+      setIsSummarizing(false);
+      setSummaryProgress(null);
+      // Visualizations made from the previous summary no longer match it.
+      // Without a previous summary they were imported, not derived, and stay.
+      if (previousSummary && latestSummary !== previousSummary) clearDerivedData();
+    }
+  };
+
+  // Each document is summarized on its own, one after the other and in the
+  // same style, so the summaries can be compared side by side
+  const handleSummarizeDocuments = async (compared: ComparedDocument[], style: SummaryStyle) => {
+    const empty = compared.find(d => !d.text.trim());
+    if (empty) {
+      setError(t('error.emptyDocument', { label: empty.label }));
+      return;
+    }
+    setError(null);
+    setIsSummarizing(true);
+    setSummaryProgress(null);
+    setSummaryStyle(style);
+    setSections([]);
+    const previousSummary = summary;
+    // The documents cannot be edited meanwhile, so the list is updated from this copy
+    let summarized = compared.map(d => ({ ...d, summary: '' }));
+    const show = (index: number, text: string) => {
+      summarized = summarized.map((d, i) => (i === index ? { ...d, summary: text } : d));
+      setDocuments(summarized);
+      setSummary(combineSummaries(summarized));
+    };
+    setDocuments(summarized);
+    setSummary('');
+
+    const signal = startRequest();
+    try {
+      for (let i = 0; i < summarized.length; i++) {
+        setSummarizingIndex(i);
+        setSummaryProgress(null);
+        const result = await summarizeText(summarized[i].text, {
+          onProgress: setSummaryProgress,
+          onText: text => show(i, text),
+          language: outputLanguage,
+          style,
+          signal,
+        });
+        show(i, result.summary);
+      }
+    } catch (e) {
+      // A cancelled run keeps the summaries written so far
+      if (!isAbortError(e)) {
+        // Retried from the documents as they are then, through handleSummarize
+        const shorten = style.length === 'short' ? undefined : () => {
+          const shorter: SummaryStyle = { ...style, length: 'short' };
+          setStyleOptions(shorter);
+          latestHandlers.current.handleSummarize(shorter);
+        };
+        reportAIError(e, t('error.summarize'), () => latestHandlers.current.handleSummarize(style), shorten);
+      }
     } finally {
       setIsSummarizing(false);
+      setSummaryProgress(null);
+      setSummarizingIndex(null);
+      if (previousSummary && combineSummaries(summarized) !== previousSummary) clearDerivedData();
     }
   };
 
+  const clearDerivedData = () => {
+    setGraphData(null);
+    setInfographicData(null);
+    setTimelineData(null);
+    setExplanation(null);
+    setSourceTarget(null);
+  };
+
+  const reportRepairs = (issues: ValidationIssue[]) => {
+    setNotice(t('notice.repaired', { count: issues.length }));
+  };
+
   const handleCreateMindMap = async () => {
-    if (!summary) return;
+    if (!summary || isSummaryIncomplete) return;
     setIsGeneratingGraph(true);
     setError(null);
+    setNotice(null);
     try {
-      if (!graphData) {
-        const data = await generateMindMapData(summary);
+      // Kept only while it matches the current summary (see handleSummarize)
+      // and the chosen kind of map. Compared documents always get a comparison map.
+      const wantsConceptMap = !documents && isConceptMapMode;
+      if (!graphData || isConceptMap(graphData) !== wantsConceptMap) {
+        const options = {
+          onIssues: reportRepairs,
+          sections,
+          language: outputLanguage,
+          style: summaryStyle,
+          sourceText: inputText || undefined,
+          signal: startRequest(),
+        };
+        const data = documents
+          ? await generateComparisonMapData(documents, options)
+          : await (wantsConceptMap ? generateConceptMapData : generateMindMapData)(summary, options);
         setGraphData(data);
       }
       setVisualizerType('mindmap');
       setView('visualizer');
     } catch (e) {
-      setError("Có lỗi xảy ra khi tạo sơ đồ. Vui lòng thử lại.");
+      if (!isAbortError(e)) reportAIError(e, t('error.mindMap'), () => latestHandlers.current.handleCreateMindMap());
     } finally {
       setIsGeneratingGraph(false);
     }
   };
 
   const handleCreateInfographic = async () => {
-    if (!summary) return;
+    if (!summary || isSummaryIncomplete) return;
     setIsGeneratingInfographic(true);
     setError(null);
+    setNotice(null);
     try {
         if (!infographicData) {
-            const data = await generateInfographicData(summary);
+            const data = await generateInfographicData(summary, {
+              onIssues: reportRepairs,
+              sections,
+              language: outputLanguage,
+              style: summaryStyle,
+              sourceText: inputText || undefined,
+              signal: startRequest(),
+            });
             setInfographicData(data);
         }
         setVisualizerType('infographic');
         setView('visualizer');
     } catch (e) {
-        setError("Có lỗi xảy ra khi tạo infographic. Vui lòng thử lại.");
+        if (!isAbortError(e)) reportAIError(e, t('error.infographic'), () => latestHandlers.current.handleCreateInfographic());
     } finally {
         setIsGeneratingInfographic(false);
     }
   }
 
+  const handleCreateTimeline = async () => {
+    if (!summary || isSummaryIncomplete) return;
+    setIsGeneratingTimeline(true);
+    setError(null);
+    setNotice(null);
+    try {
+      if (!timelineData) {
+        // Dates are often dropped by the summary, so the source text goes along
+        const data = await generateTimelineData(summary, {
+          onIssues: reportRepairs,
+          sections,
+          language: outputLanguage,
+          style: summaryStyle,
+          sourceText: inputText || undefined,
+          signal: startRequest(),
+        });
+        setTimelineData(data);
+      }
+      setVisualizerType('timeline');
+      setView('visualizer');
+    } catch (e) {
+      if (!isAbortError(e)) reportAIError(e, t('error.timeline'), () => latestHandlers.current.handleCreateTimeline());
+    } finally {
+      setIsGeneratingTimeline(false);
+    }
+  };
+
+  // Node-level AI actions work against the original text when there is one
+  const handleExpandNode = async (nodeId: string) => {
+    // The node may have been deleted before a retry
+    if (!graphData?.nodes.some(n => n.id === nodeId)) return;
+    setExpandingNodeId(nodeId);
+    setError(null);
+    const signal = startRequest(expandControllerRef);
+    try {
+      const expansion = await expandMindMapNode(graphData, nodeId, inputText || summary, {
+        onIssues: reportRepairs,
+        language: outputLanguage,
+        sourceText: inputText || undefined,
+        signal,
+      });
+      // Merge into the latest map so edits made in the meantime are kept
+      setGraphData(current => current && mergeNodeExpansion(current, nodeId, expansion));
+    } catch (e) {
+      if (!isAbortError(e)) reportAIError(e, t('error.expand'), () => latestHandlers.current.handleExpandNode(nodeId));
+    } finally {
+      // A newer expansion that aborted this one owns the busy state now
+      const current = expandControllerRef.current;
+      if (!current || current.signal === signal) {
+        expandControllerRef.current = null;
+        setExpandingNodeId(null);
+      }
+    }
+  };
+
+  const handleExplainNode = async (nodeId: string) => {
+    if (!graphData) return;
+    const label = graphData.nodes.find(n => n.id === nodeId)?.label || '';
+    setExplanation({ label, text: '', isLoading: true });
+    try {
+      const text = await explainMindMapNode(graphData, nodeId, inputText || summary, {
+        onText: partial => setExplanation({ label, text: partial, isLoading: true }),
+        language: outputLanguage,
+        signal: startRequest(explainControllerRef),
+      });
+      setExplanation({ label, text, isLoading: false });
+    } catch (e) {
+      if (isAbortError(e)) return;
+      const { kind } = toAIError(e);
+      const text = kind === 'unknown' ? t('explanation.failed') : t(`aiError.${kind}` as MessageKey);
+      setExplanation({ label, text, isLoading: false });
+    }
+  };
+
+  const handleCloseExplanation = () => {
+    if (explanation?.isLoading) cancelRequest(explainControllerRef);
+    setExplanation(null);
+  };
+
+  // Recovery actions run after later renders, so they go through the handlers
+  // of the latest one and work on the current text, summary and map
+  const latestHandlers = useRef({ handleSummarize, handleCreateMindMap, handleCreateInfographic, handleCreateTimeline, handleExpandNode });
+  latestHandlers.current = { handleSummarize, handleCreateMindMap, handleCreateInfographic, handleCreateTimeline, handleExpandNode };
+
+  // Looked up on every render so the panel follows edits to the map
+  const findSourceItem = (): { label: string; sources?: SourceSpan[] } | null => {
+    if (!sourceTarget) return null;
+    if ('nodeId' in sourceTarget) {
+      const node = visualizerType === 'mindmap' ? graphData?.nodes.find(n => n.id === sourceTarget.nodeId) : null;
+      return node ? { label: node.label, sources: node.sources } : null;
+    }
+    if ('eventIndex' in sourceTarget) {
+      const entry = visualizerType === 'timeline' ? timelineData?.[sourceTarget.eventIndex] : null;
+      return entry ? { label: entry.title, sources: entry.sources } : null;
+    }
+    const item = visualizerType === 'infographic' ? infographicData?.[sourceTarget.itemIndex] : null;
+    return item ? { label: item.title, sources: item.sources } : null;
+  };
+  const sourceItem = findSourceItem();
+
+  const unsupportedCount = visualizerType === 'mindmap'
+    ? graphData?.nodes.filter(isUnsupported).length ?? 0
+    : visualizerType === 'infographic'
+      ? infographicData?.filter(isUnsupported).length ?? 0
+      : timelineData?.filter(isUnsupported).length ?? 0;
+
   // --- New Feature Handlers ---
 
+  // File name from the central topic, keeping Vietnamese letters
+  const exportBaseName = () => {
+    const topic = graphData?.nodes.find(n => n.group === 1)?.label || 'sodo-tuduy';
+    return topic.trim().replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '-').slice(0, 60) || 'sodo-tuduy';
+  };
+
+  // Positions of what is on screen; the tree layout stands in before the map has rendered
+  const getMindMapPositions = () => {
+    const positions = mindMapRef.current?.getPositions();
+    if (positions && positions.size > 0) return positions;
+    return computeLayout(graphData!, 'tree', 800, 600) || new Map();
+  };
+
+  const handleExportMindMap = (format: MindMapExportFormat) => {
+    if (!graphData) return;
+    const { extension, mimeType } = EXPORT_FORMATS[format];
+    const content = exportMindMap(graphData, format, getMindMapPositions(), isDarkMode, visualTheme);
+    downloadBlob(content, `${exportBaseName()}.${extension}`, mimeType);
+  };
+
+  const handleCopyMindMap = async (format: MindMapExportFormat) => {
+    if (!graphData) return;
+    try {
+      await navigator.clipboard.writeText(exportMindMap(graphData, format, getMindMapPositions(), isDarkMode, visualTheme));
+      setNotice(t('notice.copied', { format: EXPORT_FORMATS[format].label }));
+    } catch (err) {
+      console.error("Clipboard error:", err);
+      setError(t('error.clipboard'));
+    }
+  };
+
+  const handleExportInfographic = async (format: 'png' | 'svg' | 'pdf' | 'markdown') => {
+    if (!infographicData) return;
+    if (format === 'markdown') {
+      const content = infographicData.map(item => {
+        const data = itemDataLines(item);
+        return `## ${item.title}\n(${item.icon})\n${item.description}\n${data.length > 0 ? `\n${data.join('\n')}\n` : ''}`;
+      }).join('\n');
+      downloadBlob(content, 'infographic-gemini.md', 'text/markdown');
+      return;
+    }
+
+    try {
+      const { svg, width, height } = toInfographicSvg(infographicData, { isDarkMode, showDescription: showAnnotations, theme: visualTheme, layout: infographicLayout });
+      if (format === 'svg') {
+        downloadBlob(svg, 'infographic-gemini.svg', 'image/svg+xml');
+      } else if (format === 'png') {
+        downloadBlob(await rasterizeSvg(svg, width, height, pngScale), `infographic-gemini@${pngScale}x.png`);
+      } else {
+        downloadBlob(await svgToPdf(svg, width, height), 'infographic-gemini.pdf');
+      }
+    } catch (e) {
+      console.error("Infographic export error:", e);
+      setError(t('error.exportInfographic'));
+    }
+  };
+
+  const handleExportTimeline = async (format: 'png' | 'svg' | 'pdf' | 'markdown') => {
+    if (!timelineData) return;
+    if (format === 'markdown') {
+      downloadBlob(toTimelineMarkdown(timelineData), 'timeline-gemini.md', 'text/markdown');
+      return;
+    }
+
+    try {
+      const { svg, width, height } = toTimelineSvg(timelineData, { isDarkMode, theme: visualTheme, orientation: timelineOrientation });
+      if (format === 'svg') {
+        downloadBlob(svg, 'timeline-gemini.svg', 'image/svg+xml');
+      } else if (format === 'png') {
+        downloadBlob(await rasterizeSvg(svg, width, height, pngScale), `timeline-gemini@${pngScale}x.png`);
+      } else {
+        downloadBlob(await svgToPdf(svg, width, height), 'timeline-gemini.pdf');
+      }
+    } catch (e) {
+      console.error("Timeline export error:", e);
+      setError(t('error.exportTimeline'));
+    }
+  };
+
   const handleDownload = () => {
     if (visualizerType === 'mindmap') {
-      // SVG Download logic
-      const svg = document.querySelector('svg');
-      if (svg) {
-        const serializer = new XMLSerializer();
-        const source = serializer.serializeToString(svg);
-        const blob = new Blob([source], { type: 'image/svg+xml;charset=utf-8' });
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = 'sodo-tuduy-gemini.svg';
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-      }
-    } else if (visualizerType === 'infographic' && infographicData) {
-      // Text Download logic (since HTML to Image is complex without heavy libs)
-      const content = infographicData.map(item => 
-        `## ${item.title}\n(${item.icon})\n${item.description}\n`
-      ).join('\n');
-      
-      const blob = new Blob([content], { type: 'text/markdown;charset=utf-8' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = 'infographic-gemini.md';
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+      handleExportMindMap('svg');
+    } else if (visualizerType === 'infographic') {
+      handleExportInfographic('png');
+    } else {
+      handleExportTimeline('png');
     }
   };
 
   const handleShare = async () => {
-    const shareData = {
-      title: 'Gemini Visualizer Result',
-      text: summary,
-      url: window.location.href,
-    };
+    let url: string;
+    try {
+      url = await createShareUrl({
+        summary,
+        summaryStyle,
+        visualizerType,
+        graphData: graphData || undefined,
+        infographicData: infographicData || undefined,
+        timelineData: timelineData || undefined,
+        settings: { isDarkMode, showAnnotations, mindMapLayout, infographicLayout, timelineOrientation, theme: visualTheme },
+      });
+    } catch (e) {
+      console.error("Share link error:", e);
+      setError(t('error.shareLink'));
+      return;
+    }
 
     if (navigator.share) {
       try {
-        await navigator.share(shareData);
+        await navigator.share({ title: 'Gemini Visualizer', url });
+        return;
       } catch (err) {
+        // Cancelled or unsupported: fall back to copying the link
         console.log('Error sharing', err);
       }
-    } else {
-      // Fallback: Copy summary to clipboard
-      navigator.clipboard.writeText(summary);
-      alert('Đã sao chép tóm tắt vào bộ nhớ tạm!');
+    }
+    try {
+      await navigator.clipboard.writeText(url);
+      setNotice(t('notice.shareCopied'));
+    } catch {
+      window.prompt(t('notice.sharePrompt'), url);
     }
   };
 
+  // Turns a shared (read-only) visualization into a project of one's own
+  const handleEditSharedCopy = () => {
+    setIsReadOnly(false);
+    clearSharedState();
+    setNotice(t('notice.sharedCopySaved'));
+  };
+
   const handleEdit = () => {
     setView('input');
   };
 
+  const handleUILanguageChange = (language: UILanguage) => {
+    setUILanguage(language);
+    setUiLanguageState(language);
+  };
+
+  const handleOutputLanguageChange = (language: OutputLanguage) => {
+    setOutputLanguage(language);
+    setOutputLanguageState(language);
+  };
+
+  const handleStyleOptionsChange = (style: SummaryStyle) => {
+    setPreferredSummaryStyle(style);
+    setStyleOptions(style);
+  };
+
+  const handleThemeChange = (next: VisualTheme) => {
+    setTheme(next);
+    setSharedTheme(null);
+    if (!setVisualTheme(next)) setNotice(t('theme.saveFailed'));
+  };
+
+  const detectedLanguage = outputLanguage === 'auto' ? detectLanguage(inputText) : null;
+
+  const libraryModal = isLibraryOpen && (
+    <ProjectLibrary
+      currentProjectId={projectInfo?.id ?? null}
+      isDarkMode={isDarkMode}
+      onOpen={handleOpenProject}
+      onRenamed={handleProjectRenamed}
+      onDeleted={handleProjectDeleted}
+      onClose={() => setIsLibraryOpen(false)}
+    />
+  );
+
+  const uiLanguageSelect = (
+    <label
+      className={`flex items-center gap-1 px-2 py-1.5 rounded-full text-sm font-medium ${isDarkMode ? 'bg-slate-700 text-gray-200' : 'bg-white/50 text-slate-600'}`}
+      title={t('app.uiLanguage')}
+    >
+      <LanguageIcon className="w-5 h-5" />
+      <select
+        value={uiLanguage}
+        onChange={(e) => handleUILanguageChange(e.target.value as UILanguage)}
+        className="bg-transparent focus:outline-none cursor-pointer"
+      >
+        {(Object.keys(UI_LANGUAGES) as UILanguage[]).map(key => (
+          <option key={key} value={key}>{UI_LANGUAGES[key].label}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  const errorRecoveryButton = error?.recovery && (
+    <button
+      onClick={runRecovery}
+      className={`shrink-0 px-3 py-1 rounded-full text-xs font-semibold transition-colors ${isDarkMode ? 'bg-red-800/60 text-red-100 hover:bg-red-800' : 'bg-red-100 text-red-700 hover:bg-red-200'}`}
+    >
+      {t(`aiError.action.${error.recovery.action}` as MessageKey)}
+    </button>
+  );
+
   // --------------------------------------------------------------------------
   // STYLES
   // --------------------------------------------------------------------------
@@ -192,16 +996,31 @@ function App() {
   if (view === 'input') {
     return (
       <div className={`min-h-screen p-4 md:p-8 flex flex-col transition-colors duration-500 ${themeClasses}`}>
+        {libraryModal}
         <div className="max-w-5xl mx-auto w-full">
             {/* Header */}
             <header className="flex justify-between items-center mb-10 px-4">
             <div className="flex items-center gap-2">
                 <SparklesIcon className="w-6 h-6 text-indigo-500" />
                 <h1 className={`text-xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-indigo-500 to-pink-500`}>
-                Gemini Visualizer VN
+                {t('app.title')}
                 </h1>
             </div>
             <div className="flex items-center gap-4">
+                 {uiLanguageSelect}
+                 <button
+                    onClick={() => setIsLibraryOpen(true)}
+                    className={`flex items-center gap-2 px-3 py-2 rounded-full text-sm font-medium transition-colors ${isDarkMode ? 'bg-slate-700 text-gray-200' : 'bg-white/50 text-slate-600'}`}
+                    title={t('library.title')}
+                 >
+                    <BookOpenIcon className="w-5 h-5" />
+                    <span className="hidden sm:inline">{t('library.open')}</span>
+                 </button>
+                 <ProviderSettings
+                    isOpen={isProviderSettingsOpen}
+                    onOpenChange={setIsProviderSettingsOpen}
+                    isDarkMode={isDarkMode}
+                 />
                  <button 
                     onClick={() => setIsDarkMode(!isDarkMode)}
                     className={`p-2 rounded-full transition-colors ${isDarkMode ? 'bg-slate-700 text-yellow-400' : 'bg-white/50 text-slate-600'}`}
@@ -214,20 +1033,53 @@ function App() {
             <main className="flex-1 flex flex-col gap-6">
             {/* Input Area */}
             <section className="flex flex-col gap-3">
-                <label className={`text-lg font-semibold pl-1 ${textPrimary}`}>
-                Nhập nội dung của bạn ở đây
-                </label>
-                <div className="relative group">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                    <label className={`text-lg font-semibold pl-1 ${textPrimary}`}>
+                    {t('input.label')}
+                    </label>
+                    <label className={`flex items-center gap-2 text-sm cursor-pointer ${textSecondary}`} title={t('input.compareHint')}>
+                        <input
+                            type="checkbox"
+                            checked={documents !== null}
+                            onChange={(e) => handleCompareModeChange(e.target.checked)}
+                            disabled={isSummarizing}
+                            className="accent-indigo-500"
+                        />
+                        {t('input.compare')}
+                    </label>
+                </div>
+                {documents ? (
+                    <DocumentCompareInput
+                        documents={documents}
+                        onChange={setDocuments}
+                        onLoadFile={(index, file) => loadFile(file, index)}
+                        disabled={isSummarizing}
+                        isDarkMode={isDarkMode}
+                    />
+                ) : (
+                <>
+                <div
+                    className="relative group"
+                    onDragOver={handleDragOver}
+                    onDragLeave={() => setIsDraggingFile(false)}
+                    onDrop={handleDrop}
+                >
                     <textarea
+                    ref={inputTextRef}
                     value={inputText}
                     onChange={(e) => setInputText(e.target.value)}
-                    placeholder="Dán văn bản hoặc tải lên tệp..."
-                    className={`w-full h-40 rounded-2xl p-4 focus:outline-none focus:ring-2 focus:ring-indigo-400/50 resize-none transition-all shadow-sm ${inputBg}`}
+                    placeholder={t('input.placeholder')}
+                    className={`w-full h-40 rounded-2xl p-4 focus:outline-none focus:ring-2 focus:ring-indigo-400/50 resize-none transition-all shadow-sm ${inputBg} ${isDraggingFile ? 'ring-2 ring-indigo-400' : ''}`}
                     />
+                    {isIngesting && (
+                        <div className={`absolute inset-0 rounded-2xl flex items-center justify-center gap-2 text-sm font-medium ${isDarkMode ? 'bg-slate-900/70 text-gray-200' : 'bg-white/70 text-gray-600'}`}>
+                            <ArrowPathIcon className="w-5 h-5 animate-spin" /> {t('input.reading')}
+                        </div>
+                    )}
                     <button 
                         onClick={() => fileInputRef.current?.click()}
                         className={`absolute bottom-3 right-3 p-2 rounded-full transition-colors ${isDarkMode ? 'bg-slate-700 text-gray-300 hover:bg-slate-600' : 'bg-white/50 text-gray-500 hover:bg-white/80'}`}
-                        title="Tải lên tệp văn bản"
+                        title={t('input.upload')}
                     >
                         <DocumentTextIcon className="w-5 h-5" />
                     </button>
@@ -235,29 +1087,88 @@ function App() {
                         type="file" 
                         ref={fileInputRef} 
                         className="hidden" 
-                        accept=".txt,.md,.json" 
+                        accept={ACCEPTED_EXTENSIONS.join(',')} 
                         onChange={handleFileUpload} 
                     />
                 </div>
 
-                {error && <p className="text-red-500 text-sm pl-1">{error}</p>}
+                <DocumentInfo
+                    document={sourceDocument}
+                    charCount={inputText.length}
+                    isDarkMode={isDarkMode}
+                    onClear={handleClearDocument}
+                />
+                </>
+                )}
+
+                <button
+                    onClick={() => mindMapFileInputRef.current?.click()}
+                    className={`self-start flex items-center gap-2 text-sm font-medium pl-1 transition-colors ${isDarkMode ? 'text-indigo-300 hover:text-indigo-200' : 'text-indigo-600 hover:text-indigo-800'}`}
+                    title={t('input.openMindMapHint')}
+                >
+                    <FolderOpenIcon className="w-4 h-4" /> {t('input.openMindMap')}
+                </button>
+                <input
+                    type="file"
+                    ref={mindMapFileInputRef}
+                    className="hidden"
+                    accept={IMPORT_EXTENSIONS.join(',')}
+                    onChange={handleImportMindMap}
+                />
+
+                <SummaryStyleControls style={styleOptions} onChange={handleStyleOptionsChange} isDarkMode={isDarkMode} />
+
+                <div className={`flex flex-wrap items-center gap-2 text-sm pl-1 ${textSecondary}`}>
+                    <label htmlFor="output-language" className="font-medium">{t('input.outputLanguage')}</label>
+                    <select
+                        id="output-language"
+                        value={outputLanguage}
+                        onChange={(e) => handleOutputLanguageChange(e.target.value as OutputLanguage)}
+                        className={`rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-400/50 ${inputBg}`}
+                    >
+                        <option value="auto">{t('input.outputLanguageAuto')}</option>
+                        {(Object.keys(LANGUAGES) as (keyof typeof LANGUAGES)[]).map(code => (
+                            <option key={code} value={code}>{LANGUAGES[code].nativeName}</option>
+                        ))}
+                    </select>
+                    {detectedLanguage && (
+                        <span className="text-xs opacity-80">
+                            {t('input.detectedLanguage', { language: LANGUAGES[detectedLanguage].nativeName })}
+                        </span>
+                    )}
+                </div>
+
+                {error && (
+                    <div className="flex items-center justify-between gap-3 text-red-500 text-sm pl-1">
+                        <p>{error.message}</p>
+                        {errorRecoveryButton}
+                    </div>
+                )}
 
                 <button
-                onClick={handleSummarize}
-                disabled={isSummarizing || !inputText}
+                onClick={isSummarizing ? handleCancel : () => handleSummarize()}
+                disabled={!isSummarizing && !inputText}
                 className={`w-full py-3 rounded-xl font-medium shadow-lg transition-all transform hover:scale-[1.01] active:scale-[0.99] flex justify-center items-center gap-2 border border-white/20
                     ${isSummarizing 
-                        ? 'bg-gray-200 text-gray-400 cursor-not-allowed' 
+                        ? 'bg-gray-200 text-gray-500 hover:bg-gray-300' 
                         : `bg-gradient-to-r from-indigo-500/80 to-purple-500/80 text-white hover:from-indigo-500 hover:to-purple-500`}`}
                 >
                 {isSummarizing ? (
                     <>
-                    <ArrowPathIcon className="w-5 h-5 animate-spin" /> Đang xử lý...
+                    <ArrowPathIcon className="w-5 h-5 animate-spin" />
+                    {documents && summarizingIndex !== null
+                        ? t('compare.summarizing', { label: documents[summarizingIndex].label, index: summarizingIndex + 1, total: documents.length })
+                        : t('input.processing')}
+                    <span className="flex items-center gap-1 ml-2 text-sm"><StopIcon className="w-4 h-4" /> {t('input.stop')}</span>
                     </>
                 ) : (
-                    "Tóm tắt với Gemini"
+                    t('input.summarize')
                 )}
                 </button>
+
+                {isSummarizing && summaryProgress && (
+                    <SummaryProgressView progress={summaryProgress} isDarkMode={isDarkMode} />
+                )}
             </section>
 
             {/* Result Section */}
@@ -265,51 +1176,104 @@ function App() {
                 <div className="animate-fade-in-up">
                     <section className="flex flex-col gap-3 mt-4">
                     <label className={`text-lg font-semibold pl-1 ${textPrimary}`}>
-                        Tóm tắt từ Gemini
+                        {t('summary.label')}
                     </label>
-                    <div className={`rounded-2xl p-6 leading-relaxed shadow-sm min-h-[120px] ${panelClasses}`}>
-                        {summary}
-                    </div>
+                    {summaryStyle && (
+                        <p className={`text-xs pl-1 -mt-2 ${textSecondary}`}>
+                            {t('summaryStyle.applied', { style: summaryStyleLabel(summaryStyle) })}
+                        </p>
+                    )}
+                    {documents ? (
+                        <SummaryDiffView documents={documents} isDarkMode={isDarkMode} />
+                    ) : (
+                        <div className={`rounded-2xl p-6 leading-relaxed whitespace-pre-line shadow-sm min-h-[120px] ${panelClasses}`}>
+                            {summary}
+                        </div>
+                    )}
                     </section>
 
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-8">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-8">
                     {/* Create Infographic Button */}
                     <button 
-                        onClick={handleCreateInfographic}
-                        disabled={isGeneratingInfographic}
-                        className={`group h-32 rounded-2xl flex items-center justify-center gap-4 hover:shadow-xl transition-all border border-white/10 relative overflow-hidden ${cardClasses}`}
+                        onClick={isGeneratingInfographic ? handleCancel : handleCreateInfographic}
+                        disabled={isSummarizing || isSummaryIncomplete}
+                        className={`group h-32 rounded-2xl disabled:opacity-50 flex items-center justify-center gap-4 hover:shadow-xl transition-all border border-white/10 relative overflow-hidden ${cardClasses}`}
                     >
                         
                         {isGeneratingInfographic ? (
-                            <ArrowPathIcon className="w-8 h-8 text-blue-500 animate-spin" />
+                            <>
+                                <ArrowPathIcon className="w-8 h-8 text-blue-500 animate-spin" />
+                                <span className={`text-sm ${textSecondary}`}>{t('summary.clickToCancel')}</span>
+                            </>
                         ) : (
                             <>
                                 <div className={`w-12 h-12 rounded-xl flex items-center justify-center shadow-inner ${isDarkMode ? 'bg-blue-900/50 text-blue-400' : 'bg-blue-100 text-blue-600'}`}>
                                     <ChartBarIcon className="w-7 h-7" />
                                 </div>
-                                <span className={`text-xl font-bold ${textPrimary}`}>Tạo Infographic</span>
+                                <span className={`text-xl font-bold ${textPrimary}`}>{t('summary.createInfographic')}</span>
                             </>
                         )}
                     </button>
 
                     {/* Create Mind Map Button */}
                     <button
-                        onClick={handleCreateMindMap}
-                        disabled={isGeneratingGraph}
-                        className={`group h-32 rounded-2xl flex items-center justify-center gap-4 hover:shadow-xl transition-all border border-white/10 relative overflow-hidden ${cardClasses}`}
+                        onClick={isGeneratingGraph ? handleCancel : handleCreateMindMap}
+                        disabled={isSummarizing || isSummaryIncomplete}
+                        className={`group h-32 rounded-2xl disabled:opacity-50 flex items-center justify-center gap-4 hover:shadow-xl transition-all border border-white/10 relative overflow-hidden ${cardClasses}`}
                     >
                         {isGeneratingGraph ? (
-                            <ArrowPathIcon className="w-8 h-8 text-purple-500 animate-spin" />
+                            <>
+                                <ArrowPathIcon className="w-8 h-8 text-purple-500 animate-spin" />
+                                <span className={`text-sm ${textSecondary}`}>{t('summary.clickToCancel')}</span>
+                            </>
                         ) : (
                             <>
                                 <div className={`w-12 h-12 rounded-xl flex items-center justify-center shadow-inner ${isDarkMode ? 'bg-purple-900/50 text-purple-400' : 'bg-purple-100 text-purple-600'}`}>
                                     <ShareIcon className="w-7 h-7 transform -scale-y-100" />
                                 </div>
-                                <span className={`text-xl font-bold ${textPrimary}`}>Tạo Sơ đồ tư duy</span>
+                                <span className={`text-xl font-bold ${textPrimary}`}>{t('summary.createMindMap')}</span>
+                            </>
+                        )}
+                    </button>
+
+                    {/* Create Timeline Button */}
+                    <button
+                        onClick={isGeneratingTimeline ? handleCancel : handleCreateTimeline}
+                        disabled={isSummarizing || isSummaryIncomplete}
+                        className={`group h-32 rounded-2xl disabled:opacity-50 flex items-center justify-center gap-4 hover:shadow-xl transition-all border border-white/10 relative overflow-hidden ${cardClasses}`}
+                    >
+                        {isGeneratingTimeline ? (
+                            <>
+                                <ArrowPathIcon className="w-8 h-8 text-teal-500 animate-spin" />
+                                <span className={`text-sm ${textSecondary}`}>{t('summary.clickToCancel')}</span>
+                            </>
+                        ) : (
+                            <>
+                                <div className={`w-12 h-12 rounded-xl flex items-center justify-center shadow-inner ${isDarkMode ? 'bg-teal-900/50 text-teal-400' : 'bg-teal-100 text-teal-600'}`}>
+                                    <ClockIcon className="w-7 h-7" />
+                                </div>
+                                <span className={`text-xl font-bold ${textPrimary}`}>{t('summary.createTimeline')}</span>
                             </>
                         )}
                     </button>
                     </div>
+
+                    {isSummaryIncomplete && (
+                        <p className={`mt-3 pl-1 text-sm ${textSecondary}`}>{t('compare.incomplete')}</p>
+                    )}
+
+                    {!documents && (
+                    <label className={`flex items-center gap-2 mt-3 pl-1 text-sm cursor-pointer ${textSecondary}`} title={t('summary.conceptMapHint')}>
+                        <input
+                            type="checkbox"
+                            checked={isConceptMapMode}
+                            onChange={(e) => setIsConceptMapMode(e.target.checked)}
+                            className="accent-purple-500"
+                        />
+                        {t('summary.conceptMap')}
+                        <span className="text-xs opacity-70 hidden md:inline">{t('summary.conceptMapHint')}</span>
+                    </label>
+                    )}
                 </div>
             )}
             </main>
@@ -323,6 +1287,7 @@ function App() {
   // --------------------------------------------------------------------------
   return (
     <div className={`min-h-screen p-4 flex flex-col relative overflow-hidden transition-colors duration-500 ${themeClasses}`}>
+      {libraryModal}
       {/* Background Blobs */}
       <div className={`absolute top-[-20%] left-[-10%] w-[500px] h-[500px] rounded-full blur-[100px] pointer-events-none ${isDarkMode ? 'bg-blue-900/20' : 'bg-blue-300/30'}`} />
       <div className={`absolute bottom-[-20%] right-[-10%] w-[500px] h-[500px] rounded-full blur-[100px] pointer-events-none ${isDarkMode ? 'bg-purple-900/20' : 'bg-purple-300/30'}`} />
@@ -333,12 +1298,24 @@ function App() {
           <div className="bg-gradient-to-br from-blue-500 to-purple-600 rounded-full p-1.5 shadow-lg">
             <SparklesIcon className="w-5 h-5 text-white" />
           </div>
-          <span className={`font-bold ${textPrimary}`}>GeminiVisuals</span>
+          <span className={`font-bold ${textPrimary}`}>{t('app.shortTitle')}</span>
         </div>
         <h2 className={`text-lg font-bold hidden md:block ${textPrimary}`}>
-            {visualizerType === 'mindmap' ? 'Sơ đồ Tư duy' : 'Infographic Tổng quan'}
+            {visualizerType === 'mindmap' ? (graphData && isMultiDocumentMap(graphData) ? t('visualizer.comparisonTitle')
+                : graphData && isConceptMap(graphData) ? t('visualizer.conceptMapTitle')
+                : t('visualizer.mindMapTitle'))
+              : visualizerType === 'infographic' ? t('visualizer.infographicTitle')
+              : t('visualizer.timelineTitle')}
         </h2>
         <div className="flex items-center gap-3">
+            {uiLanguageSelect}
+            <button
+                onClick={() => setIsLibraryOpen(true)}
+                className={`p-1.5 rounded-full transition-colors ${isDarkMode ? 'bg-slate-700 text-gray-200' : 'bg-gray-200 text-slate-600'}`}
+                title={t('library.title')}
+            >
+                <BookOpenIcon className="w-5 h-5" />
+            </button>
              {/* Simple Theme Toggle in Header for Viz view */}
             <button 
                 onClick={() => setIsDarkMode(!isDarkMode)}
@@ -365,12 +1342,20 @@ function App() {
                 {visualizerType === 'mindmap' && graphData && (
                     <>
                         <h3 className={`absolute top-6 left-0 right-0 text-center font-bold text-xl z-10 drop-shadow-sm pointer-events-none ${textPrimary}`}>
-                            {graphData.nodes.find(n => n.group === 1)?.label || "Chủ đề chính"}
+                            {graphData.nodes.find(n => n.group === 1)?.label || t('visualizer.mainTopic')}
                         </h3>
                         <MindMapGraph 
+                            ref={mindMapRef}
                             data={graphData} 
                             isDarkMode={isDarkMode} 
+                            theme={visualTheme}
                             showLabels={showAnnotations} 
+                            layout={mindMapLayout}
+                            onChange={isReadOnly ? undefined : setGraphData}
+                            onExpandNode={isReadOnly ? undefined : handleExpandNode}
+                            onExplainNode={isReadOnly ? undefined : handleExplainNode}
+                            onShowSource={nodeId => setSourceTarget({ nodeId })}
+                            busyNodeId={expandingNodeId}
                         />
                     </>
                 )}
@@ -378,7 +1363,20 @@ function App() {
                     <InfographicView 
                         data={infographicData} 
                         isDarkMode={isDarkMode}
+                        theme={visualTheme}
+                        layout={infographicLayout}
+                        showDescription={showAnnotations}
+                        onItemClick={itemIndex => setSourceTarget({ itemIndex })}
+                    />
+                )}
+                {visualizerType === 'timeline' && timelineData && (
+                    <TimelineView
+                        data={timelineData}
+                        isDarkMode={isDarkMode}
+                        theme={visualTheme}
+                        orientation={timelineOrientation}
                         showDescription={showAnnotations}
+                        onEventClick={eventIndex => setSourceTarget({ eventIndex })}
                     />
                 )}
             </div>
@@ -387,8 +1385,10 @@ function App() {
             <div className="absolute bottom-8 left-10 right-10 text-center pointer-events-none hidden lg:block z-10">
                 <p className={`text-sm font-medium max-w-2xl mx-auto backdrop-blur-md p-3 rounded-xl shadow-sm border border-white/10 ${isDarkMode ? 'bg-slate-800/60 text-gray-300' : 'bg-white/40 text-gray-600'}`}>
                     {visualizerType === 'mindmap' 
-                        ? `Mô hình Gemini đã phân tích nội dung và tạo ra sơ đồ tư duy này.`
-                        : `Thông tin được trích xuất và tổng hợp bởi Gemini.`
+                        ? t('visualizer.mindMapCaption')
+                        : visualizerType === 'infographic'
+                          ? t('visualizer.infographicCaption')
+                          : t('visualizer.timelineCaption')
                     }
                 </p>
             </div>
@@ -397,9 +1397,55 @@ function App() {
 
         {/* Sidebar Actions */}
         <div className="w-full md:w-80 flex flex-col gap-4">
+            {isReadOnly && (
+              <div className={`rounded-2xl px-4 py-3 text-sm border ${isDarkMode ? 'bg-indigo-900/30 border-indigo-700/50 text-indigo-200' : 'bg-indigo-50/80 border-indigo-200 text-indigo-800'}`}>
+                {t('visualizer.readOnly')}
+              </div>
+            )}
+
+            {error && (
+              <div className={`rounded-2xl px-4 py-3 text-sm border flex flex-col items-start gap-2 ${isDarkMode ? 'bg-red-900/30 border-red-700/50 text-red-200' : 'bg-red-50/80 border-red-200 text-red-700'}`}>
+                <p>{error.message}</p>
+                {errorRecoveryButton}
+              </div>
+            )}
+
+            {explanation && (
+              <NodeExplanationPanel
+                label={explanation.label}
+                text={explanation.text}
+                isLoading={explanation.isLoading}
+                isDarkMode={isDarkMode}
+                onClose={handleCloseExplanation}
+              />
+            )}
+
+            {sourceItem && (
+              <SourcePanel
+                label={sourceItem.label}
+                sources={sourceItem.sources}
+                sourceText={inputText}
+                isDarkMode={isDarkMode}
+                onClose={() => setSourceTarget(null)}
+              />
+            )}
+
+            {unsupportedCount > 0 && (
+              <div className={`flex items-center gap-2 rounded-2xl px-4 py-3 text-sm border ${isDarkMode ? 'bg-amber-900/30 border-amber-700/50 text-amber-200' : 'bg-amber-50/80 border-amber-200 text-amber-800'}`}>
+                <ExclamationTriangleIcon className="w-5 h-5 shrink-0" />
+                {t('grounding.unsupportedCount', { count: unsupportedCount })}
+              </div>
+            )}
+
+            {notice && (
+              <div className={`rounded-2xl px-4 py-3 text-sm border ${isDarkMode ? 'bg-amber-900/30 border-amber-700/50 text-amber-200' : 'bg-amber-50/80 border-amber-200 text-amber-800'}`}>
+                {notice}
+              </div>
+            )}
+
             {/* Action Box */}
           <div className={`rounded-3xl p-5 flex flex-col gap-4 ${panelClasses}`}>
-            <h4 className={`font-bold mb-1 ${textSecondary}`}>Tùy chọn Hành động</h4>
+            <h4 className={`font-bold mb-1 ${textSecondary}`}>{t('actions.title')}</h4>
             
             <button 
                 onClick={handleDownload}
@@ -409,10 +1455,70 @@ function App() {
                 <ArrowDownTrayIcon className="w-5 h-5" />
               </div>
               <span className={`font-semibold ${textPrimary}`}>
-                 {visualizerType === 'mindmap' ? 'Tải SVG' : 'Tải Text'}
+                 {visualizerType === 'mindmap' ? t('actions.downloadSvg') : t('actions.downloadPng', { scale: pngScale })}
               </span>
             </button>
 
+            {((visualizerType === 'infographic' && infographicData) || (visualizerType === 'timeline' && timelineData)) && (
+              <div className="flex flex-col gap-2">
+                <span className={`text-xs font-semibold uppercase tracking-wide ${textSecondary}`}>{t('actions.pngResolution')}</span>
+                <div className="flex gap-2">
+                  {PNG_SCALES.map(scale => (
+                    <button
+                      key={scale}
+                      onClick={() => setPngScale(scale)}
+                      className={`flex-1 px-3 py-1.5 rounded-lg text-xs font-semibold border transition-colors ${pngScale === scale
+                        ? 'bg-indigo-500 border-indigo-500 text-white'
+                        : isDarkMode ? 'bg-slate-700/50 border-slate-600 hover:bg-slate-700 text-gray-200' : 'bg-white/40 border-white/50 hover:bg-white/60 text-gray-700'}`}
+                    >
+                      {scale}x
+                    </button>
+                  ))}
+                </div>
+                <span className={`text-xs font-semibold uppercase tracking-wide ${textSecondary}`}>{t('actions.otherFormats')}</span>
+                <div className="flex flex-wrap gap-2">
+                  {([['svg', 'SVG'], ['pdf', 'PDF'], ['markdown', 'Markdown']] as const).map(([format, label]) => (
+                    <button
+                      key={format}
+                      onClick={() => visualizerType === 'timeline' ? handleExportTimeline(format) : handleExportInfographic(format)}
+                      className={`px-3 py-1.5 rounded-lg text-xs font-semibold border transition-colors ${isDarkMode ? 'bg-slate-700/50 border-slate-600 hover:bg-slate-700 text-gray-200' : 'bg-white/40 border-white/50 hover:bg-white/60 text-gray-700'}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {visualizerType === 'mindmap' && graphData && (
+              <div className="flex flex-col gap-2">
+                <span className={`text-xs font-semibold uppercase tracking-wide ${textSecondary}`}>{t('actions.otherFormats')}</span>
+                <div className="flex flex-wrap gap-2">
+                  {(['opml', 'freemind', 'markdown', 'mermaid', 'json'] as MindMapExportFormat[]).map(format => (
+                    <button
+                      key={format}
+                      onClick={() => handleExportMindMap(format)}
+                      className={`px-3 py-1.5 rounded-lg text-xs font-semibold border transition-colors ${isDarkMode ? 'bg-slate-700/50 border-slate-600 hover:bg-slate-700 text-gray-200' : 'bg-white/40 border-white/50 hover:bg-white/60 text-gray-700'}`}
+                    >
+                      {EXPORT_FORMATS[format].label}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {(['markdown', 'mermaid'] as MindMapExportFormat[]).map(format => (
+                    <button
+                      key={format}
+                      onClick={() => handleCopyMindMap(format)}
+                      className={`flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-semibold border transition-colors ${isDarkMode ? 'bg-slate-700/50 border-slate-600 hover:bg-slate-700 text-gray-200' : 'bg-white/40 border-white/50 hover:bg-white/60 text-gray-700'}`}
+                      title={t('actions.copyHint')}
+                    >
+                      <ClipboardDocumentIcon className="w-4 h-4" /> {t('actions.copy', { format: EXPORT_FORMATS[format].label })}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             <button 
                 onClick={handleShare}
                 className={`flex items-center gap-3 p-3 rounded-xl transition-colors border shadow-sm text-left ${isDarkMode ? 'bg-slate-700/50 border-slate-600 hover:bg-slate-700' : 'bg-white/40 border-white/50 hover:bg-white/60'}`}
@@ -420,24 +1526,24 @@ function App() {
               <div className={`p-2 rounded-lg ${isDarkMode ? 'bg-purple-900/50 text-purple-400' : 'bg-purple-100 text-purple-600'}`}>
                 <ShareIcon className="w-5 h-5" />
               </div>
-              <span className={`font-semibold ${textPrimary}`}>Chia sẻ</span>
+              <span className={`font-semibold ${textPrimary}`}>{t('actions.share')}</span>
             </button>
 
             <button 
-                onClick={handleEdit}
+                onClick={isReadOnly ? handleEditSharedCopy : handleEdit}
                 className={`flex items-center gap-3 p-3 rounded-xl transition-colors border shadow-sm text-left ${isDarkMode ? 'bg-slate-700/50 border-slate-600 hover:bg-slate-700' : 'bg-white/40 border-white/50 hover:bg-white/60'}`}
             >
               <div className={`p-2 rounded-lg ${isDarkMode ? 'bg-indigo-900/50 text-indigo-400' : 'bg-indigo-100 text-indigo-600'}`}>
                 <PencilSquareIcon className="w-5 h-5" />
               </div>
-              <span className={`font-semibold ${textPrimary}`}>Chỉnh sửa</span>
+              <span className={`font-semibold ${textPrimary}`}>{isReadOnly ? t('actions.editCopy') : t('actions.edit')}</span>
             </button>
           </div>
 
           {/* Settings Box */}
           <div className={`rounded-3xl p-5 flex flex-col gap-4 mt-auto ${panelClasses}`}>
              <div className="flex items-center justify-between">
-                <span className={`font-medium ${textPrimary}`}>Chế độ tối</span>
+                <span className={`font-medium ${textPrimary}`}>{t('settings.darkMode')}</span>
                 <button 
                     onClick={() => setIsDarkMode(!isDarkMode)}
                     className={`w-12 h-6 rounded-full relative transition-colors ${isDarkMode ? 'bg-indigo-600' : 'bg-gray-300'}`}
@@ -446,7 +1552,7 @@ function App() {
                 </button>
              </div>
              <div className="flex items-center justify-between">
-                <span className={`font-medium ${textPrimary}`}>Hiển thị chú thích</span>
+                <span className={`font-medium ${textPrimary}`}>{t('settings.annotations')}</span>
                 <button 
                     onClick={() => setShowAnnotations(!showAnnotations)}
                     className={`w-12 h-6 rounded-full relative transition-colors ${showAnnotations ? 'bg-indigo-600' : 'bg-gray-300'}`}
@@ -454,6 +1560,49 @@ function App() {
                     <div className={`absolute top-1 w-4 h-4 bg-white rounded-full shadow-md transition-all ${showAnnotations ? 'left-7' : 'left-1'}`}></div>
                 </button>
              </div>
+             {visualizerType === 'mindmap' && (
+                <div className="flex items-center justify-between gap-3">
+                    <span className={`font-medium ${textPrimary}`}>{t('settings.layout')}</span>
+                    <select
+                        value={mindMapLayout}
+                        onChange={(e) => setMindMapLayout(e.target.value as MindMapLayout)}
+                        className={`rounded-lg border px-2 py-1 text-sm ${isDarkMode ? 'bg-slate-700 border-slate-600 text-white' : 'bg-white/60 border-white/80 text-gray-700'}`}
+                    >
+                        {LAYOUTS.map(key => (
+                            <option key={key} value={key}>{t(`layout.${key}`)}</option>
+                        ))}
+                    </select>
+                </div>
+             )}
+             {visualizerType === 'infographic' && (
+                <div className="flex items-center justify-between gap-3">
+                    <span className={`font-medium ${textPrimary}`}>{t('settings.infographicLayout')}</span>
+                    <select
+                        value={infographicLayout}
+                        onChange={(e) => setInfographicLayout(e.target.value as InfographicLayout)}
+                        className={`rounded-lg border px-2 py-1 text-sm ${isDarkMode ? 'bg-slate-700 border-slate-600 text-white' : 'bg-white/60 border-white/80 text-gray-700'}`}
+                    >
+                        {INFOGRAPHIC_LAYOUTS.map(key => (
+                            <option key={key} value={key}>{t(`infographicLayout.${key}`)}</option>
+                        ))}
+                    </select>
+                </div>
+             )}
+             {visualizerType === 'timeline' && (
+                <div className="flex items-center justify-between gap-3">
+                    <span className={`font-medium ${textPrimary}`}>{t('settings.timelineOrientation')}</span>
+                    <select
+                        value={timelineOrientation}
+                        onChange={(e) => setTimelineOrientation(e.target.value as TimelineOrientation)}
+                        className={`rounded-lg border px-2 py-1 text-sm ${isDarkMode ? 'bg-slate-700 border-slate-600 text-white' : 'bg-white/60 border-white/80 text-gray-700'}`}
+                    >
+                        {TIMELINE_ORIENTATIONS.map(key => (
+                            <option key={key} value={key}>{t(`timelineOrientation.${key}`)}</option>
+                        ))}
+                    </select>
+                </div>
+             )}
+             <ThemeSettings theme={theme} onChange={handleThemeChange} onError={message => setError(message)} isDarkMode={isDarkMode} />
           </div>
         </div>
       </div>
@@ -461,11 +1610,11 @@ function App() {
       {/* Create New / Back Button */}
       <div className="fixed bottom-6 left-6 z-50">
           <button 
-            onClick={() => setView('input')}
+            onClick={handleNewProject}
             className={`px-6 py-3 rounded-full flex items-center gap-2 transition-all shadow-lg font-bold border-2 ${isDarkMode ? 'bg-slate-800 text-white border-slate-600 hover:bg-slate-700' : 'glass-panel text-indigo-900 border-white/50 hover:bg-white/60'}`}
           >
              <ChevronLeftIcon className="w-5 h-5" />
-             <span>Tạo mới</span>
+             <span>{t('visualizer.new')}</span>
           </button>
       </div>
     </div>
@@ -0,0 +1,138 @@
+import React, { useRef, useState } from 'react';
+import { ArrowPathIcon, DocumentTextIcon, PlusIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { ComparedDocument } from '../types';
+import { ACCEPTED_EXTENSIONS } from '../services/documentIngestion';
+import { MAX_DOCUMENTS, MIN_DOCUMENTS, createComparedDocument, rekeyDocuments, sourceColor } from '../services/multiDocument';
+import DocumentInfo from './DocumentInfo';
+import { t } from '../i18n';
+
+interface DocumentCompareInputProps {
+  documents: ComparedDocument[];
+  onChange: (documents: ComparedDocument[]) => void;
+  onLoadFile: (index: number, file: File) => Promise<void>; // Reads a file into one document
+  disabled?: boolean; // While the documents are being summarized
+  isDarkMode?: boolean;
+}
+
+// One labeled text box per compared document, each taking pasted text or a file
+const DocumentCompareInput: React.FC<DocumentCompareInputProps> = ({ documents, onChange, onLoadFile, disabled = false, isDarkMode = false }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const fileTargetRef = useRef(0);
+  const [readingIndex, setReadingIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const update = (index: number, changes: Partial<ComparedDocument>) =>
+    onChange(documents.map((d, i) => (i === index ? { ...d, ...changes } : d)));
+
+  const remove = (index: number) => onChange(rekeyDocuments(documents.filter((_, i) => i !== index)));
+
+  const add = () => onChange([...documents, createComparedDocument(documents.length)]);
+
+  const load = async (index: number, file: File) => {
+    setReadingIndex(index);
+    try {
+      await onLoadFile(index, file);
+    } finally {
+      setReadingIndex(null);
+    }
+  };
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) load(fileTargetRef.current, file);
+    // Allow picking the same file again
+    event.target.value = '';
+  };
+
+  const handleDrop = (event: React.DragEvent, index: number) => {
+    const file = event.dataTransfer.files?.[0];
+    setDropIndex(null);
+    if (!file || disabled) return;
+    event.preventDefault();
+    load(index, file);
+  };
+
+  const inputBg = isDarkMode ? "bg-slate-800/50 text-white placeholder-gray-500" : "glass-panel text-gray-700";
+  const iconButton = `p-2 rounded-full transition-colors ${isDarkMode ? 'bg-slate-700 text-gray-300 hover:bg-slate-600' : 'bg-white/50 text-gray-500 hover:bg-white/80'}`;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {documents.map((document, index) => (
+        <div key={document.key} className="flex flex-col gap-2">
+          <div className="flex items-center gap-2 pl-1">
+            <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: sourceColor(document.key, documents) }} />
+            <input
+              value={document.label}
+              onChange={(e) => update(index, { label: e.target.value })}
+              disabled={disabled}
+              maxLength={60}
+              aria-label={t('compare.label', { key: document.key })}
+              className={`flex-1 min-w-0 bg-transparent font-semibold focus:outline-none border-b border-transparent focus:border-indigo-400 ${isDarkMode ? 'text-white' : 'text-gray-800'}`}
+            />
+            {documents.length > MIN_DOCUMENTS && (
+              <button
+                onClick={() => remove(index)}
+                disabled={disabled}
+                className={`hover:text-red-500 disabled:opacity-30 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}
+                title={t('compare.remove')}
+              >
+                <XMarkIcon className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+          <div
+            className="relative"
+            onDragOver={(e) => {
+              if (!e.dataTransfer.types.includes('Files')) return;
+              e.preventDefault();
+              setDropIndex(index);
+            }}
+            onDragLeave={() => setDropIndex(null)}
+            onDrop={(e) => handleDrop(e, index)}
+          >
+            <textarea
+              value={document.text}
+              onChange={(e) => update(index, { text: e.target.value })}
+              disabled={disabled}
+              placeholder={t('compare.placeholder')}
+              className={`w-full h-36 rounded-2xl p-4 focus:outline-none focus:ring-2 focus:ring-indigo-400/50 resize-none transition-all shadow-sm ${inputBg} ${dropIndex === index ? 'ring-2 ring-indigo-400' : ''}`}
+            />
+            {readingIndex === index && (
+              <div className={`absolute inset-0 rounded-2xl flex items-center justify-center gap-2 text-sm font-medium ${isDarkMode ? 'bg-slate-900/70 text-gray-200' : 'bg-white/70 text-gray-600'}`}>
+                <ArrowPathIcon className="w-5 h-5 animate-spin" /> {t('input.reading')}
+              </div>
+            )}
+            <button
+              onClick={() => { fileTargetRef.current = index; fileInputRef.current?.click(); }}
+              disabled={disabled}
+              className={`absolute bottom-3 right-3 ${iconButton}`}
+              title={t('input.upload')}
+            >
+              <DocumentTextIcon className="w-5 h-5" />
+            </button>
+          </div>
+          <DocumentInfo
+            document={document.sourceDocument}
+            charCount={document.text.length}
+            isDarkMode={isDarkMode}
+            onClear={() => update(index, { sourceDocument: null, text: '' })}
+          />
+        </div>
+      ))}
+
+      {documents.length < MAX_DOCUMENTS && (
+        <button
+          onClick={add}
+          disabled={disabled}
+          className={`min-h-[9rem] rounded-2xl border-2 border-dashed flex items-center justify-center gap-2 text-sm font-medium transition-colors disabled:opacity-50 ${isDarkMode ? 'border-slate-700 text-gray-400 hover:border-indigo-400 hover:text-indigo-300' : 'border-white/80 text-gray-500 hover:border-indigo-300 hover:text-indigo-600'}`}
+        >
+          <PlusIcon className="w-5 h-5" /> {t('compare.add')}
+        </button>
+      )}
+
+      <input type="file" ref={fileInputRef} className="hidden" accept={ACCEPTED_EXTENSIONS.join(',')} onChange={handleFileUpload} />
+    </div>
+  );
+};
+
+export default DocumentCompareInput;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { DocumentTextIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { IngestedDocument } from '../types';
+import { getLocale, t } from '../i18n';
+
+interface DocumentInfoProps {
+  document: IngestedDocument | null;
+  charCount: number; // Length of the text currently in the editor
+  isDarkMode?: boolean;
+  onClear?: () => void;
+}
+
+const FORMAT_LABELS: Record<IngestedDocument['format'], () => string> = {
+  text: () => t('document.text'),
+  markdown: () => 'Markdown',
+  pdf: () => 'PDF',
+  docx: () => 'Word',
+  html: () => 'HTML',
+  subtitles: () => t('document.subtitles'),
+};
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const DocumentInfo: React.FC<DocumentInfoProps> = ({ document, charCount, isDarkMode = false, onClear }) => {
+  const textColor = isDarkMode ? "text-gray-400" : "text-gray-500";
+
+  return (
+    <div className={`flex flex-wrap items-center gap-x-4 gap-y-1 text-xs pl-1 ${textColor}`}>
+      {document && (
+        <span className={`flex items-center gap-1.5 font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+          <DocumentTextIcon className="w-4 h-4" />
+          {document.name}
+          {onClear && (
+            <button onClick={onClear} title={t('document.remove')} className="hover:text-red-500">
+              <XMarkIcon className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </span>
+      )}
+      {document && <span>{FORMAT_LABELS[document.format]()}</span>}
+      {document && <span>{formatSize(document.size)}</span>}
+      {document?.pageCount !== undefined && <span>{t('document.pages', { count: document.pageCount })}</span>}
+      <span>{t('document.characters', { count: charCount.toLocaleString(getLocale()) })}</span>
+    </div>
+  );
+};
+
+export default DocumentInfo;
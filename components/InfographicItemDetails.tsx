@@ -0,0 +1,146 @@
+import React from 'react';
+import { MinusIcon, PlusIcon } from '@heroicons/react/24/outline';
+import { InfographicItem } from '../types';
+import {
+  DONUT_SIZE,
+  donutSlices,
+  formatNumber,
+  formatStat,
+  hasRankingValues,
+  isPercentStat,
+  itemKind,
+  progressWidth,
+  rankingBars,
+  seriesColor
+} from '../services/infographicCharts';
+import { ThemeColors, withOpacity } from '../services/theme';
+import { t } from '../i18n';
+
+interface InfographicItemDetailsProps {
+  item: InfographicItem;
+  colors: ThemeColors;
+  isDarkMode?: boolean;
+}
+
+// Chart and list widths are drawn in a fixed coordinate space and scaled to the card
+const CHART_WIDTH = 240;
+
+// The typed part of an infographic card: a big number, a mini chart or a list,
+// depending on the item's kind. Plain insight cards render nothing here.
+const InfographicItemDetails: React.FC<InfographicItemDetailsProps> = ({ item, colors, isDarkMode = false }) => {
+  const trackColor = isDarkMode ? '#334155' : '#e5e7eb';
+  const mutedText = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+  const accent = { color: colors.primary };
+
+  switch (itemKind(item)) {
+    case 'stat':
+      if (item.value === undefined) return null;
+      return (
+        <div className="flex flex-col gap-2">
+          <span className="text-4xl font-extrabold tracking-tight" style={accent}>{formatStat(item.value, item.unit)}</span>
+          {isPercentStat(item) && (
+            <svg viewBox={`0 0 ${CHART_WIDTH} 10`} className="w-full h-2.5" preserveAspectRatio="none" aria-hidden="true">
+              <rect width={CHART_WIDTH} height={10} rx={5} fill={trackColor} />
+              <rect width={progressWidth(item.value, CHART_WIDTH)} height={10} rx={5} fill={colors.primary} />
+            </svg>
+          )}
+        </div>
+      );
+
+    case 'breakdown':
+      if (!item.segments) return null;
+      return (
+        <div className="flex items-center gap-4">
+          <svg width={DONUT_SIZE} height={DONUT_SIZE} viewBox={`${-DONUT_SIZE / 2} ${-DONUT_SIZE / 2} ${DONUT_SIZE} ${DONUT_SIZE}`} className="shrink-0" aria-hidden="true">
+            {donutSlices(item.segments, colors.series, trackColor).map((slice, i) => (
+              <path key={i} d={slice.path} fill={slice.color}>
+                {slice.segment && <title>{`${slice.segment.label}: ${formatNumber(slice.segment.value)}%`}</title>}
+              </path>
+            ))}
+          </svg>
+          <ul className="flex flex-col gap-1 text-xs min-w-0">
+            {item.segments.map((segment, i) => (
+              <li key={i} className="flex items-center gap-1.5">
+                <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: seriesColor(colors.series, i) }} />
+                <span className="truncate" title={segment.label}>{segment.label}</span>
+                <span className={`ml-auto pl-1 font-semibold ${mutedText}`}>{formatNumber(segment.value)}%</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      );
+
+    case 'ranking':
+      if (!item.entries) return null;
+      if (!hasRankingValues(item.entries)) {
+        return (
+          <ol className="flex flex-col gap-1 text-sm">
+            {item.entries.map((entry, i) => (
+              <li key={i} className="flex items-baseline gap-2">
+                <span className="font-bold w-5 shrink-0" style={accent}>{i + 1}.</span>
+                <span>{entry.label}</span>
+              </li>
+            ))}
+          </ol>
+        );
+      }
+      return (
+        <ol className="flex flex-col gap-2 text-xs">
+          {rankingBars(item.entries, CHART_WIDTH).map(({ entry, width }, i) => (
+            <li key={i} className="flex flex-col gap-0.5">
+              <div className="flex justify-between gap-2">
+                <span className="truncate" title={entry.label}>{i + 1}. {entry.label}</span>
+                <span className={`font-semibold ${mutedText}`}>{formatNumber(entry.value!)}</span>
+              </div>
+              <svg viewBox={`0 0 ${CHART_WIDTH} 8`} className="w-full h-2" preserveAspectRatio="none" aria-hidden="true">
+                <rect width={CHART_WIDTH} height={8} rx={4} fill={trackColor} />
+                <rect width={width} height={8} rx={4} fill={seriesColor(colors.series, i)} />
+              </svg>
+            </li>
+          ))}
+        </ol>
+      );
+
+    case 'timeline':
+      if (!item.events) return null;
+      return (
+        <ol className="flex flex-col gap-2 border-l-2 pl-4 ml-1 text-sm" style={{ borderColor: withOpacity(colors.primary, 0.35) }}>
+          {item.events.map((event, i) => (
+            <li key={i} className="relative">
+              <span className="absolute -left-[1.4rem] top-1.5 w-2.5 h-2.5 rounded-full" style={{ backgroundColor: colors.primary }} />
+              <span className="block text-xs font-bold" style={accent}>{event.date}</span>
+              <span>{event.label}</span>
+            </li>
+          ))}
+        </ol>
+      );
+
+    case 'comparison':
+      if (!item.pros || !item.cons) return null;
+      return (
+        <div className="grid grid-cols-2 gap-3 text-sm">
+          <div className="flex flex-col gap-1">
+            <span className={`text-xs font-bold uppercase ${isDarkMode ? 'text-emerald-300' : 'text-emerald-600'}`}>{t('infographic.pros')}</span>
+            {item.pros.map((pro, i) => (
+              <span key={i} className="flex items-start gap-1">
+                <PlusIcon className="w-3.5 h-3.5 mt-0.5 shrink-0 text-emerald-500" /> {pro}
+              </span>
+            ))}
+          </div>
+          <div className="flex flex-col gap-1">
+            <span className={`text-xs font-bold uppercase ${isDarkMode ? 'text-rose-300' : 'text-rose-600'}`}>{t('infographic.cons')}</span>
+            {item.cons.map((con, i) => (
+              <span key={i} className="flex items-start gap-1">
+                <MinusIcon className="w-3.5 h-3.5 mt-0.5 shrink-0 text-rose-500" /> {con}
+              </span>
+            ))}
+          </div>
+        </div>
+      );
+
+    default:
+      return null;
+  }
+};
+
+export default InfographicItemDetails;
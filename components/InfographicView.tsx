@@ -1,84 +1,164 @@
 import React from 'react';
-import { InfographicItem } from '../types';
-import { 
-  ChartBarIcon, 
-  LightBulbIcon, 
-  UserGroupIcon, 
-  GlobeAltIcon, 
-  ClockIcon, 
-  ShieldCheckIcon,
-  TrophyIcon,
-  SparklesIcon
-} from '@heroicons/react/24/outline';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { InfographicItem, VisualTheme } from '../types';
+import { getInfographicIcon } from './infographicIcons';
+import InfographicItemDetails from './InfographicItemDetails';
+import { isUnsupported } from '../services/grounding';
+import { InfographicLayout, splitColumns } from '../services/infographicLayout';
+import { DEFAULT_THEME, hasBrandHeader, resolveThemeColors, themeFont, withOpacity } from '../services/theme';
+import { t } from '../i18n';
 
 interface InfographicViewProps {
   data: InfographicItem[];
   isDarkMode?: boolean;
+  theme?: VisualTheme;
+  layout?: InfographicLayout;
   showDescription?: boolean;
+  onItemClick?: (index: number) => void; // Shows where the card's idea came from
 }
 
-const IconMap: Record<string, React.ElementType> = {
-  chart: ChartBarIcon,
-  bulb: LightBulbIcon,
-  users: UserGroupIcon,
-  globe: GlobeAltIcon,
-  time: ClockIcon,
-  shield: ShieldCheckIcon,
-  target: TrophyIcon,
-  default: SparklesIcon
-};
-
-const InfographicView: React.FC<InfographicViewProps> = ({ 
-    data, 
+const InfographicView: React.FC<InfographicViewProps> = ({
+    data,
     isDarkMode = false,
-    showDescription = true 
+    theme = DEFAULT_THEME,
+    layout = 'grid',
+    showDescription = true,
+    onItemClick
 }) => {
-  
-  const cardClasses = isDarkMode 
-    ? "bg-slate-700/60 border-slate-600 hover:shadow-blue-900/20 text-white" 
+  const colors = resolveThemeColors(theme, isDarkMode);
+
+  const cardClasses = isDarkMode
+    ? "bg-slate-700/60 border-slate-600 hover:shadow-blue-900/20 text-white"
     : "glass-card border-white/60 text-gray-800";
-    
-  const iconBg = isDarkMode
-    ? "bg-indigo-900/50 text-indigo-400"
-    : "bg-gradient-to-br from-indigo-100 to-white text-indigo-600";
+
+  const iconStyle = {
+    color: colors.primary,
+    background: isDarkMode
+      ? withOpacity(colors.primary, 0.25)
+      : `linear-gradient(to bottom right, ${withOpacity(colors.primary, 0.15)}, #ffffff)`,
+  };
 
   const descColor = isDarkMode ? "text-gray-300" : "text-gray-600";
 
-  return (
-    <div className="w-full h-full p-8 overflow-y-auto no-scrollbar">
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 h-full content-center">
-        {data.map((item, index) => {
-          const Icon = IconMap[item.icon] || IconMap.default;
-          return (
-            <div 
-              key={index} 
-              className={`p-6 rounded-2xl border hover:shadow-xl transition-all duration-300 transform hover:-translate-y-1 group relative overflow-hidden ${cardClasses}`}
-            >
-              <div className="absolute top-0 right-0 p-4 opacity-10 group-hover:opacity-20 transition-opacity pointer-events-none">
-                <Icon className={`w-24 h-24 ${isDarkMode ? 'text-white' : 'text-indigo-600'}`} />
-              </div>
-              
-              <div className="flex flex-col gap-3 relative z-10">
-                <div className={`w-12 h-12 rounded-xl flex items-center justify-center shadow-sm ${iconBg}`}>
-                  <Icon className="w-6 h-6" />
-                </div>
-                
-                <h3 className="text-lg font-bold leading-tight">
-                  {item.title}
-                </h3>
-                
-                {showDescription && (
-                    <p className={`text-sm leading-relaxed ${descColor}`}>
-                    {item.description}
-                    </p>
+  const renderCard = (index: number, isHero: boolean = false) => {
+    const item = data[index];
+    const Icon = getInfographicIcon(item.icon);
+    return (
+      <div
+        key={index}
+        onClick={onItemClick && (() => onItemClick(index))}
+        className={`${isHero ? 'p-8' : 'p-6'} rounded-2xl border hover:shadow-xl transition-all duration-300 transform hover:-translate-y-1 group relative overflow-hidden ${onItemClick ? 'cursor-pointer' : ''} ${cardClasses}`}
+      >
+        <div className="absolute top-0 right-0 p-4 opacity-10 group-hover:opacity-20 transition-opacity pointer-events-none">
+          <Icon className={isHero ? 'w-32 h-32' : 'w-24 h-24'} style={{ color: isDarkMode ? '#ffffff' : colors.primary }} />
+        </div>
+
+        <div className="flex flex-col gap-3 relative z-10">
+          <div className="w-12 h-12 rounded-xl flex items-center justify-center shadow-sm" style={iconStyle}>
+            <Icon className="w-6 h-6" />
+          </div>
+
+          <h3 className={`${isHero ? 'text-2xl' : 'text-lg'} font-bold leading-tight`}>
+            {item.title}
+          </h3>
+
+          {showDescription && (
+              <p className={`text-sm leading-relaxed ${descColor}`}>
+              {item.description}
+              </p>
+          )}
+
+          <InfographicItemDetails item={item} colors={colors} isDarkMode={isDarkMode} />
+
+          {isUnsupported(item) && (
+              <span
+                className={`self-start flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium ${isDarkMode ? 'bg-amber-900/40 text-amber-300' : 'bg-amber-100 text-amber-700'}`}
+                title={t('grounding.unsupported')}
+              >
+                <ExclamationTriangleIcon className="w-3.5 h-3.5" /> {t('grounding.badge')}
+              </span>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const indexes = data.map((_, i) => i);
+
+  const renderLayout = () => {
+    switch (layout) {
+      case 'poster':
+        return <div className="max-w-2xl mx-auto flex flex-col gap-6">{indexes.map(i => renderCard(i))}</div>;
+
+      case 'heroCards':
+        return (
+          <div className="flex flex-col gap-6">
+            {data.length > 0 && renderCard(0, true)}
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">{indexes.slice(1).map(i => renderCard(i))}</div>
+          </div>
+        );
+
+      case 'steps':
+        return (
+          <ol className="max-w-3xl mx-auto flex flex-col gap-6">
+            {indexes.map(i => (
+              <li key={i} className="relative flex gap-6">
+                {/* Connector to the next step */}
+                {i < data.length - 1 && (
+                  <span className="absolute left-6 top-12 -bottom-6 w-0.5 -translate-x-1/2" style={{ backgroundColor: withOpacity(colors.primary, 0.35) }} />
                 )}
-              </div>
+                <span
+                  className="relative w-12 h-12 mt-6 shrink-0 rounded-full flex items-center justify-center text-lg font-extrabold text-white shadow-md"
+                  style={{ backgroundColor: colors.primary }}
+                >
+                  {i + 1}
+                </span>
+                <div className="flex-1 min-w-0">{renderCard(i)}</div>
+              </li>
+            ))}
+          </ol>
+        );
+
+      case 'comparison': {
+        const [left, right] = splitColumns(data);
+        return (
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_1fr] gap-6">
+            <div className="flex flex-col gap-6">{left.map(i => renderCard(i))}</div>
+            <div className="hidden md:flex flex-col items-center">
+              <span className="flex-1 w-0.5" style={{ backgroundColor: withOpacity(colors.primary, 0.35) }} />
+              <span
+                className="w-12 h-12 my-3 rounded-full flex items-center justify-center text-sm font-extrabold text-white shadow-md"
+                style={{ backgroundColor: colors.primary }}
+              >
+                VS
+              </span>
+              <span className="flex-1 w-0.5" style={{ backgroundColor: withOpacity(colors.primary, 0.35) }} />
             </div>
-          );
-        })}
-      </div>
+            <div className="flex flex-col gap-6">{right.map(i => renderCard(i))}</div>
+          </div>
+        );
+      }
+
+      default:
+        return (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 h-full content-center">
+            {indexes.map(i => renderCard(i))}
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="w-full h-full p-8 overflow-y-auto no-scrollbar" style={{ fontFamily: themeFont(theme) }}>
+      {hasBrandHeader(theme) && (
+        <header className={`flex items-center gap-4 mb-6 ${theme.logo ? 'justify-between' : ''}`}>
+          {theme.logo && <img src={theme.logo} alt={theme.brandName || ''} className="h-10 w-auto max-w-[10rem] object-contain" />}
+          {theme.brandName && <span className="text-xl font-bold" style={{ color: colors.primary }}>{theme.brandName}</span>}
+        </header>
+      )}
+      {renderLayout()}
     </div>
   );
 };
 
-export default InfographicView;
\ No newline at end of file
+export default InfographicView;
@@ -1,149 +1,784 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { forwardRef, useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import { GraphData, NodeData, LinkData } from '../types';
+import {
+  PlusIcon,
+  PencilIcon,
+  TrashIcon,
+  SparklesIcon,
+  ChatBubbleBottomCenterTextIcon,
+  MagnifyingGlassPlusIcon,
+  MagnifyingGlassMinusIcon,
+  ViewfinderCircleIcon,
+  MapPinIcon
+} from '@heroicons/react/24/outline';
+import { GraphData, NodeData, LinkData, RelationType, SourceSpan, VisualTheme } from '../types';
+import {
+  ROOT_ID,
+  addChildNode,
+  canReparent,
+  deleteSubtree,
+  getDescendantIds,
+  getTreeInfo,
+  renameNode,
+  reparentNode
+} from '../services/graphEditing';
+import { LayoutPositions, MindMapLayout, computeLayout } from '../services/mindMapLayout';
+import { getMindMapPalette, getNodeColor, getNodeRadius } from '../services/mindMapStyle';
+import {
+  ARROW_SIZE,
+  RELATION_STYLES,
+  arrowMarkerId,
+  edgeGeometry,
+  relationLabel,
+  relationTypesIn,
+  relationWidth
+} from '../services/conceptMap';
+import { isMultiDocumentMap, nodeSource, sourceColor, sourceCounts, sourceLabel } from '../services/multiDocument';
+import { DEFAULT_THEME, hasBrandHeader, resolveThemeColors, themeFont } from '../services/theme';
+import { isUnsupported } from '../services/grounding';
+import { t } from '../i18n';
 
 interface MindMapGraphProps {
   data: GraphData;
   width?: number;
   height?: number;
   isDarkMode?: boolean;
+  theme?: VisualTheme;
   showLabels?: boolean;
+  layout?: MindMapLayout;
+  onChange?: (data: GraphData) => void; // Enables editing; without it the map is read-only
+  onExpandNode?: (nodeId: string) => void; // AI drill-down on one node
+  onExplainNode?: (nodeId: string) => void;
+  onShowSource?: (nodeId: string) => void; // Called when a node is clicked, to show where the idea came from
+  busyNodeId?: string | null; // Node with an AI request in flight
+}
+
+// Lets the parent read where nodes currently are, e.g. to export the picture
+export interface MindMapGraphHandle {
+  getPositions: () => LayoutPositions;
 }
 
 interface SimulationNode extends d3.SimulationNodeDatum {
   id: string;
   label: string;
   group?: number;
+  sources?: SourceSpan[];
+  documents?: string[];
   x?: number;
   y?: number;
+  fx?: number | null; // Pinned position, set by dragging a node
+  fy?: number | null;
 }
 
-interface SimulationLink extends d3.SimulationLinkDatum<SimulationNode> {
+type NodePosition = Pick<SimulationNode, 'x' | 'y' | 'fx' | 'fy'>;
+
+interface SimulationLink extends d3.SimulationLinkDatum<SimulationNode>, Omit<LinkData, 'source' | 'target'> {
   source: string | SimulationNode;
   target: string | SimulationNode;
 }
 
-const MindMapGraph: React.FC<MindMapGraphProps> = ({ 
-  data, 
-  width = 800, 
+interface DragState {
+  id: string;
+  startX: number;
+  startY: number;
+  moved: boolean;
+}
+
+// Pointer movement (in SVG units) before a press counts as a drag instead of a click
+const DRAG_THRESHOLD = 4;
+
+const MIN_ZOOM = 0.2;
+const MAX_ZOOM = 4;
+// Empty space kept around the map by "fit to view", in SVG units
+const FIT_PADDING = 40;
+
+const MindMapGraph = forwardRef<MindMapGraphHandle, MindMapGraphProps>(({
+  data,
+  width = 800,
   height = 500,
   isDarkMode = false,
-  showLabels = true
-}) => {
+  theme = DEFAULT_THEME,
+  showLabels = true,
+  layout = 'force',
+  onChange,
+  onExpandNode,
+  onExplainNode,
+  onShowSource,
+  busyNodeId = null
+}: MindMapGraphProps, ref) => {
   const svgRef = useRef<SVGSVGElement>(null);
+  const graphRef = useRef<SVGGElement>(null);
+  const simulationRef = useRef<d3.Simulation<SimulationNode, SimulationLink> | null>(null);
+  const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
+  const positionsRef = useRef<Map<string, NodePosition>>(new Map());
+  const dragRef = useRef<DragState | null>(null);
+  const layoutPositionsRef = useRef<LayoutPositions | null>(null);
+
   const [nodes, setNodes] = useState<SimulationNode[]>([]);
   const [links, setLinks] = useState<SimulationLink[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftLabel, setDraftLabel] = useState('');
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+  // Concept map relation types switched off in the legend
+  const [hiddenRelations, setHiddenRelations] = useState<Set<RelationType>>(new Set());
+
+  const isEditable = Boolean(onChange);
+
+  const tree = useMemo(() => getTreeInfo(data), [data]);
+
+  // Nodes below a collapsed branch are left out of the simulation entirely
+  const hiddenIds = useMemo(() => {
+    const hidden = new Set<string>();
+    collapsedIds.forEach(id => {
+      if (!tree.children.has(id)) return;
+      getDescendantIds(data, id, tree).forEach(d => { if (d !== id) hidden.add(d); });
+    });
+    return hidden;
+  }, [data, tree, collapsedIds]);
 
   useEffect(() => {
     if (!data || data.nodes.length === 0) return;
 
-    // Deep copy data to avoid mutation issues in strict mode
-    const initialNodes: SimulationNode[] = data.nodes.map(n => ({ ...n }));
-    const initialLinks: SimulationLink[] = data.links.map(l => ({ ...l }));
+    // Deep copy data to avoid mutation issues in strict mode.
+    // Nodes that survive an edit keep their previous (and pinned) position.
+    const initialNodes: SimulationNode[] = data.nodes
+      .filter(n => !hiddenIds.has(n.id))
+      .map(n => ({ ...n, ...positionsRef.current.get(n.id) }));
+    // forceLink throws on ids it cannot resolve, so skip links to unknown nodes
+    const nodeIds = new Set(initialNodes.map(n => n.id));
+    const initialLinks: SimulationLink[] = data.links
+      .filter(l => nodeIds.has(l.source) && nodeIds.has(l.target))
+      .map(l => ({ ...l }));
+
+    // Cross-links are drawn but do not pull on the layout, which follows the tree
+    const byId = new Map(initialNodes.map(n => [n.id, n]));
+    const resolve = (l: SimulationLink): SimulationLink =>
+      ({ ...l, source: byId.get(l.source as string)!, target: byId.get(l.target as string)! });
+    const treeLinks = initialLinks.filter(l => !l.crossLink);
+    const crossLinks = initialLinks.filter(l => l.crossLink).map(resolve);
+
+    // Hierarchical layouts place every node directly, without a simulation
+    const fixedPositions = computeLayout(data, layout, width, height, hiddenIds);
+    layoutPositionsRef.current = fixedPositions;
+    if (fixedPositions) {
+      initialNodes.forEach(n => {
+        Object.assign(n, fixedPositions.get(n.id) || { x: width / 2, y: height / 2 }, { fx: null, fy: null });
+        positionsRef.current.set(n.id, { x: n.x, y: n.y });
+      });
+      setNodes(initialNodes);
+      setLinks([...treeLinks.map(resolve), ...crossLinks]);
+      return;
+    }
 
     setNodes(initialNodes);
-    setLinks(initialLinks);
+    setLinks([...treeLinks, ...crossLinks]);
 
     const simulation = d3.forceSimulation(initialNodes)
-      .force("link", d3.forceLink(initialLinks).id((d: any) => d.id).distance(120))
+      .force("link", d3.forceLink<SimulationNode, SimulationLink>(treeLinks).id(d => d.id).distance(120))
       .force("charge", d3.forceManyBody().strength(-400))
       .force("center", d3.forceCenter(width / 2, height / 2))
       .force("collide", d3.forceCollide(60)); // Prevent overlap
 
+    // A re-run after an edit only needs to settle the changed part
+    if (positionsRef.current.size > 0) simulation.alpha(0.3);
+    simulationRef.current = simulation;
+
     simulation.on("tick", () => {
+      initialNodes.forEach(n => positionsRef.current.set(n.id, { x: n.x, y: n.y, fx: n.fx, fy: n.fy }));
       // Trigger re-render on each tick by updating state shallowly
       setNodes([...initialNodes]);
-      setLinks([...initialLinks]);
+      setLinks([...treeLinks, ...crossLinks]);
     });
 
     return () => {
       simulation.stop();
+      simulationRef.current = null;
     };
-  }, [data, width, height]);
+  }, [data, hiddenIds, layout, width, height]);
 
-  // Color scale
-  const getColor = (group: number = 2) => {
-    if (group === 1) return isDarkMode ? "#818cf8" : "#6366f1"; // Root - Indigo
-    if (group === 2) return isDarkMode ? "#f472b6" : "#ec4899"; // Branch - Pink
-    return isDarkMode ? "#60a5fa" : "#3b82f6"; // Leaf - Blue
+  // Wheel/pinch zoom and background panning. Presses on nodes are left to
+  // the node drag handlers below.
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const svg = d3.select(svgRef.current);
+    const zoom = d3.zoom<SVGSVGElement, unknown>()
+      .scaleExtent([MIN_ZOOM, MAX_ZOOM])
+      .filter((event: MouseEvent) => !(event.target as Element).closest('[data-node-id]') && !event.button)
+      .on('zoom', (event: d3.D3ZoomEvent<SVGSVGElement, unknown>) => {
+        d3.select(graphRef.current).attr('transform', event.transform.toString());
+      });
+
+    svg.call(zoom).on('dblclick.zoom', null);
+    zoomRef.current = zoom;
+
+    return () => {
+      svg.on('.zoom', null);
+      zoomRef.current = null;
+    };
+  }, []);
+
+  const zoomBy = (factor: number) => {
+    if (!svgRef.current || !zoomRef.current) return;
+    d3.select(svgRef.current).transition().duration(250).call(zoomRef.current.scaleBy, factor);
+  };
+
+  const fitToView = () => {
+    if (!svgRef.current || !zoomRef.current) return;
+    const placed = nodes.filter(n => n.x !== undefined && n.y !== undefined);
+    if (placed.length === 0) return;
+
+    const minX = Math.min(...placed.map(n => n.x! - getRadius(n.group)));
+    const maxX = Math.max(...placed.map(n => n.x! + getRadius(n.group)));
+    const minY = Math.min(...placed.map(n => n.y! - getRadius(n.group)));
+    const maxY = Math.max(...placed.map(n => n.y! + getRadius(n.group)));
+
+    const scale = Math.min(
+      MAX_ZOOM,
+      (width - FIT_PADDING * 2) / Math.max(maxX - minX, 1),
+      (height - FIT_PADDING * 2) / Math.max(maxY - minY, 1)
+    );
+    const transform = d3.zoomIdentity
+      .translate(width / 2, height / 2)
+      .scale(Math.max(MIN_ZOOM, scale))
+      .translate(-(minX + maxX) / 2, -(minY + maxY) / 2);
+
+    d3.select(svgRef.current).transition().duration(400).call(zoomRef.current.transform, transform);
+  };
+
+  const toggleCollapsed = (nodeId: string) => {
+    setCollapsedIds(previous => {
+      const next = new Set(previous);
+      if (next.has(nodeId)) next.delete(nodeId);
+      else next.add(nodeId);
+      return next;
+    });
+  };
+
+  const unpinNodes = (ids: string[]) => {
+    ids.forEach(id => {
+      const node = nodes.find(n => n.id === id);
+      if (node) {
+        node.fx = null;
+        node.fy = null;
+      }
+      const stored = positionsRef.current.get(id);
+      if (stored) positionsRef.current.set(id, { ...stored, fx: null, fy: null });
+    });
+    simulationRef.current?.alpha(0.3).restart();
+  };
+
+  const pinnedIds = nodes.filter(n => n.fx != null && n.fy != null).map(n => n.id);
+
+  const toggleRelation = (type: RelationType) => {
+    setHiddenRelations(previous => {
+      const next = new Set(previous);
+      if (next.has(type)) next.delete(type);
+      else next.add(type);
+      return next;
+    });
+  };
+
+  const relationTypes = useMemo(() => relationTypesIn(data.links), [data]);
+  const sources = useMemo(() => (isMultiDocumentMap(data) ? sourceCounts(data) : []), [data]);
+
+  // Forget selection when the selected node disappears (e.g. after a delete)
+  useEffect(() => {
+    if (selectedId && !data.nodes.some(n => n.id === selectedId)) setSelectedId(null);
+  }, [data, selectedId]);
+
+  // --------------------------------------------------------------------------
+  // Editing
+  // --------------------------------------------------------------------------
+
+  const startRename = (node: SimulationNode) => {
+    if (!isEditable) return;
+    setSelectedId(node.id);
+    setEditingId(node.id);
+    setDraftLabel(node.label);
+  };
+
+  const commitRename = () => {
+    if (editingId && onChange) {
+      const next = renameNode(data, editingId, draftLabel);
+      if (next !== data) onChange(next);
+    }
+    setEditingId(null);
+  };
+
+  const handleAddChild = () => {
+    if (!selectedId || !onChange) return;
+    const parent = positionsRef.current.get(selectedId);
+    const { data: next, node } = addChildNode(data, selectedId, t('mindmap.newIdea'));
+    // Start the new node next to its parent instead of at the center
+    if (parent?.x !== undefined && parent?.y !== undefined) {
+      positionsRef.current.set(node.id, { x: parent.x + 40, y: parent.y + 40 });
+    }
+    onChange(next);
+    setSelectedId(node.id);
+    setEditingId(node.id);
+    setDraftLabel(node.label);
   };
 
-  const getRadius = (group: number = 2) => {
-    if (group === 1) return 50;
-    if (group === 2) return 35;
-    return 25;
+  const handleDelete = () => {
+    if (!selectedId || selectedId === ROOT_ID || !onChange) return;
+    onChange(deleteSubtree(data, selectedId));
+    setSelectedId(null);
   };
 
-  const textColor = isDarkMode ? "#e2e8f0" : "#1e293b";
-  const linkColor = isDarkMode ? "rgba(255,255,255,0.3)" : "rgba(0,0,0,0.2)";
+  // Converts a pointer position to graph coordinates
+  const toGraphPoint = (event: React.PointerEvent) => {
+    const svg = svgRef.current;
+    const matrix = graphRef.current?.getScreenCTM();
+    if (!svg || !matrix) return null;
+    const point = svg.createSVGPoint();
+    point.x = event.clientX;
+    point.y = event.clientY;
+    return point.matrixTransform(matrix.inverse());
+  };
+
+  const findDropTarget = (draggedId: string, x: number, y: number) => {
+    const target = nodes.find(n =>
+      n.id !== draggedId &&
+      n.x !== undefined && n.y !== undefined &&
+      Math.hypot(n.x - x, n.y - y) < getRadius(n.group)
+    );
+    return target && canReparent(data, draggedId, target.id) ? target.id : null;
+  };
+
+  const handlePointerDown = (event: React.PointerEvent, node: SimulationNode) => {
+    if (editingId) return;
+    const point = toGraphPoint(event);
+    if (!point) return;
+    (event.currentTarget as Element).setPointerCapture(event.pointerId);
+    dragRef.current = { id: node.id, startX: point.x, startY: point.y, moved: false };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const point = drag && toGraphPoint(event);
+    if (!drag || !point) return;
+
+    if (!drag.moved && Math.hypot(point.x - drag.startX, point.y - drag.startY) < DRAG_THRESHOLD) return;
+    if (!drag.moved) {
+      drag.moved = true;
+      simulationRef.current?.alphaTarget(0.3).restart();
+    }
+
+    const node = nodes.find(n => n.id === drag.id);
+    if (node && layoutPositionsRef.current) {
+      // No simulation to apply fx/fy: move the node and re-render directly
+      node.x = point.x;
+      node.y = point.y;
+      setNodes([...nodes]);
+    } else if (node) {
+      node.fx = point.x;
+      node.fy = point.y;
+    }
+    if (isEditable) setDropTargetId(findDropTarget(drag.id, point.x, point.y));
+  };
+
+  const handlePointerUp = (event: React.PointerEvent) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag) return;
+
+    if (!drag.moved) {
+      if (isEditable) setSelectedId(drag.id);
+      onShowSource?.(drag.id);
+      return;
+    }
+
+    simulationRef.current?.alphaTarget(0);
+    const point = toGraphPoint(event);
+    const targetId = isEditable && point ? findDropTarget(drag.id, point.x, point.y) : null;
+    setDropTargetId(null);
+
+    // Dropped on another node: re-parent and let the layout place it.
+    // Dropped anywhere else: the node stays pinned where it was released,
+    // or snaps back to its slot in a hierarchical layout.
+    if (targetId && onChange) {
+      unpinNodes([drag.id]);
+      onChange(reparentNode(data, drag.id, targetId));
+    } else if (layoutPositionsRef.current) {
+      const slot = layoutPositionsRef.current.get(drag.id);
+      const node = nodes.find(n => n.id === drag.id);
+      if (slot && node) {
+        Object.assign(node, slot);
+        setNodes([...nodes]);
+      }
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (editingId || !selectedId) return;
+    if (event.key === 'Delete' || event.key === 'Backspace') handleDelete();
+    if (event.key === 'Enter' || event.key === 'F2') {
+      const node = nodes.find(n => n.id === selectedId);
+      if (node) startRename(node);
+    }
+    if (event.key === 'Tab') {
+      event.preventDefault();
+      handleAddChild();
+    }
+  };
+
+  useImperativeHandle(ref, () => ({
+    getPositions: () => {
+      const positions: LayoutPositions = new Map();
+      nodes.forEach(n => {
+        if (n.x !== undefined && n.y !== undefined) positions.set(n.id, { x: n.x, y: n.y });
+      });
+      return positions;
+    },
+  }), [nodes]);
+
+  // Color scale
+  const themeColors = resolveThemeColors(theme, isDarkMode);
+  const getColor = (group: number = 2) => getNodeColor(group, themeColors);
+  const getRadius = getNodeRadius;
+  // Multi-document maps color ideas by the documents they come from
+  const documents = data.documents || [];
+  const getNodeStroke = (node: SimulationNode) => {
+    const source = nodeSource(node, documents);
+    return source ? sourceColor(source, documents) : getColor(node.group);
+  };
+
+  const palette = getMindMapPalette(isDarkMode);
+  const textColor = palette.text;
+  const linkColor = palette.link;
+  const selectionColor = palette.selection;
+
+  const legendClasses = `flex flex-col gap-0.5 rounded-xl p-2 shadow-lg border text-xs ${isDarkMode ? 'bg-slate-700 border-slate-600 text-gray-200' : 'glass-panel text-gray-700'}`;
+  const toolbarButton = `p-2 rounded-lg transition-colors ${isDarkMode ? 'text-gray-200 hover:bg-slate-600' : 'text-gray-700 hover:bg-white'}`;
 
   return (
-    <svg ref={svgRef} width="100%" height="100%" viewBox={`0 0 ${width} ${height}`} className="w-full h-full">
+    <div className="relative w-full h-full" tabIndex={isEditable ? 0 : undefined} onKeyDown={isEditable ? handleKeyDown : undefined}>
+    <svg
+      ref={svgRef}
+      width="100%"
+      height="100%"
+      viewBox={`0 0 ${width} ${height}`}
+      className="w-full h-full"
+      style={{ touchAction: 'none' }}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onClick={(e) => { if (e.target === svgRef.current) setSelectedId(null); }}
+    >
         <defs>
             <filter id="glow" x="-20%" y="-20%" width="140%" height="140%">
                 <feGaussianBlur stdDeviation="3" result="blur" />
                 <feComposite in="SourceGraphic" in2="blur" operator="over" />
             </filter>
+            {relationTypes.map(type => (
+                <marker
+                  key={type}
+                  id={arrowMarkerId(type)}
+                  viewBox="0 0 10 10"
+                  refX={10}
+                  refY={5}
+                  markerWidth={ARROW_SIZE}
+                  markerHeight={ARROW_SIZE}
+                  markerUnits="userSpaceOnUse"
+                  orient="auto"
+                >
+                    <path d="M0,0L10,5L0,10z" fill={RELATION_STYLES[type].color} />
+                </marker>
+            ))}
         </defs>
+      <g ref={graphRef}>
       <g>
         {links.map((link, i) => {
           const source = link.source as SimulationNode;
           const target = link.target as SimulationNode;
           if (typeof source === 'string' || typeof target === 'string') return null;
-          
+
           if (source.x === undefined || source.y === undefined || target.x === undefined || target.y === undefined) {
             return null;
           }
-          
+
+          if (!link.type) {
+            return (
+              <line
+                key={i}
+                x1={source.x}
+                y1={source.y}
+                x2={target.x}
+                y2={target.y}
+                stroke={linkColor}
+                strokeWidth={2}
+              />
+            );
+          }
+
+          // Concept map relation: directed, styled by type, labeled halfway
+          if (hiddenRelations.has(link.type)) return null;
+          const edge = edgeGeometry(
+            { x: source.x, y: source.y },
+            { x: target.x, y: target.y },
+            getRadius(source.group) + 2,
+            getRadius(target.group) + 2,
+            link.crossLink
+          );
+          if (!edge) return null;
+          const style = RELATION_STYLES[link.type];
           return (
-            <line
-              key={i}
-              x1={source.x}
-              y1={source.y}
-              x2={target.x}
-              y2={target.y}
-              stroke={linkColor}
-              strokeWidth={2}
-            />
+            <g key={i}>
+              <title>{`${source.label} — ${link.label || relationLabel(link.type)} → ${target.label}`}</title>
+              <path
+                d={edge.path}
+                fill="none"
+                stroke={style.color}
+                strokeWidth={relationWidth(link)}
+                strokeDasharray={style.dash}
+                strokeOpacity={0.85}
+                markerEnd={`url(#${arrowMarkerId(link.type)})`}
+              />
+              {showLabels && link.label && (
+                <text
+                  x={edge.label.x}
+                  y={edge.label.y}
+                  textAnchor="middle"
+                  dominantBaseline="central"
+                  fontSize={10}
+                  fontWeight={600}
+                  fill={style.color}
+                  stroke={palette.background}
+                  strokeWidth={3}
+                  paintOrder="stroke"
+                  className="select-none pointer-events-none"
+                  style={{ fontFamily: themeFont(theme) }}
+                >
+                  {link.label}
+                </text>
+              )}
+            </g>
           );
         })}
       </g>
       <g>
-        {nodes.map((node, i) => (
-          <g key={node.id} transform={`translate(${node.x || width/2}, ${node.y || height/2})`}>
+        {nodes.map((node) => (
+          <g
+            key={node.id}
+            transform={`translate(${node.x || width/2}, ${node.y || height/2})`}
+            data-node-id={node.id}
+            onPointerDown={(e) => handlePointerDown(e, node)}
+            onDoubleClick={() => startRename(node)}
+          >
              {/* Halo effect for Root */}
             {node.group === 1 && (
-                 <circle r={getRadius(node.group) + 10} fill={getColor(node.group)} opacity={0.2} filter="url(#glow)">
+                 <circle r={getRadius(node.group) + 10} fill={getNodeStroke(node)} opacity={0.2} filter="url(#glow)">
                     <animate attributeName="r" values="60;70;60" dur="3s" repeatCount="indefinite" />
                  </circle>
             )}
-            
+
+            {/* Spinning ring while the AI works on this node */}
+            {node.id === busyNodeId && (
+                <circle r={getRadius(node.group) + 10} fill="none" stroke={getNodeStroke(node)} strokeWidth={2} strokeDasharray="6 6">
+                    <animateTransform attributeName="transform" type="rotate" from="0" to="360" dur="2s" repeatCount="indefinite" />
+                </circle>
+            )}
+
+            {/* Selection / drop target ring */}
+            {(node.id === selectedId || node.id === dropTargetId) && (
+                <circle
+                  r={getRadius(node.group) + 6}
+                  fill="none"
+                  stroke={selectionColor}
+                  strokeWidth={2}
+                  strokeDasharray={node.id === dropTargetId ? "4 3" : undefined}
+                />
+            )}
+
             <circle
               r={getRadius(node.group)}
-              fill={isDarkMode ? "rgba(30, 41, 59, 0.9)" : "rgba(255,255,255,0.9)"}
-              stroke={getColor(node.group)}
+              fill={palette.nodeFill}
+              stroke={getNodeStroke(node)}
               strokeWidth={3}
               className="cursor-pointer transition-all duration-300"
               style={{ filter: "drop-shadow(0px 4px 6px rgba(0,0,0,0.1))" }}
             />
-            
-            {showLabels && (
+
+            {node.id === editingId ? (
+                <foreignObject x={-getRadius(node.group) - 30} y={-14} width={getRadius(node.group) * 2 + 60} height={28}>
+                    <input
+                        autoFocus
+                        value={draftLabel}
+                        onChange={(e) => setDraftLabel(e.target.value)}
+                        onBlur={commitRename}
+                        onKeyDown={(e) => {
+                          e.stopPropagation();
+                          if (e.key === 'Enter') commitRename();
+                          if (e.key === 'Escape') setEditingId(null);
+                        }}
+                        onFocus={(e) => e.target.select()}
+                        className={`w-full h-full rounded-md px-2 text-xs font-semibold text-center shadow-md outline-none ring-2 ring-amber-400 ${isDarkMode ? 'bg-slate-800 text-white' : 'bg-white text-gray-800'}`}
+                    />
+                </foreignObject>
+            ) : showLabels && (
                 <foreignObject x={-getRadius(node.group)} y={-getRadius(node.group)} width={getRadius(node.group)*2} height={getRadius(node.group)*2}>
                     <div className="w-full h-full flex items-center justify-center p-1 pointer-events-none">
-                        <p 
+                        <p
                             className="text-center text-xs font-semibold break-words leading-tight select-none"
-                            style={{ color: textColor }}
+                            style={{ color: textColor, fontFamily: themeFont(theme) }}
                         >
                         {node.label}
                         </p>
                     </div>
                 </foreignObject>
             )}
+
+            {/* Pin marker for dragged nodes */}
+            {node.fx != null && node.fy != null && (
+                <circle cx={-getRadius(node.group) * 0.7} cy={-getRadius(node.group) * 0.7} r={4} fill={selectionColor} />
+            )}
+
+            {/* Warning marker for generated ideas without a supporting passage */}
+            {isUnsupported(node) && (
+                <g transform={`translate(${getRadius(node.group) * 0.7}, ${-getRadius(node.group) * 0.7})`}>
+                    <title>{t('grounding.unsupported')}</title>
+                    <circle r={8} fill="#f59e0b" stroke={isDarkMode ? "#1e293b" : "#ffffff"} strokeWidth={2} />
+                    <text textAnchor="middle" dy="0.35em" fontSize={10} fontWeight={700} fill="#ffffff" className="select-none">!</text>
+                </g>
+            )}
+
+            {/* Collapse toggle for main branches */}
+            {node.group === 2 && (tree.children.get(node.id)?.length || 0) > 0 && (
+                <g
+                  transform={`translate(${getRadius(node.group)}, 0)`}
+                  className="cursor-pointer"
+                  onPointerDown={(e) => e.stopPropagation()}
+                  onClick={(e) => { e.stopPropagation(); toggleCollapsed(node.id); }}
+                  onDoubleClick={(e) => e.stopPropagation()}
+                >
+                    <title>{collapsedIds.has(node.id) ? t('mindmap.expandBranch') : t('mindmap.collapseBranch')}</title>
+                    <circle r={9} fill={getNodeStroke(node)} stroke={isDarkMode ? "#1e293b" : "#ffffff"} strokeWidth={2} />
+                    <text textAnchor="middle" dy="0.35em" fontSize={10} fontWeight={700} fill="#ffffff" className="select-none">
+                        {collapsedIds.has(node.id) ? `+${getDescendantIds(data, node.id, tree).size - 1}` : '−'}
+                    </text>
+                </g>
+            )}
           </g>
         ))}
       </g>
+      </g>
     </svg>
+
+    {/* Brand badge */}
+    {hasBrandHeader(theme) && (
+        <div
+          className={`absolute bottom-4 left-4 flex items-center gap-2 rounded-xl px-3 py-2 shadow-lg border z-20 pointer-events-none ${isDarkMode ? 'bg-slate-700 border-slate-600' : 'glass-panel'}`}
+          style={{ fontFamily: themeFont(theme) }}
+        >
+            {theme.logo && <img src={theme.logo} alt="" className="h-6 w-auto max-w-[6rem] object-contain" />}
+            {theme.brandName && <span className="text-sm font-bold" style={{ color: themeColors.primary }}>{theme.brandName}</span>}
+        </div>
+    )}
+
+    {/* Legends: relation types, doubling as a filter, and the sources of a multi-document map */}
+    {(relationTypes.length > 0 || sources.length > 0) && (
+        <div className="absolute top-4 left-4 flex flex-col gap-2 z-20">
+        {relationTypes.length > 0 && (
+            <div className={legendClasses}>
+                <span className="px-1 pb-1 font-semibold opacity-70">{t('conceptMap.legend')}</span>
+                {relationTypes.map(type => (
+                    <button
+                        key={type}
+                        onClick={() => toggleRelation(type)}
+                        className={`flex items-center gap-2 rounded-lg px-1 py-0.5 text-left transition-opacity ${isDarkMode ? 'hover:bg-slate-600' : 'hover:bg-white'} ${hiddenRelations.has(type) ? 'opacity-40' : ''}`}
+                        title={t('conceptMap.filterHint')}
+                    >
+                        <svg width="28" height="8" className="shrink-0">
+                            <line x1="0" y1="4" x2="28" y2="4" stroke={RELATION_STYLES[type].color} strokeWidth={2.5} strokeDasharray={RELATION_STYLES[type].dash} />
+                        </svg>
+                        <span className={hiddenRelations.has(type) ? 'line-through' : ''}>
+                            {relationLabel(type)} ({data.links.filter(l => l.type === type).length})
+                        </span>
+                    </button>
+                ))}
+                {data.links.some(l => l.crossLink) && (
+                    <span className="flex items-center gap-2 px-1 pt-1 opacity-70">
+                        <svg width="28" height="10" className="shrink-0">
+                            <path d="M0,9Q14,-3 28,9" fill="none" stroke="currentColor" strokeWidth={1.5} />
+                        </svg>
+                        {t('conceptMap.crossLink')}
+                    </span>
+                )}
+            </div>
+        )}
+        {sources.length > 0 && (
+            <div className={legendClasses}>
+                <span className="px-1 pb-1 font-semibold opacity-70">{t('compare.legend')}</span>
+                {sources.map(({ source, count }) => (
+                    <span key={source} className="flex items-center gap-2 px-1 py-0.5">
+                        <span className="w-3 h-3 rounded-full border-[3px] shrink-0" style={{ borderColor: sourceColor(source, documents) }} />
+                        {sourceLabel(source, documents)} ({count})
+                    </span>
+                ))}
+            </div>
+        )}
+        </div>
+    )}
+
+    {/* View controls */}
+    <div className={`absolute bottom-4 right-4 flex flex-col gap-1 rounded-xl p-1 shadow-lg border z-20 ${isDarkMode ? 'bg-slate-700 border-slate-600' : 'glass-panel'}`}>
+        <button className={toolbarButton} onClick={() => zoomBy(1.3)} title={t('mindmap.zoomIn')}>
+            <MagnifyingGlassPlusIcon className="w-4 h-4" />
+        </button>
+        <button className={toolbarButton} onClick={() => zoomBy(1 / 1.3)} title={t('mindmap.zoomOut')}>
+            <MagnifyingGlassMinusIcon className="w-4 h-4" />
+        </button>
+        <button className={toolbarButton} onClick={fitToView} title={t('mindmap.fit')}>
+            <ViewfinderCircleIcon className="w-4 h-4" />
+        </button>
+        {pinnedIds.length > 0 && (
+            <button className={toolbarButton} onClick={() => unpinNodes(pinnedIds)} title={t('mindmap.unpinAll')}>
+                <MapPinIcon className="w-4 h-4" />
+            </button>
+        )}
+    </div>
+
+    {/* Edit toolbar for the selected node */}
+    {isEditable && selectedId && !editingId && (
+        <div className={`absolute top-4 right-4 flex items-center gap-1 rounded-xl p-1 shadow-lg border z-20 ${isDarkMode ? 'bg-slate-700 border-slate-600' : 'glass-panel'}`}>
+            {onExpandNode && (
+                <button
+                    className={`${toolbarButton} disabled:opacity-30`}
+                    onClick={() => onExpandNode(selectedId)}
+                    disabled={busyNodeId !== null}
+                    title={t('mindmap.expandWithAI')}
+                >
+                    <SparklesIcon className="w-4 h-4" />
+                </button>
+            )}
+            {onExplainNode && (
+                <button className={toolbarButton} onClick={() => onExplainNode(selectedId)} title={t('mindmap.explain')}>
+                    <ChatBubbleBottomCenterTextIcon className="w-4 h-4" />
+                </button>
+            )}
+            <button className={toolbarButton} onClick={handleAddChild} title={t('mindmap.addChild')}>
+                <PlusIcon className="w-4 h-4" />
+            </button>
+            <button
+                className={toolbarButton}
+                onClick={() => { const node = nodes.find(n => n.id === selectedId); if (node) startRename(node); }}
+                title={t('mindmap.rename')}
+            >
+                <PencilIcon className="w-4 h-4" />
+            </button>
+            <button
+                className={`${toolbarButton} disabled:opacity-30`}
+                onClick={handleDelete}
+                disabled={selectedId === ROOT_ID}
+                title={t('mindmap.delete')}
+            >
+                <TrashIcon className="w-4 h-4" />
+            </button>
+        </div>
+    )}
+    </div>
   );
-};
+});
 
-export default MindMapGraph;
\ No newline at end of file
+export default MindMapGraph;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { ArrowPathIcon, XMarkIcon, ChatBubbleBottomCenterTextIcon } from '@heroicons/react/24/outline';
+import { t } from '../i18n';
+
+interface NodeExplanationPanelProps {
+  label: string;
+  text: string;
+  isLoading?: boolean;
+  isDarkMode?: boolean;
+  onClose: () => void;
+}
+
+const NodeExplanationPanel: React.FC<NodeExplanationPanelProps> = ({
+  label,
+  text,
+  isLoading = false,
+  isDarkMode = false,
+  onClose
+}) => {
+  const panelClasses = isDarkMode
+    ? "bg-slate-800/60 border-white/10 text-gray-200"
+    : "glass-panel text-gray-700";
+
+  return (
+    <div className={`rounded-3xl p-5 flex flex-col gap-3 ${panelClasses}`}>
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <ChatBubbleBottomCenterTextIcon className="w-5 h-5 shrink-0 text-indigo-500" />
+          <h4 className={`font-bold truncate ${isDarkMode ? 'text-white' : 'text-gray-800'}`} title={label}>{label}</h4>
+        </div>
+        <button onClick={onClose} className="p-1 rounded-full hover:bg-black/5" title={t('common.close')}>
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      {isLoading && !text ? (
+        <div className="flex items-center gap-2 text-sm opacity-70">
+          <ArrowPathIcon className="w-4 h-4 animate-spin" /> {t('explanation.loading')}
+        </div>
+      ) : (
+        <p className="text-sm leading-relaxed whitespace-pre-line max-h-64 overflow-y-auto no-scrollbar">{text}</p>
+      )}
+    </div>
+  );
+};
+
+export default NodeExplanationPanel;
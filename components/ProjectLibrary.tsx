@@ -0,0 +1,256 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  ArrowDownTrayIcon,
+  ArrowUpTrayIcon,
+  BookOpenIcon,
+  ChartBarIcon,
+  CheckIcon,
+  ClockIcon,
+  DocumentDuplicateIcon,
+  MagnifyingGlassIcon,
+  PencilIcon,
+  ShareIcon,
+  TrashIcon,
+  XMarkIcon
+} from '@heroicons/react/24/outline';
+import { Project } from '../types';
+import {
+  deleteProject,
+  duplicateProject,
+  exportLibrary,
+  importLibrary,
+  listProjects,
+  renameProject,
+  searchProjects
+} from '../services/projectLibrary';
+import { downloadBlob } from '../services/download';
+import { getLocale, t } from '../i18n';
+
+interface ProjectLibraryProps {
+  currentProjectId: string | null;
+  isDarkMode?: boolean;
+  onOpen: (project: Project) => void;
+  onRenamed: (project: Project) => void;
+  onDeleted: (id: string) => void;
+  onClose: () => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(getLocale(), { dateStyle: 'short', timeStyle: 'short' });
+
+const ProjectLibrary: React.FC<ProjectLibraryProps> = ({
+  currentProjectId,
+  isDarkMode = false,
+  onOpen,
+  onRenamed,
+  onDeleted,
+  onClose
+}) => {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [query, setQuery] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const archiveInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (e) {
+      console.error("Project library error:", e);
+      setMessage(t('library.unavailable'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const startRename = (project: Project) => {
+    setRenamingId(project.id);
+    setRenameValue(project.title);
+  };
+
+  const commitRename = async () => {
+    if (!renamingId) return;
+    try {
+      const renamed = await renameProject(renamingId, renameValue);
+      if (renamed) onRenamed(renamed);
+    } catch (e) {
+      console.error("Project rename error:", e);
+      setMessage(t('library.renameFailed'));
+    }
+    setRenamingId(null);
+    refresh();
+  };
+
+  const handleDuplicate = async (id: string) => {
+    try {
+      await duplicateProject(id);
+    } catch (e) {
+      console.error("Project duplicate error:", e);
+      setMessage(t('library.duplicateFailed'));
+    }
+    refresh();
+  };
+
+  const handleDelete = async (project: Project) => {
+    if (!window.confirm(t('library.confirmDelete', { title: project.title }))) return;
+    try {
+      await deleteProject(project.id);
+      onDeleted(project.id);
+    } catch (e) {
+      console.error("Project delete error:", e);
+      setMessage(t('library.deleteFailed'));
+    }
+    refresh();
+  };
+
+  const handleExport = async () => {
+    const date = new Date().toISOString().slice(0, 10);
+    try {
+      downloadBlob(await exportLibrary(), `thu-vien-du-an-${date}.json`, 'application/json');
+    } catch (e) {
+      console.error("Library export error:", e);
+      setMessage(t('library.exportFailed'));
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const count = await importLibrary(await file.text());
+      setMessage(t('library.imported', { count }));
+      refresh();
+    } catch (e) {
+      console.error("Library import error:", e);
+      setMessage(t('library.invalidArchive'));
+    }
+  };
+
+  const panelClasses = isDarkMode
+    ? "bg-slate-800 border-slate-700 text-gray-200"
+    : "glass-panel text-gray-700";
+
+  const rowClasses = isDarkMode
+    ? "bg-slate-700/50 border-slate-600 hover:bg-slate-700"
+    : "bg-white/40 border-white/50 hover:bg-white/70";
+
+  const iconButton = `p-1.5 rounded-lg transition-colors ${isDarkMode ? 'hover:bg-slate-600' : 'hover:bg-black/5'}`;
+  const visible = searchProjects(projects, query);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/30" onClick={onClose}>
+      <div
+        className={`w-full max-w-2xl max-h-[85vh] rounded-3xl p-6 flex flex-col gap-4 shadow-2xl border ${panelClasses}`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <BookOpenIcon className="w-6 h-6 text-indigo-500" />
+            <h2 className={`text-lg font-bold ${isDarkMode ? 'text-white' : 'text-gray-800'}`}>{t('library.title')}</h2>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-black/5" title={t('common.close')}>
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <label className={`flex items-center gap-2 rounded-xl border px-3 py-2 ${isDarkMode ? 'bg-slate-700 border-slate-600' : 'bg-white/70 border-white/80'}`}>
+          <MagnifyingGlassIcon className="w-4 h-4 opacity-60" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t('library.search')}
+            className="flex-1 bg-transparent text-sm focus:outline-none"
+            autoFocus
+          />
+        </label>
+
+        {message && <p className="text-sm text-indigo-500">{message}</p>}
+
+        <div className="flex-1 overflow-y-auto no-scrollbar flex flex-col gap-2 min-h-[120px]">
+          {isLoading ? (
+            <p className="text-sm opacity-70">{t('common.loading')}</p>
+          ) : visible.length === 0 ? (
+            <p className="text-sm opacity-70">
+              {projects.length === 0 ? t('library.empty') : t('library.noMatch')}
+            </p>
+          ) : visible.map(project => (
+            <div
+              key={project.id}
+              className={`flex items-center gap-3 p-3 rounded-xl border transition-colors ${rowClasses} ${project.id === currentProjectId ? 'ring-2 ring-indigo-400/60' : ''}`}
+            >
+              <div className="flex-1 min-w-0">
+                {renamingId === project.id ? (
+                  <input
+                    value={renameValue}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    onBlur={commitRename}
+                    className={`w-full rounded-lg border px-2 py-1 text-sm ${isDarkMode ? 'bg-slate-800 border-slate-600 text-white' : 'bg-white border-white/80'}`}
+                    autoFocus
+                  />
+                ) : (
+                  <button onClick={() => onOpen(project)} className="w-full text-left">
+                    <div className={`font-semibold truncate ${isDarkMode ? 'text-white' : 'text-gray-800'}`}>{project.title}</div>
+                    <div className="flex items-center gap-2 text-xs opacity-70">
+                      <span>{formatDate(project.updatedAt)}</span>
+                      {project.graphData && <ShareIcon className="w-3.5 h-3.5 transform -scale-y-100" title={t('library.mindMap')} />}
+                      {project.infographicData && <ChartBarIcon className="w-3.5 h-3.5" title={t('library.infographic')} />}
+                      {project.timelineData && <ClockIcon className="w-3.5 h-3.5" title={t('library.timeline')} />}
+                    </div>
+                  </button>
+                )}
+              </div>
+
+              {renamingId === project.id ? (
+                <button onClick={commitRename} className={iconButton} title={t('library.saveName')}>
+                  <CheckIcon className="w-4 h-4" />
+                </button>
+              ) : (
+                <div className="flex items-center">
+                  <button onClick={() => startRename(project)} className={iconButton} title={t('library.rename')}>
+                    <PencilIcon className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => handleDuplicate(project.id)} className={iconButton} title={t('library.duplicate')}>
+                    <DocumentDuplicateIcon className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => handleDelete(project)} className={`${iconButton} text-red-500`} title={t('library.delete')}>
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap gap-2 justify-end">
+          <button
+            onClick={() => archiveInputRef.current?.click()}
+            className={`flex items-center gap-2 px-3 py-2 rounded-xl text-sm font-medium border ${rowClasses}`}
+          >
+            <ArrowUpTrayIcon className="w-4 h-4" /> {t('library.import')}
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={projects.length === 0}
+            className={`flex items-center gap-2 px-3 py-2 rounded-xl text-sm font-medium border disabled:opacity-50 ${rowClasses}`}
+          >
+            <ArrowDownTrayIcon className="w-4 h-4" /> {t('library.export')}
+          </button>
+          <input type="file" ref={archiveInputRef} className="hidden" accept=".json" onChange={handleImport} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectLibrary;
@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import { CpuChipIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { PROVIDERS, AIOperation, AIProviderId, ProviderConfig, getProviderConfig, setProviderConfig } from '../services/providers';
+import { CacheStats, clearResponseCache, getCacheStats } from '../services/responseCache';
+import { MessageKey, getLocale, t } from '../i18n';
+
+interface ProviderSettingsProps {
+  isOpen: boolean; // Controlled by the app, which also opens it to fix a missing API key
+  onOpenChange: (isOpen: boolean) => void;
+  isDarkMode?: boolean;
+}
+
+const formatSize = (bytes: number) =>
+  new Intl.NumberFormat(getLocale(), { style: 'unit', unit: bytes < 1024 * 1024 ? 'kilobyte' : 'megabyte', maximumFractionDigits: 1 })
+    .format(bytes < 1024 * 1024 ? bytes / 1024 : bytes / (1024 * 1024));
+
+const ProviderSettings: React.FC<ProviderSettingsProps> = ({ isOpen, onOpenChange, isDarkMode = false }) => {
+  const [config, setConfig] = useState<ProviderConfig>(getProviderConfig);
+  const [cacheStats, setCacheStats] = useState<CacheStats | null | undefined>(undefined); // undefined while loading
+
+  const refreshCacheStats = () => {
+    getCacheStats()
+      .then(setCacheStats)
+      .catch(e => {
+        console.error("Cache stats error:", e);
+        setCacheStats(null);
+      });
+  };
+
+  useEffect(() => {
+    if (isOpen) refreshCacheStats();
+  }, [isOpen]);
+
+  const handleClearCache = async () => {
+    try {
+      await clearResponseCache();
+    } catch (e) {
+      console.error("Cache clear error:", e);
+    }
+    refreshCacheStats();
+  };
+
+  const update = (changes: Partial<ProviderConfig>) => {
+    setConfig(setProviderConfig(changes));
+  };
+
+  const provider = PROVIDERS[config.provider];
+
+  const fieldClasses = isDarkMode
+    ? "bg-slate-700 border-slate-600 text-white"
+    : "bg-white/70 border-white/80 text-gray-700";
+
+  const labelClasses = `text-xs font-semibold ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => onOpenChange(!isOpen)}
+        className={`flex items-center gap-2 px-3 py-2 rounded-full text-sm font-medium transition-colors ${isDarkMode ? 'bg-slate-700 text-gray-200' : 'bg-white/50 text-slate-600'}`}
+        title={t('provider.choose')}
+      >
+        <CpuChipIcon className="w-5 h-5" />
+        <span className="hidden sm:inline">{config.model}</span>
+      </button>
+
+      {isOpen && (
+        <div className={`absolute right-0 mt-2 w-72 rounded-2xl p-4 flex flex-col gap-3 shadow-xl border z-50 ${isDarkMode ? 'bg-slate-800 border-slate-700' : 'glass-panel'}`}>
+          <label className="flex flex-col gap-1">
+            <span className={labelClasses}>{t('provider.provider')}</span>
+            <select
+              value={config.provider}
+              onChange={(e) => update({ provider: e.target.value as AIProviderId })}
+              className={`rounded-lg border px-2 py-1.5 text-sm ${fieldClasses}`}
+            >
+              {Object.values(PROVIDERS).map(p => (
+                <option key={p.id} value={p.id}>{p.label}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex flex-col gap-1">
+            <span className={labelClasses}>{t('provider.model')}</span>
+            <input
+              value={config.model}
+              onChange={(e) => update({ model: e.target.value })}
+              list="provider-models"
+              className={`rounded-lg border px-2 py-1.5 text-sm ${fieldClasses}`}
+            />
+            <datalist id="provider-models">
+              {provider.models.map(m => <option key={m} value={m} />)}
+            </datalist>
+          </label>
+
+          {config.provider === 'openai' && (
+            <>
+              <label className="flex flex-col gap-1">
+                <span className={labelClasses}>Base URL</span>
+                <input
+                  value={config.baseUrl || ''}
+                  onChange={(e) => update({ baseUrl: e.target.value })}
+                  placeholder="http://localhost:11434/v1"
+                  className={`rounded-lg border px-2 py-1.5 text-sm ${fieldClasses}`}
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className={labelClasses}>API key</span>
+                <input
+                  type="password"
+                  value={config.apiKey || ''}
+                  onChange={(e) => update({ apiKey: e.target.value })}
+                  placeholder={t('provider.apiKeyOptional')}
+                  className={`rounded-lg border px-2 py-1.5 text-sm ${fieldClasses}`}
+                />
+              </label>
+            </>
+          )}
+
+          {config.provider === 'proxy' && (
+            <label className="flex flex-col gap-1">
+              <span className={labelClasses}>{t('provider.proxyUrl')}</span>
+              <input
+                value={config.proxyUrl || ''}
+                onChange={(e) => update({ proxyUrl: e.target.value })}
+                placeholder={t('provider.proxyUrlPlaceholder')}
+                className={`rounded-lg border px-2 py-1.5 text-sm ${fieldClasses}`}
+              />
+            </label>
+          )}
+
+          <div className={`flex flex-col gap-1 pt-3 border-t ${isDarkMode ? 'border-slate-700' : 'border-white/60'}`}>
+            <span className={labelClasses}>{t('cache.title')}</span>
+            {cacheStats ? (
+              <>
+                <span className="text-sm">{t('cache.entries', { count: cacheStats.entries, size: formatSize(cacheStats.bytes) })}</span>
+                {cacheStats.entries > 0 && (
+                  <span className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    {(Object.keys(cacheStats.byOperation) as AIOperation[])
+                      .map(op => `${t(`cache.op.${op}` as MessageKey)} ${cacheStats.byOperation[op]}`)
+                      .join(' · ')}
+                  </span>
+                )}
+                <span className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  {t('cache.session', { hits: cacheStats.hits, misses: cacheStats.misses })}
+                </span>
+                <button
+                  onClick={handleClearCache}
+                  disabled={cacheStats.entries === 0}
+                  className={`mt-1 self-start flex items-center gap-1.5 rounded-lg border px-2 py-1 text-xs font-medium disabled:opacity-50 ${fieldClasses}`}
+                >
+                  <TrashIcon className="w-3.5 h-3.5" /> {t('cache.clear')}
+                </button>
+              </>
+            ) : (
+              <span className="text-xs opacity-70">{cacheStats === null ? t('cache.unavailable') : t('common.loading')}</span>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProviderSettings;
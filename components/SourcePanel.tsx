@@ -0,0 +1,122 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { DocumentMagnifyingGlassIcon, ExclamationTriangleIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { SourceSpan } from '../types';
+import { resolveSpan } from '../services/grounding';
+import { t } from '../i18n';
+
+interface SourcePanelProps {
+  label: string;
+  sources?: SourceSpan[]; // Undefined for ideas that were never grounded
+  sourceText: string;
+  isDarkMode?: boolean;
+  onClose: () => void;
+}
+
+interface Highlight {
+  start: number;
+  end: number;
+  index: number; // Position of the quote in the list, used to scroll to it
+}
+
+// Splits the text into plain and highlighted pieces. Overlapping passages
+// are merged into the earlier highlight.
+const splitText = (text: string, highlights: Highlight[]) => {
+  const pieces: { text: string; index: number | null }[] = [];
+  let cursor = 0;
+  [...highlights].sort((a, b) => a.start - b.start).forEach(h => {
+    if (h.end <= cursor) return;
+    const start = Math.max(h.start, cursor);
+    if (start > cursor) pieces.push({ text: text.slice(cursor, start), index: null });
+    pieces.push({ text: text.slice(start, h.end), index: h.index });
+    cursor = h.end;
+  });
+  if (cursor < text.length) pieces.push({ text: text.slice(cursor), index: null });
+  return pieces;
+};
+
+const SourcePanel: React.FC<SourcePanelProps> = ({
+  label,
+  sources,
+  sourceText,
+  isDarkMode = false,
+  onClose
+}) => {
+  const textRef = useRef<HTMLDivElement>(null);
+
+  const highlights = useMemo(() => (sources || []).flatMap((span, index) => {
+    const range = sourceText ? resolveSpan(sourceText, span) : null;
+    return range ? [{ ...range, index }] : [];
+  }), [sources, sourceText]);
+
+  const scrollToPassage = (index: number) => {
+    const container = textRef.current;
+    const mark = container?.querySelector<HTMLElement>(`[data-passage="${index}"]`);
+    if (!container || !mark) return;
+    container.scrollTo({ top: mark.offsetTop - container.clientHeight / 3, behavior: 'smooth' });
+  };
+
+  // Bring the first passage into view whenever another idea is shown
+  useEffect(() => {
+    if (highlights.length > 0) scrollToPassage(Math.min(...highlights.map(h => h.index)));
+  }, [highlights]);
+
+  const panelClasses = isDarkMode
+    ? "bg-slate-800/60 border-white/10 text-gray-200"
+    : "glass-panel text-gray-700";
+
+  const markClasses = isDarkMode ? "bg-amber-500/30 text-amber-100" : "bg-amber-200/80 text-gray-900";
+
+  return (
+    <div className={`rounded-3xl p-5 flex flex-col gap-3 ${panelClasses}`}>
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <DocumentMagnifyingGlassIcon className="w-5 h-5 shrink-0 text-indigo-500" />
+          <h4 className={`font-bold truncate ${isDarkMode ? 'text-white' : 'text-gray-800'}`} title={label}>{label}</h4>
+        </div>
+        <button onClick={onClose} className="p-1 rounded-full hover:bg-black/5" title={t('common.close')}>
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      {!sources ? (
+        <p className="text-sm opacity-70">{t('grounding.notChecked')}</p>
+      ) : sources.length === 0 ? (
+        <div className={`flex items-start gap-2 rounded-xl px-3 py-2 text-sm ${isDarkMode ? 'bg-amber-900/30 text-amber-200' : 'bg-amber-50/80 text-amber-800'}`}>
+          <ExclamationTriangleIcon className="w-5 h-5 shrink-0" />
+          <span>{t('grounding.unsupportedDetail')}</span>
+        </div>
+      ) : (
+        <>
+          <ol className="flex flex-col gap-1.5 text-sm">
+            {sources.map((span, index) => (
+              <li key={index}>
+                <button
+                  onClick={() => scrollToPassage(index)}
+                  className={`w-full text-left italic border-l-2 pl-2 ${isDarkMode ? 'border-amber-500/60 hover:text-white' : 'border-amber-400 hover:text-gray-900'}`}
+                >
+                  “{span.quote}”
+                </button>
+              </li>
+            ))}
+          </ol>
+
+          {highlights.length > 0 ? (
+            <div
+              ref={textRef}
+              className={`relative text-sm leading-relaxed whitespace-pre-line max-h-80 overflow-y-auto no-scrollbar rounded-xl p-3 ${isDarkMode ? 'bg-slate-900/50' : 'bg-white/50'}`}
+            >
+              {splitText(sourceText, highlights).map((piece, i) => piece.index === null
+                ? <React.Fragment key={i}>{piece.text}</React.Fragment>
+                : <mark key={i} data-passage={piece.index} className={`rounded px-0.5 ${markClasses}`}>{piece.text}</mark>
+              )}
+            </div>
+          ) : (
+            <p className="text-xs opacity-70">{t('grounding.noSourceText')}</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SourcePanel;
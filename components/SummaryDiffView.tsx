@@ -0,0 +1,87 @@
+import React, { useMemo, useState } from 'react';
+import { ComparedDocument } from '../types';
+import { DiffSegment, diffSummaries } from '../services/summaryDiff';
+import { sourceColor } from '../services/multiDocument';
+import { t } from '../i18n';
+
+interface SummaryDiffViewProps {
+  documents: ComparedDocument[];
+  isDarkMode?: boolean;
+}
+
+// The summaries of two compared documents next to each other, one row per
+// point. Words that differ within a pair of matching points are highlighted
+// in the color the map uses for their document.
+const SummaryDiffView: React.FC<SummaryDiffViewProps> = ({ documents, isDarkMode = false }) => {
+  const [leftIndex, setLeftIndex] = useState(0);
+  const [rightIndex, setRightIndex] = useState(1);
+
+  // Removing documents can leave a side pointing past the end
+  const left = documents[Math.min(leftIndex, documents.length - 1)];
+  const right = documents[Math.min(rightIndex, documents.length - 1)];
+  const rows = useMemo(() => diffSummaries(left.summary, right.summary), [left.summary, right.summary]);
+  const count = (kind: string) => rows.filter(r => r.kind === kind).length;
+
+  const textColor = isDarkMode ? "text-gray-300" : "text-gray-700";
+  const cellClasses = `rounded-xl px-3 py-2 leading-relaxed ${isDarkMode ? 'bg-slate-800/60' : 'glass-panel'}`;
+  const selectClasses = `rounded-lg px-2 py-1 text-sm font-semibold focus:outline-none focus:ring-2 focus:ring-indigo-400/50 ${isDarkMode ? 'bg-slate-700 text-white' : 'bg-white/60'}`;
+
+  const renderSegments = (segments: DiffSegment[], document: ComparedDocument) =>
+    segments.map((segment, i) => segment.changed
+      ? <mark key={i} className="rounded px-0.5 text-inherit" style={{ backgroundColor: `${sourceColor(document.key, documents)}33` }}>{segment.text}</mark>
+      : <React.Fragment key={i}>{segment.text}</React.Fragment>);
+
+  const renderCell = (segments: DiffSegment[] | null, document: ComparedDocument, isAlone: boolean) =>
+    segments ? (
+      <div className={cellClasses} style={isAlone ? { boxShadow: `inset 3px 0 0 ${sourceColor(document.key, documents)}` } : undefined}>
+        {renderSegments(segments, document)}
+      </div>
+    ) : (
+      <div className={`rounded-xl border border-dashed ${isDarkMode ? 'border-slate-700' : 'border-gray-300'}`} title={t('compare.noMatch')} />
+    );
+
+  const documentSelect = (value: number, onChange: (index: number) => void, label: string) => (
+    documents.length > 2 ? (
+      <select value={value} onChange={(e) => onChange(Number(e.target.value))} className={selectClasses} aria-label={label}>
+        {documents.map((d, i) => <option key={d.key} value={i}>{d.label}</option>)}
+      </select>
+    ) : (
+      <span className="text-sm font-semibold">{documents[value].label}</span>
+    )
+  );
+
+  return (
+    <div className={`flex flex-col gap-2 text-sm ${textColor}`}>
+      <div className="grid grid-cols-2 gap-3 pl-1">
+        <span className="flex items-center gap-2">
+          <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: sourceColor(left.key, documents) }} />
+          {documentSelect(documents.indexOf(left), setLeftIndex, t('compare.diffLeft'))}
+        </span>
+        <span className="flex items-center gap-2">
+          <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: sourceColor(right.key, documents) }} />
+          {documentSelect(documents.indexOf(right), setRightIndex, t('compare.diffRight'))}
+        </span>
+      </div>
+      <p className={`text-xs pl-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+        {t('compare.diffStats', {
+          same: count('same'),
+          changed: count('changed'),
+          leftOnly: count('leftOnly'),
+          rightOnly: count('rightOnly'),
+          left: left.label,
+          right: right.label,
+        })}
+      </p>
+      <div className="grid grid-cols-2 gap-x-3 gap-y-2">
+        {rows.map((row, i) => (
+          <React.Fragment key={i}>
+            {renderCell(row.left, left, row.kind === 'leftOnly')}
+            {renderCell(row.right, right, row.kind === 'rightOnly')}
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SummaryDiffView;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { ArrowPathIcon, CheckCircleIcon, EllipsisHorizontalCircleIcon } from '@heroicons/react/24/outline';
+import { SummaryProgress } from '../types';
+import { t } from '../i18n';
+
+interface SummaryProgressViewProps {
+  progress: SummaryProgress;
+  isDarkMode?: boolean;
+}
+
+const SummaryProgressView: React.FC<SummaryProgressViewProps> = ({ progress, isDarkMode = false }) => {
+  const done = progress.chunks.filter(c => c.status === 'done').length;
+  const textColor = isDarkMode ? "text-gray-300" : "text-gray-600";
+
+  return (
+    <div className={`rounded-2xl p-4 flex flex-col gap-3 text-sm ${isDarkMode ? 'bg-slate-800/60' : 'glass-panel'} ${textColor}`}>
+      <div className="flex justify-between font-semibold">
+        <span>
+          {progress.stage === 'map'
+            ? t('summary.progressMap', { done, total: progress.chunks.length })
+            : t('summary.progressReduce')}
+        </span>
+        <span>{Math.round((done / progress.chunks.length) * 100)}%</span>
+      </div>
+
+      <div className={`h-1.5 rounded-full overflow-hidden ${isDarkMode ? 'bg-slate-700' : 'bg-white/60'}`}>
+        <div
+          className="h-full bg-gradient-to-r from-indigo-500 to-purple-500 transition-all duration-500"
+          style={{ width: `${(done / progress.chunks.length) * 100}%` }}
+        />
+      </div>
+
+      <ul className="flex flex-col gap-1 max-h-40 overflow-y-auto no-scrollbar">
+        {progress.chunks.map((chunk, i) => (
+          <li key={i} className="flex items-center gap-2">
+            {chunk.status === 'done' && <CheckCircleIcon className="w-4 h-4 text-green-500 shrink-0" />}
+            {chunk.status === 'running' && <ArrowPathIcon className="w-4 h-4 text-indigo-500 animate-spin shrink-0" />}
+            {chunk.status === 'pending' && <EllipsisHorizontalCircleIcon className="w-4 h-4 opacity-50 shrink-0" />}
+            <span className="truncate">{t('summary.part', { index: i + 1 })}{chunk.title ? `: ${chunk.title}` : ''}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SummaryProgressView;
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { BookmarkIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { SummaryAudience, SummaryFormat, SummaryLength, SummaryPreset, SummaryStyle } from '../types';
+import {
+  SUMMARY_AUDIENCES,
+  SUMMARY_FORMATS,
+  SUMMARY_LENGTHS,
+  audienceLabel,
+  deleteSummaryPreset,
+  formatLabel,
+  isBuiltInPreset,
+  isSameStyle,
+  lengthLabel,
+  listSummaryPresets,
+  saveSummaryPreset
+} from '../services/summaryStyle';
+import { t } from '../i18n';
+
+interface SummaryStyleControlsProps {
+  style: SummaryStyle;
+  onChange: (style: SummaryStyle) => void;
+  isDarkMode?: boolean;
+}
+
+const CUSTOM = '';
+
+const SummaryStyleControls: React.FC<SummaryStyleControlsProps> = ({ style, onChange, isDarkMode = false }) => {
+  // Read on every render so built-in names follow the UI language
+  const [, setRevision] = useState(0);
+  const presets: SummaryPreset[] = listSummaryPresets();
+
+  // The preset shown is whichever one matches the current options, if any
+  const activePreset = presets.find(p => isSameStyle(p.style, style));
+
+  const handlePresetChange = (id: string) => {
+    const preset = presets.find(p => p.id === id);
+    if (preset) onChange(preset.style);
+  };
+
+  const handleSavePreset = () => {
+    const name = window.prompt(t('summaryStyle.presetName'), '');
+    if (!name?.trim()) return;
+    saveSummaryPreset(name, style);
+    setRevision(r => r + 1);
+  };
+
+  const handleDeletePreset = () => {
+    if (!activePreset || isBuiltInPreset(activePreset.id)) return;
+    deleteSummaryPreset(activePreset.id);
+    setRevision(r => r + 1);
+  };
+
+  const fieldClasses = `rounded-lg border px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-400/50 ${isDarkMode
+    ? 'bg-slate-800 border-slate-600 text-white'
+    : 'bg-white/70 border-white/80 text-gray-700'}`;
+
+  const labelClasses = `text-xs font-semibold ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`;
+  const iconButton = `p-1.5 rounded-lg transition-colors ${isDarkMode ? 'text-gray-300 hover:bg-slate-700' : 'text-gray-500 hover:bg-black/5'}`;
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+      <label className="flex flex-col gap-1">
+        <span className={labelClasses}>{t('summaryStyle.preset')}</span>
+        <div className="flex items-center gap-1">
+          <select
+            value={activePreset?.id ?? CUSTOM}
+            onChange={(e) => handlePresetChange(e.target.value)}
+            className={`flex-1 min-w-0 ${fieldClasses}`}
+          >
+            {!activePreset && <option value={CUSTOM}>{t('summaryStyle.custom')}</option>}
+            {presets.map(p => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+          {activePreset && !isBuiltInPreset(activePreset.id) ? (
+            <button onClick={handleDeletePreset} className={iconButton} title={t('summaryStyle.deletePreset')}>
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          ) : (
+            <button onClick={handleSavePreset} disabled={!!activePreset} className={`${iconButton} disabled:opacity-40`} title={t('summaryStyle.savePreset')}>
+              <BookmarkIcon className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </label>
+
+      <label className="flex flex-col gap-1">
+        <span className={labelClasses}>{t('summaryStyle.format')}</span>
+        <select
+          value={style.format}
+          onChange={(e) => onChange({ ...style, format: e.target.value as SummaryFormat })}
+          className={fieldClasses}
+        >
+          {SUMMARY_FORMATS.map(format => (
+            <option key={format} value={format}>{formatLabel(format)}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex flex-col gap-1">
+        <span className={labelClasses}>{t('summaryStyle.length')}</span>
+        <select
+          value={style.length}
+          onChange={(e) => onChange({ ...style, length: e.target.value as SummaryLength })}
+          disabled={style.format === 'tldr'}
+          className={`${fieldClasses} disabled:opacity-50`}
+        >
+          {SUMMARY_LENGTHS.map(length => (
+            <option key={length} value={length}>{lengthLabel(length)}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex flex-col gap-1">
+        <span className={labelClasses}>{t('summaryStyle.audience')}</span>
+        <select
+          value={style.audience}
+          onChange={(e) => onChange({ ...style, audience: e.target.value as SummaryAudience })}
+          className={fieldClasses}
+        >
+          {SUMMARY_AUDIENCES.map(audience => (
+            <option key={audience} value={audience}>{audienceLabel(audience)}</option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default SummaryStyleControls;
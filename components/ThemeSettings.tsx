@@ -0,0 +1,124 @@
+import React, { useRef } from 'react';
+import { PhotoIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { BrandColors, ThemeFontId, ThemePaletteId, VisualTheme } from '../types';
+import { MAX_LOGO_BYTES, THEME_FONTS, THEME_PALETTES, fontLabel, paletteLabel, readLogoFile } from '../services/theme';
+import { MessageKey, t } from '../i18n';
+
+interface ThemeSettingsProps {
+  theme: VisualTheme;
+  onChange: (theme: VisualTheme) => void;
+  onError: (message: string) => void;
+  isDarkMode?: boolean;
+}
+
+// Palette, font and brand controls for the settings box. Changes apply to
+// every visualizer and its exports.
+const ThemeSettings: React.FC<ThemeSettingsProps> = ({ theme, onChange, onError, isDarkMode = false }) => {
+  const logoInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (changes: Partial<VisualTheme>) => onChange({ ...theme, ...changes });
+
+  const handleLogo = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      update({ logo: await readLogoFile(file) });
+    } catch (e) {
+      console.error("Logo read error:", e);
+      onError(t('theme.logoInvalid', { size: `${MAX_LOGO_BYTES / 1024} KB` }));
+    }
+  };
+
+  const textPrimary = isDarkMode ? "text-white" : "text-gray-800";
+  const labelClasses = `text-xs font-semibold ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`;
+  const fieldClasses = `rounded-lg border px-2 py-1 text-sm ${isDarkMode ? 'bg-slate-700 border-slate-600 text-white' : 'bg-white/60 border-white/80 text-gray-700'}`;
+
+  return (
+    <div className={`flex flex-col gap-3 pt-3 border-t ${isDarkMode ? 'border-slate-700' : 'border-white/60'}`}>
+      <span className={`font-medium ${textPrimary}`}>{t('theme.title')}</span>
+
+      <div className="flex items-center justify-between gap-3">
+        <span className={labelClasses}>{t('theme.palette')}</span>
+        <select
+          value={theme.palette}
+          onChange={(e) => update({ palette: e.target.value as ThemePaletteId })}
+          className={fieldClasses}
+        >
+          {THEME_PALETTES.map(palette => (
+            <option key={palette} value={palette}>{paletteLabel(palette)}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        <span className={labelClasses}>{t('theme.font')}</span>
+        <select
+          value={theme.font}
+          onChange={(e) => update({ font: e.target.value as ThemeFontId })}
+          className={fieldClasses}
+        >
+          {THEME_FONTS.map(font => (
+            <option key={font} value={font}>{fontLabel(font)}</option>
+          ))}
+        </select>
+      </div>
+
+      {theme.palette === 'brand' && (
+        <div className="flex flex-col gap-1">
+          <span className={labelClasses}>{t('theme.brandColors')}</span>
+          <div className="flex gap-3">
+            {(Object.keys(theme.brandColors) as (keyof BrandColors)[]).map(key => (
+              <label key={key} className="flex items-center gap-1.5 text-xs" title={t(`theme.brandColor.${key}` as MessageKey)}>
+                <input
+                  type="color"
+                  value={theme.brandColors[key]}
+                  onChange={(e) => update({ brandColors: { ...theme.brandColors, [key]: e.target.value } })}
+                  className="w-7 h-7 rounded cursor-pointer bg-transparent"
+                />
+                <span className={isDarkMode ? 'text-gray-300' : 'text-gray-600'}>{t(`theme.brandColor.${key}` as MessageKey)}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <label className="flex flex-col gap-1">
+        <span className={labelClasses}>{t('theme.brandName')}</span>
+        <input
+          value={theme.brandName || ''}
+          onChange={(e) => update({ brandName: e.target.value || undefined })}
+          placeholder={t('theme.brandNamePlaceholder')}
+          maxLength={60}
+          className={fieldClasses}
+        />
+      </label>
+
+      <div className="flex items-center justify-between gap-3">
+        <span className={labelClasses}>{t('theme.logo')}</span>
+        <div className="flex items-center gap-2">
+          {theme.logo && <img src={theme.logo} alt="" className="h-7 w-auto max-w-[5rem] object-contain" />}
+          <button
+            onClick={() => logoInputRef.current?.click()}
+            className={`p-1.5 rounded-lg border ${fieldClasses}`}
+            title={t('theme.uploadLogo')}
+          >
+            <PhotoIcon className="w-4 h-4" />
+          </button>
+          {theme.logo && (
+            <button
+              onClick={() => update({ logo: undefined })}
+              className={`p-1.5 rounded-lg border ${fieldClasses}`}
+              title={t('theme.removeLogo')}
+            >
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          )}
+          <input type="file" ref={logoInputRef} onChange={handleLogo} accept="image/*" className="hidden" />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ThemeSettings;
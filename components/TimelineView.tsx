@@ -0,0 +1,232 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { ArrowsPointingOutIcon, MagnifyingGlassMinusIcon, MagnifyingGlassPlusIcon } from '@heroicons/react/24/outline';
+import { TimelineEntry, TimelineOrientation, VisualTheme } from '../types';
+import {
+  cardGeometry,
+  eventPositions,
+  isDatedTimeline,
+  laneLabelPoint,
+  laneLine,
+  layoutTimeline,
+  tickLabelPoint,
+  tickLine,
+  timelineLength,
+  timelineScale,
+  timelineTicks
+} from '../services/timelineLayout';
+import { seriesColor } from '../services/infographicCharts';
+import { getMindMapPalette } from '../services/mindMapStyle';
+import { DEFAULT_THEME, hasBrandHeader, resolveThemeColors, themeFont } from '../services/theme';
+import { isUnsupported } from '../services/grounding';
+import { t } from '../i18n';
+
+interface TimelineViewProps {
+  data: TimelineEntry[];
+  isDarkMode?: boolean;
+  theme?: VisualTheme;
+  orientation?: TimelineOrientation;
+  showDescription?: boolean; // Descriptions appear on hover
+  onEventClick?: (index: number) => void; // Shows where the event came from
+}
+
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 40;
+const PADDING = 16;
+
+// Zooming stretches the time axis only: cards keep their size while the
+// events spread apart, and overlapping cards are restacked at every step.
+const TimelineView: React.FC<TimelineViewProps> = ({
+  data,
+  isDarkMode = false,
+  theme = DEFAULT_THEME,
+  orientation = 'horizontal',
+  showDescription = true,
+  onEventClick
+}: TimelineViewProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
+  const [transform, setTransform] = useState<d3.ZoomTransform>(d3.zoomIdentity);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  // The time axis spans the visible area; lanes that do not fit scroll
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(containerRef.current);
+    return () => observer.disconnect();
+  }, []);
+
+  const isHorizontal = orientation === 'horizontal';
+  const visibleLength = isHorizontal ? size.width : size.height;
+  const length = visibleLength > 0 ? visibleLength : timelineLength(data, orientation);
+
+  const baseScale = useMemo(() => timelineScale(data, length, orientation), [data, length, orientation]);
+  const scale = isHorizontal ? transform.rescaleX(baseScale) : transform.rescaleY(baseScale);
+  const layout = layoutTimeline(data, eventPositions(data, scale), orientation);
+  const ticks = timelineTicks(data, scale, isHorizontal ? Math.max(2, Math.floor(length / 120)) : Math.max(2, Math.floor(length / 80)));
+  const isDated = isDatedTimeline(data);
+
+  const colors = resolveThemeColors(theme, isDarkMode);
+  const palette = getMindMapPalette(isDarkMode);
+  const fontFamily = themeFont(theme);
+  const crossSize = layout.size + PADDING;
+  const svgWidth = isHorizontal ? length : Math.max(crossSize, size.width);
+  const svgHeight = isHorizontal ? Math.max(crossSize, size.height) : length;
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const svg = d3.select(svgRef.current);
+    const zoom = d3.zoom<SVGSVGElement, unknown>()
+      .scaleExtent([MIN_ZOOM, MAX_ZOOM])
+      .filter((event: MouseEvent) => !(event.target as Element).closest?.('[data-event-index]') && !event.button)
+      .on('zoom', (event: d3.D3ZoomEvent<SVGSVGElement, unknown>) => setTransform(event.transform));
+
+    svg.call(zoom).on('dblclick.zoom', null);
+    zoomRef.current = zoom;
+
+    return () => {
+      svg.on('.zoom', null);
+      zoomRef.current = null;
+    };
+  }, []);
+
+  // A new timeline or orientation starts fully zoomed out
+  useEffect(() => {
+    if (svgRef.current && zoomRef.current) d3.select(svgRef.current).call(zoomRef.current.transform, d3.zoomIdentity);
+  }, [data, orientation]);
+
+  const zoomBy = (factor: number) => {
+    if (!svgRef.current || !zoomRef.current) return;
+    d3.select(svgRef.current).transition().duration(250).call(zoomRef.current.scaleBy, factor);
+  };
+
+  const resetZoom = () => {
+    if (!svgRef.current || !zoomRef.current) return;
+    d3.select(svgRef.current).transition().duration(400).call(zoomRef.current.transform, d3.zoomIdentity);
+  };
+
+  const toolbarButton = `p-2 rounded-lg transition-colors ${isDarkMode ? 'text-gray-200 hover:bg-slate-600' : 'text-gray-700 hover:bg-white'}`;
+  const mutedText = isDarkMode ? '#94a3b8' : '#64748b';
+
+  return (
+    <div className="relative w-full h-full">
+    <div ref={containerRef} className="w-full h-full overflow-auto no-scrollbar">
+    <svg
+      ref={svgRef}
+      width={svgWidth}
+      height={svgHeight}
+      style={{ touchAction: 'none', fontFamily }}
+      className="block"
+    >
+      {/* Time axis */}
+      <g>
+        {ticks.map((tick, i) => {
+          const [from, to] = tickLine(tick, isHorizontal ? svgHeight : svgWidth, orientation);
+          const label = tickLabelPoint(tick, orientation);
+          return (
+            <g key={i}>
+              <line x1={from.x} y1={from.y} x2={to.x} y2={to.y} stroke={palette.link} strokeDasharray="3 5" />
+              <text
+                x={label.x}
+                y={label.y}
+                textAnchor={isHorizontal ? 'middle' : 'end'}
+                dominantBaseline="central"
+                fontSize={11}
+                fontWeight={600}
+                fill={mutedText}
+                className="select-none"
+              >
+                {tick.label}
+              </text>
+            </g>
+          );
+        })}
+      </g>
+
+      {/* Lanes */}
+      {layout.lanes.map((lane, i) => {
+        const [from, to] = laneLine(lane, length, orientation);
+        const label = laneLabelPoint(lane, orientation);
+        const color = seriesColor(colors.series, i);
+        return (
+          <g key={i}>
+            <line x1={from.x} y1={from.y} x2={to.x} y2={to.y} stroke={color} strokeOpacity={0.5} strokeWidth={2} />
+            {(lane.group || layout.lanes.length > 1) && (
+              <text x={label.x} y={label.y} dominantBaseline="central" fontSize={12} fontWeight={700} fill={color} className="select-none">
+                {lane.group ?? t('timeline.ungrouped')}
+              </text>
+            )}
+          </g>
+        );
+      })}
+
+      {/* Events */}
+      {layout.cards.map(card => {
+        const entry = data[card.index];
+        const geometry = cardGeometry(card, layout.lanes[card.lane], orientation);
+        const color = seriesColor(colors.series, card.lane);
+        return (
+          <g
+            key={card.index}
+            data-event-index={card.index}
+            onClick={onEventClick && (() => onEventClick(card.index))}
+            className={onEventClick ? 'cursor-pointer' : undefined}
+          >
+            {showDescription && entry.description && <title>{entry.description}</title>}
+            <line x1={geometry.dot.x} y1={geometry.dot.y} x2={geometry.anchor.x} y2={geometry.anchor.y} stroke={color} strokeOpacity={0.6} />
+            <circle cx={geometry.dot.x} cy={geometry.dot.y} r={isDated ? 6 : 10} fill={color} stroke={isDarkMode ? '#1e293b' : '#ffffff'} strokeWidth={2} />
+            {!isDated && (
+              <text x={geometry.dot.x} y={geometry.dot.y} textAnchor="middle" dominantBaseline="central" fontSize={10} fontWeight={700} fill="#ffffff" className="select-none">
+                {card.index + 1}
+              </text>
+            )}
+            <foreignObject x={geometry.x} y={geometry.y} width={geometry.width} height={geometry.height}>
+              <div
+                className={`w-full h-full rounded-xl border px-3 py-1.5 flex flex-col justify-center shadow-sm transition-shadow hover:shadow-md ${isDarkMode ? 'bg-slate-800/90 border-slate-600' : 'bg-white/90 border-white'}`}
+                style={{ borderLeft: `4px solid ${color}` }}
+              >
+                <span className="flex items-center gap-1 text-xs font-bold truncate" style={{ color }}>
+                  {entry.date || t('timeline.step', { number: card.index + 1 })}
+                  {isUnsupported(entry) && <span className="text-amber-500" title={t('grounding.unsupported')}>!</span>}
+                </span>
+                <span className="text-sm font-semibold leading-tight line-clamp-2" style={{ color: palette.text }}>{entry.title}</span>
+              </div>
+            </foreignObject>
+          </g>
+        );
+      })}
+    </svg>
+    </div>
+
+    {/* Brand badge */}
+    {hasBrandHeader(theme) && (
+        <div
+          className={`absolute bottom-4 left-4 flex items-center gap-2 rounded-xl px-3 py-2 shadow-lg border z-20 pointer-events-none ${isDarkMode ? 'bg-slate-700 border-slate-600' : 'glass-panel'}`}
+          style={{ fontFamily }}
+        >
+            {theme.logo && <img src={theme.logo} alt="" className="h-6 w-auto max-w-[6rem] object-contain" />}
+            {theme.brandName && <span className="text-sm font-bold" style={{ color: colors.primary }}>{theme.brandName}</span>}
+        </div>
+    )}
+
+    {/* View controls */}
+    <div className={`absolute bottom-4 right-4 flex flex-col gap-1 rounded-xl p-1 shadow-lg border z-20 ${isDarkMode ? 'bg-slate-700 border-slate-600' : 'glass-panel'}`}>
+        <button className={toolbarButton} onClick={() => zoomBy(1.5)} title={t('timeline.zoomIn')}>
+            <MagnifyingGlassPlusIcon className="w-4 h-4" />
+        </button>
+        <button className={toolbarButton} onClick={() => zoomBy(1 / 1.5)} title={t('timeline.zoomOut')}>
+            <MagnifyingGlassMinusIcon className="w-4 h-4" />
+        </button>
+        <button className={toolbarButton} onClick={resetZoom} title={t('timeline.showAll')}>
+            <ArrowsPointingOutIcon className="w-4 h-4" />
+        </button>
+    </div>
+    </div>
+  );
+};
+
+export default TimelineView;
@@ -0,0 +1,25 @@
+import React from 'react';
+import { 
+  ChartBarIcon, 
+  LightBulbIcon, 
+  UserGroupIcon, 
+  GlobeAltIcon, 
+  ClockIcon, 
+  ShieldCheckIcon,
+  TrophyIcon,
+  SparklesIcon
+} from '@heroicons/react/24/outline';
+
+// Shared by InfographicView and the image export so both draw the same icons
+export const IconMap: Record<string, React.ElementType> = {
+  chart: ChartBarIcon,
+  bulb: LightBulbIcon,
+  users: UserGroupIcon,
+  globe: GlobeAltIcon,
+  time: ClockIcon,
+  shield: ShieldCheckIcon,
+  target: TrophyIcon,
+  default: SparklesIcon
+};
+
+export const getInfographicIcon = (icon: string): React.ElementType => IconMap[icon] || IconMap.default;
@@ -0,0 +1,280 @@
+import { MessageKey } from './vi';
+
+export const en: Record<MessageKey, string> = {
+  'app.title': 'Gemini Visualizer VN',
+  'app.shortTitle': 'GeminiVisuals',
+  'app.uiLanguage': 'Interface language',
+
+  'input.label': 'Enter your content here',
+  'input.placeholder': 'Paste text or drop a PDF, DOCX, HTML or SRT/VTT file here...',
+  'input.reading': 'Reading file...',
+  'input.upload': 'Upload a text file',
+  'input.openMindMap': 'Open an existing mind map',
+  'input.openMindMapHint': 'OPML, FreeMind / XMind (.mm), Markdown or JSON',
+  'input.summarize': 'Summarize with Gemini',
+  'input.processing': 'Processing...',
+  'input.stop': 'Stop',
+  'input.outputLanguage': 'Output language',
+  'input.outputLanguageAuto': 'Auto (same as source)',
+  'input.detectedLanguage': 'Detected: {language}',
+  'input.compare': 'Compare several documents',
+  'input.compareHint': 'Summarize each document, then map them together with every idea colored by its source',
+
+  'summary.label': 'Summary from Gemini',
+  'summary.failed': 'Could not create a summary.',
+  'summary.createInfographic': 'Create Infographic',
+  'summary.createMindMap': 'Create Mind Map',
+  'summary.createTimeline': 'Create Timeline',
+  'summary.conceptMap': 'As a concept map',
+  'summary.conceptMapHint': 'A mind map that names how ideas relate (causes, contradicts, is part of…) and links ideas across branches',
+  'summary.clickToCancel': 'Click to cancel',
+  'summary.progressMap': 'Summarizing sections ({done}/{total})',
+  'summary.progressReduce': 'Merging sections...',
+  'summary.part': 'Part {index}',
+
+  'summaryStyle.title': 'Summary style',
+  'summaryStyle.format': 'Format',
+  'summaryStyle.length': 'Length',
+  'summaryStyle.audience': 'Audience',
+  'summaryStyle.preset': 'Preset',
+  'summaryStyle.custom': 'Custom',
+  'summaryStyle.savePreset': 'Save as preset',
+  'summaryStyle.presetName': 'Preset name:',
+  'summaryStyle.deletePreset': 'Delete preset',
+  'summaryStyle.applied': 'Style: {style}',
+  'summaryStyle.format.paragraph': 'Paragraph',
+  'summaryStyle.format.bullets': 'Bullet points',
+  'summaryStyle.format.tldr': 'TL;DR',
+  'summaryStyle.format.executive': 'Executive brief',
+  'summaryStyle.format.studyNotes': 'Study notes',
+  'summaryStyle.length.short': 'Short (~{words} words)',
+  'summaryStyle.length.medium': 'Medium (~{words} words)',
+  'summaryStyle.length.long': 'Long (~{words} words)',
+  'summaryStyle.audience.beginner': 'Beginner',
+  'summaryStyle.audience.general': 'General',
+  'summaryStyle.audience.expert': 'Expert',
+  'summaryStyle.preset.quick': 'Quick read',
+  'summaryStyle.preset.briefing': 'Leadership briefing',
+  'summaryStyle.preset.study': 'Study',
+
+  'document.text': 'Text',
+  'document.subtitles': 'Subtitles',
+  'document.remove': 'Remove file',
+  'document.pages': '{count} pages',
+  'document.characters': '{count} characters',
+  'document.pageMarker': '[Page {page}]',
+
+  'visualizer.mindMapTitle': 'Mind Map',
+  'visualizer.conceptMapTitle': 'Concept Map',
+  'visualizer.comparisonTitle': 'Comparison Map',
+  'visualizer.infographicTitle': 'Infographic Overview',
+  'visualizer.mainTopic': 'Main topic',
+  'visualizer.mindMapCaption': 'Gemini analyzed the content and created this mind map.',
+  'visualizer.infographicCaption': 'Information extracted and compiled by Gemini.',
+  'visualizer.timelineTitle': 'Timeline',
+  'visualizer.timelineCaption': 'Events extracted and put in order by Gemini.',
+  'visualizer.readOnly': 'You are viewing a shared link (read-only). Make a copy to edit it and save it to your library.',
+  'visualizer.new': 'New',
+  'infographic.pros': 'Pros',
+  'infographic.cons': 'Cons',
+
+  'actions.title': 'Actions',
+  'actions.downloadSvg': 'Download SVG',
+  'actions.downloadPng': 'Download PNG ({scale}x)',
+  'actions.pngResolution': 'PNG resolution',
+  'actions.otherFormats': 'Export to other formats',
+  'actions.copy': 'Copy {format}',
+  'actions.copyHint': 'Copy to paste into Obsidian, Notion or a document',
+  'actions.share': 'Share',
+  'actions.edit': 'Edit',
+  'actions.editCopy': 'Copy to edit',
+
+  'settings.darkMode': 'Dark mode',
+  'settings.annotations': 'Show annotations',
+  'settings.layout': 'Layout',
+
+  'layout.force': 'Free (force-directed)',
+  'layout.radial': 'Radial tree',
+  'layout.tree': 'Left-to-right tree',
+  'layout.mindmap': 'Two-sided map',
+
+  'settings.infographicLayout': 'Infographic layout',
+
+  'infographicLayout.grid': 'Card grid',
+  'infographicLayout.poster': 'Vertical poster',
+  'infographicLayout.heroCards': 'Hero and cards',
+  'infographicLayout.steps': 'Numbered steps',
+  'infographicLayout.comparison': 'Two-column comparison',
+  'settings.timelineOrientation': 'Timeline direction',
+  'timelineOrientation.horizontal': 'Horizontal',
+  'timelineOrientation.vertical': 'Vertical',
+
+  'theme.title': 'Theme',
+  'theme.palette': 'Palette',
+  'theme.font': 'Font',
+  'theme.brandColors': 'Brand colors',
+  'theme.brandColor.primary': 'Primary',
+  'theme.brandColor.secondary': 'Secondary',
+  'theme.brandColor.accent': 'Accent',
+  'theme.brandName': 'Brand name',
+  'theme.brandNamePlaceholder': 'Shown at the top of the infographic',
+  'theme.logo': 'Logo',
+  'theme.uploadLogo': 'Upload logo',
+  'theme.removeLogo': 'Remove logo',
+  'theme.logoInvalid': 'The logo must be an image file smaller than {size}.',
+  'theme.saveFailed': 'The theme could not be saved in this browser; it only applies to this session.',
+
+  'theme.palette.glass': 'Glass',
+  'theme.palette.ocean': 'Ocean',
+  'theme.palette.forest': 'Forest',
+  'theme.palette.sunset': 'Sunset',
+  'theme.palette.mono': 'Monochrome',
+  'theme.palette.brand': 'Custom brand',
+
+  'theme.font.system': 'System',
+  'theme.font.serif': 'Serif',
+  'theme.font.rounded': 'Rounded',
+  'theme.font.mono': 'Monospace',
+
+  'mindmap.newIdea': 'New idea',
+  'mindmap.expandBranch': 'Expand branch',
+  'mindmap.collapseBranch': 'Collapse branch',
+  'mindmap.zoomIn': 'Zoom in',
+  'mindmap.zoomOut': 'Zoom out',
+  'mindmap.fit': 'Fit to view',
+  'timeline.zoomIn': 'Stretch the time axis',
+  'timeline.zoomOut': 'Compress the time axis',
+  'timeline.showAll': 'Show everything',
+  'timeline.step': 'Step {number}',
+  'timeline.ungrouped': 'Other',
+  'conceptMap.legend': 'Relationships',
+  'conceptMap.filterHint': 'Click to hide or show this relationship type',
+  'conceptMap.crossLink': 'Link between branches',
+  'relation.partOf': 'Is part of',
+  'relation.causes': 'Causes',
+  'relation.supports': 'Supports',
+  'relation.contradicts': 'Contradicts',
+  'relation.example': 'Is an example of',
+  'relation.related': 'Is related to',
+  'compare.defaultLabel': 'Document {key}',
+  'compare.label': 'Name of document {key}',
+  'compare.placeholder': 'Paste the text of this document or drop a file here...',
+  'compare.add': 'Add a document',
+  'compare.remove': 'Remove this document',
+  'compare.summarizing': 'Summarizing {label} ({index}/{total})',
+  'compare.legend': 'Source',
+  'compare.shared': 'All documents',
+  'compare.only': 'Only {label}',
+  'compare.some': 'Some documents',
+  'compare.diffTitle': 'Summaries side by side',
+  'compare.diffLeft': 'Left document',
+  'compare.diffRight': 'Right document',
+  'compare.diffStats': '{same} matching · {changed} partly different · {leftOnly} only in {left} · {rightOnly} only in {right}',
+  'compare.noMatch': 'No matching point in the other document',
+  'compare.confirmLeave': 'Only the text of {label} is kept. The other documents, the summaries and their visualizations will be removed. Continue?',
+  'compare.incomplete': 'Some documents have no summary yet. Summarize them all before creating a visualization.',
+  'compare.confirmEnter': 'The current summary and its visualizations will be removed. Continue?',
+  'mindmap.unpinAll': 'Unpin all nodes',
+  'mindmap.expandWithAI': 'Expand this idea with AI',
+  'mindmap.explain': 'Explain this idea',
+  'mindmap.addChild': 'Add child (Tab)',
+  'mindmap.rename': 'Rename (Enter)',
+  'mindmap.delete': 'Delete branch (Delete)',
+  'mindmap.untitled': 'Mind map',
+
+  'explanation.loading': 'Explaining...',
+  'explanation.none': 'Could not create an explanation.',
+  'explanation.failed': 'Could not create an explanation. Please try again.',
+
+  'grounding.viewSource': 'Show source',
+  'grounding.unsupported': 'No supporting passage found in the original text',
+  'grounding.unsupportedDetail': 'The model could not point to any passage in the original text that supports this idea. Check it before using it.',
+  'grounding.notChecked': 'This idea was added by hand or imported, so there is no source to check it against.',
+  'grounding.noSourceText': 'The original text is not available, only the quoted passages.',
+  'grounding.badge': 'No source',
+  'grounding.unsupportedCount': '{count} ideas have no supporting passage in the original text',
+  'common.close': 'Close',
+  'common.loading': 'Loading...',
+
+  'provider.choose': 'Choose AI model',
+  'provider.provider': 'Provider',
+  'provider.model': 'Model',
+  'provider.apiKeyOptional': 'Not required for Ollama',
+  'provider.proxyUrl': 'Proxy server URL',
+  'provider.proxyUrlPlaceholder': 'Leave empty to use the same address as the app',
+
+  'cache.title': 'Response cache',
+  'cache.entries': '{count} responses · {size}',
+  'cache.session': 'This session: {hits} reused, {misses} model calls',
+  'cache.clear': 'Clear cache',
+  'cache.unavailable': 'The cache is not available in this browser.',
+  'cache.op.summarize': 'Summaries',
+  'cache.op.mindmap': 'Mind maps',
+  'cache.op.conceptmap': 'Concept maps',
+  'cache.op.comparemap': 'Comparison maps',
+  'cache.op.infographic': 'Infographics',
+  'cache.op.timeline': 'Timelines',
+  'cache.op.expand': 'Expansions',
+  'cache.op.explain': 'Explanations',
+  'cache.op.ground': 'Source quotes',
+
+  'library.open': 'Library',
+  'library.title': 'Project library',
+  'library.search': 'Search by name, content or key idea...',
+  'library.empty': 'No projects yet. Projects are saved automatically while you work.',
+  'library.noMatch': 'No matching projects.',
+  'library.rename': 'Rename',
+  'library.saveName': 'Save name',
+  'library.duplicate': 'Duplicate',
+  'library.delete': 'Delete',
+  'library.confirmDelete': 'Delete project "{title}"? This cannot be undone.',
+  'library.import': 'Import library',
+  'library.export': 'Export library',
+  'library.imported': 'Imported {count} projects.',
+  'library.invalidArchive': 'This file is not a project library archive.',
+  'library.unavailable': 'The project library is not available in this browser.',
+  'library.renameFailed': 'The project could not be renamed. Browser storage may be full.',
+  'library.duplicateFailed': 'The project could not be duplicated. Browser storage may be full.',
+  'library.deleteFailed': 'The project could not be deleted.',
+  'library.exportFailed': 'The project library could not be exported.',
+  'library.untitled': 'Untitled project',
+  'library.copySuffix': '(copy)',
+  'library.mindMap': 'Mind map',
+  'library.infographic': 'Infographic',
+  'library.timeline': 'Timeline',
+
+  'notice.repaired': 'Automatically fixed {count} problems in the AI-generated data.',
+  'notice.repairedFile': 'Automatically fixed {count} problems in the mind map file.',
+  'notice.copied': 'Copied {format} to the clipboard.',
+  'notice.shareCopied': 'Share link copied. Recipients can view the result without an account or server.',
+  'notice.sharePrompt': 'Copy the share link:',
+  'notice.sharedCopySaved': 'A copy was saved to your library. You can now edit the map.',
+
+  'error.invalidShareLink': 'The share link is broken or no longer valid.',
+  'error.noTextInFile': 'No text was found in this file.',
+  'error.unreadableFile': 'This file could not be read. Try PDF, DOCX, HTML, SRT/VTT or a text file.',
+  'error.invalidMindMapFile': 'The file does not contain a valid mind map.',
+  'error.unreadableMindMapFile': 'This file could not be opened. Try OPML, FreeMind (.mm), Markdown or JSON.',
+  'error.emptyInput': 'Please enter some content to summarize.',
+  'error.emptyDocument': '{label} has no content yet.',
+  'error.summarize': 'Something went wrong while summarizing. Please try again.',
+  'error.mindMap': 'Something went wrong while creating the mind map. Please try again.',
+  'error.infographic': 'Something went wrong while creating the infographic. Please try again.',
+  'error.timeline': 'Something went wrong while creating the timeline. Please try again.',
+  'error.expand': 'This idea could not be expanded. Please try again.',
+  'error.clipboard': 'Could not copy to the clipboard.',
+  'error.exportInfographic': 'The infographic could not be exported. Please try again.',
+  'error.exportTimeline': 'The timeline could not be exported. Please try again.',
+  'error.shareLink': 'Share links cannot be created in this browser.',
+  'aiError.apiKey': 'The API key is missing or invalid. Set GEMINI_API_KEY in .env.local or choose another provider.',
+  'aiError.quota': 'The API rate limit or quota was exceeded, even after retrying. Wait a moment or choose another model.',
+  'aiError.safety': 'The model refused this content because of its safety filters. Edit or remove the sensitive parts of the text.',
+  'aiError.truncated': 'The answer was cut off because it was too long. Choose a shorter length or shorten the text.',
+  'aiError.malformed': 'The model returned badly formatted data, even after being asked to fix it. Try again or choose a stronger model.',
+  'aiError.offline': 'The AI server could not be reached. Check your network connection (or Ollama when running locally) and try again.',
+  'aiError.unavailable': 'The AI server is overloaded or temporarily down. Try again in a few minutes.',
+  'aiError.action.retry': 'Try again',
+  'aiError.action.openSettings': 'Open model settings',
+  'aiError.action.editInput': 'Edit text',
+  'aiError.action.shorten': 'Summarize shorter',
+};
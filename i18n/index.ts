@@ -0,0 +1,58 @@
+import { MessageKey, vi } from './vi';
+import { en } from './en';
+
+export type { MessageKey } from './vi';
+
+// UI translations. The active language lives in this module (and
+// localStorage); App keeps it in state as well so that changing it re-renders
+// every component that calls t().
+
+export type UILanguage = 'vi' | 'en';
+
+const MESSAGES: Record<UILanguage, Record<MessageKey, string>> = { vi, en };
+
+export const UI_LANGUAGES: Record<UILanguage, { label: string; locale: string }> = {
+  vi: { label: 'Tiếng Việt', locale: 'vi-VN' },
+  en: { label: 'English', locale: 'en-US' },
+};
+
+const STORAGE_KEY = 'ui-language';
+
+const isUILanguage = (value: unknown): value is UILanguage =>
+  typeof value === 'string' && value in MESSAGES;
+
+const readStoredLanguage = (): UILanguage => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isUILanguage(stored)) return stored;
+  } catch {
+    // Fall through to the default
+  }
+  return 'vi';
+};
+
+let currentLanguage: UILanguage | null = null;
+
+export const getUILanguage = (): UILanguage => {
+  if (!currentLanguage) currentLanguage = readStoredLanguage();
+  return currentLanguage;
+};
+
+export const setUILanguage = (language: UILanguage) => {
+  currentLanguage = language;
+  document.documentElement.lang = language;
+  try {
+    localStorage.setItem(STORAGE_KEY, language);
+  } catch {
+    // Storage can be unavailable (private mode); the choice still applies for this session
+  }
+};
+
+// Locale for number and date formatting in the current UI language
+export const getLocale = () => UI_LANGUAGES[getUILanguage()].locale;
+
+// Looks up a message and fills in {placeholders}
+export const t = (key: MessageKey, params: Record<string, string | number> = {}): string => {
+  const template = MESSAGES[getUILanguage()][key] ?? vi[key];
+  return template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+};
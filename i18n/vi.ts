@@ -0,0 +1,282 @@
+// Vietnamese UI strings. This is the reference locale: its keys define
+// MessageKey, and every other locale must translate all of them.
+export const vi = {
+  'app.title': 'Gemini Visualizer VN',
+  'app.shortTitle': 'GeminiVisuals',
+  'app.uiLanguage': 'Ngôn ngữ giao diện',
+
+  'input.label': 'Nhập nội dung của bạn ở đây',
+  'input.placeholder': 'Dán văn bản hoặc kéo thả tệp PDF, DOCX, HTML, SRT/VTT vào đây...',
+  'input.reading': 'Đang đọc tệp...',
+  'input.upload': 'Tải lên tệp văn bản',
+  'input.openMindMap': 'Mở sơ đồ tư duy có sẵn',
+  'input.openMindMapHint': 'OPML, FreeMind / XMind (.mm), Markdown hoặc JSON',
+  'input.summarize': 'Tóm tắt với Gemini',
+  'input.processing': 'Đang xử lý...',
+  'input.stop': 'Dừng',
+  'input.outputLanguage': 'Ngôn ngữ kết quả',
+  'input.outputLanguageAuto': 'Tự động (theo văn bản gốc)',
+  'input.detectedLanguage': 'Phát hiện: {language}',
+  'input.compare': 'So sánh nhiều tài liệu',
+  'input.compareHint': 'Tóm tắt từng tài liệu rồi gộp thành một sơ đồ, tô màu theo nguồn của từng ý',
+
+  'summary.label': 'Tóm tắt từ Gemini',
+  'summary.failed': 'Không thể tạo tóm tắt.',
+  'summary.createInfographic': 'Tạo Infographic',
+  'summary.createMindMap': 'Tạo Sơ đồ tư duy',
+  'summary.createTimeline': 'Tạo Dòng thời gian',
+  'summary.conceptMap': 'Dạng bản đồ khái niệm',
+  'summary.conceptMapHint': 'Sơ đồ tư duy ghi rõ quan hệ giữa các ý (gây ra, mâu thuẫn, là một phần của…) và nối các ý thuộc những nhánh khác nhau',
+  'summary.clickToCancel': 'Nhấn để hủy',
+  'summary.progressMap': 'Đang tóm tắt từng phần ({done}/{total})',
+  'summary.progressReduce': 'Đang hợp nhất các phần...',
+  'summary.part': 'Phần {index}',
+
+  'summaryStyle.title': 'Kiểu tóm tắt',
+  'summaryStyle.format': 'Định dạng',
+  'summaryStyle.length': 'Độ dài',
+  'summaryStyle.audience': 'Người đọc',
+  'summaryStyle.preset': 'Mẫu',
+  'summaryStyle.custom': 'Tùy chỉnh',
+  'summaryStyle.savePreset': 'Lưu thành mẫu',
+  'summaryStyle.presetName': 'Tên mẫu:',
+  'summaryStyle.deletePreset': 'Xóa mẫu',
+  'summaryStyle.applied': 'Kiểu: {style}',
+  'summaryStyle.format.paragraph': 'Đoạn văn',
+  'summaryStyle.format.bullets': 'Gạch đầu dòng',
+  'summaryStyle.format.tldr': 'TL;DR',
+  'summaryStyle.format.executive': 'Tóm lược cho lãnh đạo',
+  'summaryStyle.format.studyNotes': 'Ghi chú học tập',
+  'summaryStyle.length.short': 'Ngắn (~{words} từ)',
+  'summaryStyle.length.medium': 'Vừa (~{words} từ)',
+  'summaryStyle.length.long': 'Dài (~{words} từ)',
+  'summaryStyle.audience.beginner': 'Người mới',
+  'summaryStyle.audience.general': 'Phổ thông',
+  'summaryStyle.audience.expert': 'Chuyên gia',
+  'summaryStyle.preset.quick': 'Đọc nhanh',
+  'summaryStyle.preset.briefing': 'Báo cáo lãnh đạo',
+  'summaryStyle.preset.study': 'Ôn tập',
+
+  'document.text': 'Văn bản',
+  'document.subtitles': 'Phụ đề',
+  'document.remove': 'Bỏ tệp',
+  'document.pages': '{count} trang',
+  'document.characters': '{count} ký tự',
+  'document.pageMarker': '[Trang {page}]',
+
+  'visualizer.mindMapTitle': 'Sơ đồ Tư duy',
+  'visualizer.conceptMapTitle': 'Bản đồ Khái niệm',
+  'visualizer.comparisonTitle': 'Sơ đồ So sánh',
+  'visualizer.infographicTitle': 'Infographic Tổng quan',
+  'visualizer.mainTopic': 'Chủ đề chính',
+  'visualizer.mindMapCaption': 'Mô hình Gemini đã phân tích nội dung và tạo ra sơ đồ tư duy này.',
+  'visualizer.infographicCaption': 'Thông tin được trích xuất và tổng hợp bởi Gemini.',
+  'visualizer.timelineTitle': 'Dòng thời gian',
+  'visualizer.timelineCaption': 'Các sự kiện được Gemini trích xuất và sắp xếp theo thời gian.',
+  'visualizer.readOnly': 'Bạn đang xem một liên kết chia sẻ (chỉ xem). Sao chép để chỉnh sửa và lưu vào thư viện của bạn.',
+  'visualizer.new': 'Tạo mới',
+  'infographic.pros': 'Ưu điểm',
+  'infographic.cons': 'Nhược điểm',
+
+  'actions.title': 'Tùy chọn Hành động',
+  'actions.downloadSvg': 'Tải SVG',
+  'actions.downloadPng': 'Tải PNG ({scale}x)',
+  'actions.pngResolution': 'Độ phân giải PNG',
+  'actions.otherFormats': 'Xuất sang định dạng khác',
+  'actions.copy': 'Sao chép {format}',
+  'actions.copyHint': 'Sao chép để dán vào Obsidian, Notion hoặc tài liệu',
+  'actions.share': 'Chia sẻ',
+  'actions.edit': 'Chỉnh sửa',
+  'actions.editCopy': 'Sao chép để chỉnh sửa',
+
+  'settings.darkMode': 'Chế độ tối',
+  'settings.annotations': 'Hiển thị chú thích',
+  'settings.layout': 'Bố cục',
+
+  'layout.force': 'Tự do (lực hút)',
+  'layout.radial': 'Cây hình tròn',
+  'layout.tree': 'Cây trái sang phải',
+  'layout.mindmap': 'Sơ đồ hai phía',
+
+  'settings.infographicLayout': 'Bố cục infographic',
+
+  'infographicLayout.grid': 'Lưới thẻ',
+  'infographicLayout.poster': 'Áp phích dọc',
+  'infographicLayout.heroCards': 'Thẻ nổi bật và lưới',
+  'infographicLayout.steps': 'Các bước đánh số',
+  'infographicLayout.comparison': 'So sánh hai cột',
+  'settings.timelineOrientation': 'Hướng dòng thời gian',
+  'timelineOrientation.horizontal': 'Ngang',
+  'timelineOrientation.vertical': 'Dọc',
+
+  'theme.title': 'Giao diện',
+  'theme.palette': 'Bảng màu',
+  'theme.font': 'Phông chữ',
+  'theme.brandColors': 'Màu thương hiệu',
+  'theme.brandColor.primary': 'Màu chính',
+  'theme.brandColor.secondary': 'Màu phụ',
+  'theme.brandColor.accent': 'Màu nhấn',
+  'theme.brandName': 'Tên thương hiệu',
+  'theme.brandNamePlaceholder': 'Hiển thị ở đầu infographic',
+  'theme.logo': 'Logo',
+  'theme.uploadLogo': 'Tải logo lên',
+  'theme.removeLogo': 'Xóa logo',
+  'theme.logoInvalid': 'Logo phải là tệp ảnh nhỏ hơn {size}.',
+  'theme.saveFailed': 'Không thể lưu giao diện trên trình duyệt này; giao diện chỉ áp dụng cho phiên hiện tại.',
+
+  'theme.palette.glass': 'Kính mờ',
+  'theme.palette.ocean': 'Đại dương',
+  'theme.palette.forest': 'Rừng xanh',
+  'theme.palette.sunset': 'Hoàng hôn',
+  'theme.palette.mono': 'Đơn sắc',
+  'theme.palette.brand': 'Thương hiệu riêng',
+
+  'theme.font.system': 'Hệ thống',
+  'theme.font.serif': 'Có chân',
+  'theme.font.rounded': 'Mềm mại',
+  'theme.font.mono': 'Đơn cách',
+
+  'mindmap.newIdea': 'Ý mới',
+  'mindmap.expandBranch': 'Mở rộng nhánh',
+  'mindmap.collapseBranch': 'Thu gọn nhánh',
+  'mindmap.zoomIn': 'Phóng to',
+  'mindmap.zoomOut': 'Thu nhỏ',
+  'mindmap.fit': 'Vừa khung nhìn',
+  'timeline.zoomIn': 'Phóng to trục thời gian',
+  'timeline.zoomOut': 'Thu nhỏ trục thời gian',
+  'timeline.showAll': 'Xem toàn bộ',
+  'timeline.step': 'Bước {number}',
+  'timeline.ungrouped': 'Khác',
+  'conceptMap.legend': 'Quan hệ',
+  'conceptMap.filterHint': 'Bấm để ẩn hoặc hiện loại quan hệ này',
+  'conceptMap.crossLink': 'Liên kết giữa hai nhánh',
+  'relation.partOf': 'Là một phần của',
+  'relation.causes': 'Gây ra',
+  'relation.supports': 'Ủng hộ',
+  'relation.contradicts': 'Mâu thuẫn với',
+  'relation.example': 'Là ví dụ của',
+  'relation.related': 'Liên quan đến',
+  'compare.defaultLabel': 'Tài liệu {key}',
+  'compare.label': 'Tên tài liệu {key}',
+  'compare.placeholder': 'Dán nội dung hoặc thả tệp của tài liệu này vào đây...',
+  'compare.add': 'Thêm tài liệu',
+  'compare.remove': 'Bỏ tài liệu này',
+  'compare.summarizing': 'Đang tóm tắt {label} ({index}/{total})',
+  'compare.legend': 'Nguồn',
+  'compare.shared': 'Mọi tài liệu',
+  'compare.only': 'Chỉ {label}',
+  'compare.some': 'Một số tài liệu',
+  'compare.diffTitle': 'So sánh các bản tóm tắt',
+  'compare.diffLeft': 'Tài liệu bên trái',
+  'compare.diffRight': 'Tài liệu bên phải',
+  'compare.diffStats': '{same} ý giống nhau · {changed} ý khác một phần · {leftOnly} ý chỉ có ở {left} · {rightOnly} ý chỉ có ở {right}',
+  'compare.noMatch': 'Tài liệu kia không có ý tương ứng',
+  'compare.confirmLeave': 'Chỉ giữ lại nội dung của {label}. Các tài liệu khác, các bản tóm tắt và hình ảnh trực quan của chúng sẽ bị xóa. Tiếp tục?',
+  'compare.incomplete': 'Một số tài liệu chưa có bản tóm tắt. Hãy tóm tắt tất cả trước khi tạo hình ảnh trực quan.',
+  'compare.confirmEnter': 'Bản tóm tắt hiện tại và các hình ảnh trực quan của nó sẽ bị xóa. Tiếp tục?',
+  'mindmap.unpinAll': 'Bỏ ghim tất cả các nút',
+  'mindmap.expandWithAI': 'Mở rộng ý này bằng AI',
+  'mindmap.explain': 'Giải thích ý này',
+  'mindmap.addChild': 'Thêm nút con (Tab)',
+  'mindmap.rename': 'Đổi tên (Enter)',
+  'mindmap.delete': 'Xóa nhánh (Delete)',
+  'mindmap.untitled': 'Sơ đồ tư duy',
+
+  'explanation.loading': 'Đang giải thích...',
+  'explanation.none': 'Không thể tạo lời giải thích.',
+  'explanation.failed': 'Không thể tạo lời giải thích. Vui lòng thử lại.',
+
+  'grounding.viewSource': 'Xem nguồn',
+  'grounding.unsupported': 'Chưa tìm thấy nguồn trong văn bản gốc',
+  'grounding.unsupportedDetail': 'AI không chỉ ra được đoạn nào trong văn bản gốc ủng hộ ý này. Hãy kiểm tra lại trước khi sử dụng.',
+  'grounding.notChecked': 'Ý này được thêm thủ công hoặc nhập từ tệp nên không có nguồn để đối chiếu.',
+  'grounding.noSourceText': 'Không có văn bản gốc để hiển thị, chỉ có các đoạn trích.',
+  'grounding.badge': 'Chưa có nguồn',
+  'grounding.unsupportedCount': '{count} ý chưa có nguồn trong văn bản gốc',
+  'common.close': 'Đóng',
+  'common.loading': 'Đang tải...',
+
+  'provider.choose': 'Chọn mô hình AI',
+  'provider.provider': 'Nhà cung cấp',
+  'provider.model': 'Mô hình',
+  'provider.apiKeyOptional': 'Không bắt buộc với Ollama',
+  'provider.proxyUrl': 'Địa chỉ máy chủ proxy',
+  'provider.proxyUrlPlaceholder': 'Để trống nếu chạy cùng địa chỉ với ứng dụng',
+
+  'cache.title': 'Bộ nhớ đệm câu trả lời',
+  'cache.entries': '{count} câu trả lời · {size}',
+  'cache.session': 'Phiên này: {hits} lần dùng lại, {misses} lần gọi mô hình',
+  'cache.clear': 'Xóa bộ nhớ đệm',
+  'cache.unavailable': 'Không dùng được bộ nhớ đệm trong trình duyệt này.',
+  'cache.op.summarize': 'Tóm tắt',
+  'cache.op.mindmap': 'Sơ đồ',
+  'cache.op.conceptmap': 'Bản đồ khái niệm',
+  'cache.op.comparemap': 'Sơ đồ so sánh',
+  'cache.op.infographic': 'Infographic',
+  'cache.op.timeline': 'Dòng thời gian',
+  'cache.op.expand': 'Mở rộng',
+  'cache.op.explain': 'Giải thích',
+  'cache.op.ground': 'Trích dẫn nguồn',
+
+  'library.open': 'Thư viện',
+  'library.title': 'Thư viện dự án',
+  'library.search': 'Tìm theo tên, nội dung hoặc ý chính...',
+  'library.empty': 'Chưa có dự án nào. Dự án được lưu tự động khi bạn làm việc.',
+  'library.noMatch': 'Không tìm thấy dự án phù hợp.',
+  'library.rename': 'Đổi tên',
+  'library.saveName': 'Lưu tên',
+  'library.duplicate': 'Nhân bản',
+  'library.delete': 'Xóa',
+  'library.confirmDelete': 'Xóa dự án "{title}"? Không thể hoàn tác.',
+  'library.import': 'Nhập thư viện',
+  'library.export': 'Xuất thư viện',
+  'library.imported': 'Đã nhập {count} dự án.',
+  'library.invalidArchive': 'Tệp này không phải là bản lưu thư viện dự án.',
+  'library.unavailable': 'Không thể mở thư viện dự án trong trình duyệt này.',
+  'library.renameFailed': 'Không thể đổi tên dự án. Bộ nhớ trình duyệt có thể đã đầy.',
+  'library.duplicateFailed': 'Không thể nhân bản dự án. Bộ nhớ trình duyệt có thể đã đầy.',
+  'library.deleteFailed': 'Không thể xóa dự án.',
+  'library.exportFailed': 'Không thể xuất thư viện dự án.',
+  'library.untitled': 'Dự án chưa đặt tên',
+  'library.copySuffix': '(bản sao)',
+  'library.mindMap': 'Sơ đồ tư duy',
+  'library.infographic': 'Infographic',
+  'library.timeline': 'Dòng thời gian',
+
+  'notice.repaired': 'Đã tự động sửa {count} lỗi trong dữ liệu do AI tạo ra.',
+  'notice.repairedFile': 'Đã tự động sửa {count} lỗi trong tệp sơ đồ.',
+  'notice.copied': 'Đã sao chép {format} vào bộ nhớ tạm.',
+  'notice.shareCopied': 'Đã sao chép liên kết chia sẻ. Người nhận sẽ xem được kết quả mà không cần tài khoản hay máy chủ.',
+  'notice.sharePrompt': 'Sao chép liên kết chia sẻ:',
+  'notice.sharedCopySaved': 'Đã lưu bản sao vào thư viện. Bạn có thể chỉnh sửa sơ đồ.',
+
+  'error.invalidShareLink': 'Liên kết chia sẻ bị hỏng hoặc không còn hợp lệ.',
+  'error.noTextInFile': 'Không tìm thấy văn bản trong tệp này.',
+  'error.unreadableFile': 'Không thể đọc tệp này. Hãy thử PDF, DOCX, HTML, SRT/VTT hoặc tệp văn bản.',
+  'error.invalidMindMapFile': 'Tệp không chứa sơ đồ tư duy hợp lệ.',
+  'error.unreadableMindMapFile': 'Không thể mở tệp này. Hãy thử OPML, FreeMind (.mm), Markdown hoặc JSON.',
+  'error.emptyInput': 'Vui lòng nhập nội dung để tóm tắt.',
+  'error.emptyDocument': '{label} chưa có nội dung.',
+  'error.summarize': 'Có lỗi xảy ra khi tóm tắt. Vui lòng thử lại.',
+  'error.mindMap': 'Có lỗi xảy ra khi tạo sơ đồ. Vui lòng thử lại.',
+  'error.infographic': 'Có lỗi xảy ra khi tạo infographic. Vui lòng thử lại.',
+  'error.timeline': 'Có lỗi xảy ra khi tạo dòng thời gian. Vui lòng thử lại.',
+  'error.expand': 'Không thể mở rộng ý này. Vui lòng thử lại.',
+  'error.clipboard': 'Không thể sao chép vào bộ nhớ tạm.',
+  'error.exportInfographic': 'Không thể xuất infographic. Vui lòng thử lại.',
+  'error.exportTimeline': 'Không thể xuất dòng thời gian. Vui lòng thử lại.',
+  'error.shareLink': 'Không thể tạo liên kết chia sẻ trong trình duyệt này.',
+  'aiError.apiKey': 'Thiếu hoặc sai khóa API. Hãy đặt GEMINI_API_KEY trong .env.local hoặc chọn nhà cung cấp khác.',
+  'aiError.quota': 'Đã vượt giới hạn tốc độ hoặc hạn mức của API, kể cả sau khi tự thử lại. Hãy đợi một lát hoặc chọn mô hình khác.',
+  'aiError.safety': 'Mô hình từ chối xử lý nội dung này do bộ lọc an toàn. Hãy sửa hoặc bỏ bớt phần nhạy cảm trong văn bản.',
+  'aiError.truncated': 'Câu trả lời bị cắt giữa chừng vì quá dài. Hãy chọn độ dài ngắn hơn hoặc rút gọn văn bản.',
+  'aiError.malformed': 'Mô hình trả về dữ liệu sai định dạng, kể cả sau khi được yêu cầu sửa. Hãy thử lại hoặc chọn mô hình mạnh hơn.',
+  'aiError.offline': 'Không kết nối được tới máy chủ AI. Hãy kiểm tra kết nối mạng (hoặc Ollama nếu chạy cục bộ) rồi thử lại.',
+  'aiError.unavailable': 'Máy chủ AI đang quá tải hoặc tạm thời gián đoạn. Hãy thử lại sau ít phút.',
+  'aiError.action.retry': 'Thử lại',
+  'aiError.action.openSettings': 'Mở cài đặt mô hình',
+  'aiError.action.editInput': 'Sửa văn bản',
+  'aiError.action.shorten': 'Tóm tắt ngắn hơn',
+};
+
+export type MessageKey = keyof typeof vi;
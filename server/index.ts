@@ -0,0 +1,192 @@
+import { IncomingMessage, ServerResponse, createServer } from "node:http";
+import { geminiProvider } from "../services/providers/geminiProvider";
+import { AIErrorKind, createAIError, toAIError } from "../services/providers/errors";
+import { ProxyMessage, ProxyRequest, ProxyResponse } from "../services/providers/proxyProvider";
+import { AIOperation } from "../services/providers/types";
+import { BuiltPrompt, buildPrompt, readPromptInput } from "../services/prompts";
+import { createRateLimiter } from "./rateLimit";
+
+// Companion server for the app's "proxy" provider. It holds the Gemini key,
+// rate limits each client and runs the app's operations on Gemini, so the key
+// is never shipped to the browser. Clients send only an operation's inputs;
+// the prompt and response schema are built here. Start it with `npm run server`.
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // Variables can also come from the environment itself
+}
+// geminiProvider reads the key under the name the client bundle uses
+process.env.API_KEY ||= process.env.GEMINI_API_KEY;
+
+const PORT = Number(process.env.PROXY_PORT) || 8787;
+const RATE_LIMIT = Number(process.env.RATE_LIMIT) || 10; // Requests per client per minute
+const RATE_WINDOW_MS = 60 * 1000;
+// Origins allowed to call the server from another host; the dev server proxies /api instead
+const ALLOWED_ORIGINS = (process.env.ALLOWED_ORIGINS || '').split(',').map(o => o.trim()).filter(Boolean);
+// Behind a reverse proxy every request comes from the proxy, so the client is read from X-Forwarded-For
+const TRUST_PROXY = process.env.TRUST_PROXY === 'true';
+
+const OPERATIONS: AIOperation[] = ['summarize', 'mindmap', 'conceptmap', 'comparemap', 'infographic', 'timeline', 'expand', 'explain', 'ground'];
+const MAX_BODY_BYTES = 1024 * 1024;
+const MAX_PROMPT_LENGTH = 200000;
+
+const STATUS_BY_KIND: Record<AIErrorKind, number> = {
+  apiKey: 500, // The server's key, not something the client can fix
+  quota: 429,
+  safety: 422,
+  truncated: 422,
+  malformed: 422,
+  offline: 503,
+  unavailable: 503,
+  unknown: 500,
+};
+
+const rateLimiter = createRateLimiter(RATE_LIMIT, RATE_WINDOW_MS);
+
+const clientId = (req: IncomingMessage) => {
+  const forwarded = req.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+  return (TRUST_PROXY && first) || req.socket.remoteAddress || 'unknown';
+};
+
+const sendJson = (res: ServerResponse, status: number, body: ProxyResponse) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, status: number, kind: AIErrorKind, error: string) =>
+  sendJson(res, status, { error, kind });
+
+const readBody = (req: IncomingMessage) =>
+  new Promise<string>((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error("Request body too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+// Only the app's own prompts, for the models the app offers, are run, so the
+// key cannot be used for anything else or anything more expensive
+const parseRequest = (body: string, operation: AIOperation): ProxyRequest & BuiltPrompt => {
+  const request = JSON.parse(body);
+  const input = readPromptInput(request?.input);
+  if (!input || !input.text.trim()) throw new Error("Invalid input");
+  if (!geminiProvider.models.includes(request.model)) throw new Error(`Model not allowed: ${request.model}`);
+  const { prompt, responseSchema } = buildPrompt(operation, input);
+  if (prompt.length > MAX_PROMPT_LENGTH) throw new Error("Input too long");
+  return {
+    model: request.model,
+    input,
+    stream: request.stream === true,
+    prompt,
+    responseSchema,
+  };
+};
+
+const handleGenerate = async (req: IncomingMessage, res: ServerResponse, operation: AIOperation) => {
+  const limit = rateLimiter.take(clientId(req));
+  if (!limit.allowed) {
+    res.setHeader('Retry-After', Math.ceil(limit.retryAfterMs / 1000));
+    sendError(res, 429, 'quota', "Too many requests");
+    return;
+  }
+
+  let request: ProxyRequest & BuiltPrompt;
+  try {
+    request = parseRequest(await readBody(req), operation);
+  } catch (e) {
+    sendError(res, 400, 'unknown', e instanceof Error ? e.message : String(e));
+    return;
+  }
+
+  // Stop paying for an answer nobody is waiting for
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  const writeMessage = (message: ProxyMessage) => res.write(`${JSON.stringify(message)}\n`);
+
+  try {
+    const text = await geminiProvider.generate({
+      operation,
+      model: request.model,
+      prompt: request.prompt,
+      input: request.input,
+      responseSchema: request.responseSchema,
+      signal: controller.signal,
+      onText: request.stream
+        ? (delta: string) => {
+            if (!res.headersSent) res.writeHead(200, { 'Content-Type': 'application/x-ndjson; charset=utf-8' });
+            writeMessage({ text: delta });
+          }
+        : undefined,
+    }, { provider: 'gemini', model: request.model });
+
+    if (!request.stream) {
+      sendJson(res, 200, { text });
+    } else if (!res.headersSent) {
+      // Nothing was streamed, e.g. an empty answer
+      res.writeHead(200, { 'Content-Type': 'application/x-ndjson; charset=utf-8' });
+      res.end();
+    } else {
+      res.end();
+    }
+  } catch (e) {
+    if (controller.signal.aborted) return;
+    console.error(`Proxy ${operation} error:`, e);
+    // Only the kind and a short message reach the client, never the upstream details.
+    // Gemini being unreachable from here is not the client's network problem.
+    const upstreamKind = toAIError(e).kind;
+    const kind: AIErrorKind = upstreamKind === 'offline' ? 'unavailable' : upstreamKind;
+    const error = createAIError(kind, `Gemini request failed (${kind})`);
+    if (res.headersSent) {
+      writeMessage({ error: error.message, kind });
+      res.end();
+    } else {
+      sendError(res, STATUS_BY_KIND[kind], kind, error.message);
+    }
+  }
+};
+
+const server = createServer((req, res) => {
+  const origin = req.headers.origin;
+  if (origin && ALLOWED_ORIGINS.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    res.setHeader('Access-Control-Expose-Headers', 'Retry-After');
+    res.setHeader('Vary', 'Origin');
+  }
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  const operation = req.url?.match(/^\/api\/([a-z]+)\/?(?:\?.*)?$/)?.[1] as AIOperation | undefined;
+  if (req.method !== 'POST' || !operation || !OPERATIONS.includes(operation)) {
+    sendError(res, 404, 'unknown', "Not found");
+    return;
+  }
+
+  handleGenerate(req, res, operation).catch(e => {
+    console.error("Proxy server error:", e);
+    if (!res.headersSent) sendError(res, 500, 'unknown', "Internal error");
+    else res.end();
+  });
+});
+
+server.listen(PORT, () => {
+  if (!process.env.API_KEY) console.warn("GEMINI_API_KEY is not set; every request will fail");
+  console.log(`Proxy server listening on http://localhost:${PORT} (${RATE_LIMIT} requests per client per minute)`);
+});
@@ -0,0 +1,50 @@
+// Per-client token bucket. Each client can send `limit` requests in a burst,
+// and its allowance refills evenly over `windowMs`.
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterMs: number; // Until the next request would be allowed, 0 when allowed
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Full buckets carry no information, so they are dropped once this many clients are tracked
+const MAX_TRACKED_CLIENTS = 10000;
+
+export const createRateLimiter = (limit: number, windowMs: number) => {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = limit / windowMs;
+
+  const refill = (bucket: Bucket, now: number) => {
+    bucket.tokens = Math.min(limit, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+  };
+
+  const pruneFullBuckets = (now: number) => {
+    buckets.forEach((bucket, clientId) => {
+      refill(bucket, now);
+      if (bucket.tokens >= limit) buckets.delete(clientId);
+    });
+  };
+
+  const take = (clientId: string, now: number = Date.now()): RateLimitResult => {
+    let bucket = buckets.get(clientId);
+    if (!bucket) {
+      if (buckets.size >= MAX_TRACKED_CLIENTS) pruneFullBuckets(now);
+      bucket = { tokens: limit, updatedAt: now };
+      buckets.set(clientId, bucket);
+    }
+
+    refill(bucket, now);
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return { allowed: true, retryAfterMs: 0 };
+    }
+    return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs) };
+  };
+
+  return { take };
+};
@@ -0,0 +1,12 @@
+import { defineConfig } from 'vite';
+
+// Bundles the proxy server (server/index.ts) for Node. Dependencies stay
+// external and are loaded from node_modules at runtime.
+export default defineConfig({
+  build: {
+    ssr: 'server/index.ts',
+    outDir: 'dist-server',
+    emptyOutDir: true,
+    target: 'node20',
+  },
+});
@@ -0,0 +1,81 @@
+// Splits long documents into chunks that fit comfortably in one prompt.
+// Boundaries prefer headings, then paragraphs, then sentences, so each chunk
+// stays a readable unit that can be summarized on its own.
+
+export interface TextChunk {
+  index: number;
+  title?: string; // First heading inside the chunk, if any
+  text: string;
+}
+
+// ~3k tokens of Vietnamese or English text per chunk
+export const DEFAULT_CHUNK_SIZE = 12000;
+
+const isHeading = (block: string) => /^#{1,6}\s+/.test(block) || /\n[=-]{3,}$/.test(block);
+
+const headingText = (block: string) =>
+  block.split('\n')[0].replace(/^#{1,6}\s+/, '').trim();
+
+// Paragraph-sized blocks; a heading always starts a new block
+const splitBlocks = (text: string): string[] =>
+  text
+    .replace(/\r\n/g, '\n')
+    .split(/\n\s*\n|(?=^#{1,6}\s)/m)
+    .map(b => b.trim())
+    .filter(b => b.length > 0);
+
+// Last resort for a single paragraph longer than the chunk size
+const splitOversized = (block: string, maxChars: number): string[] => {
+  const parts: string[] = [];
+  let current = '';
+  for (const sentence of block.split(/(?<=[.!?…])\s+/)) {
+    if (current && current.length + sentence.length + 1 > maxChars) {
+      parts.push(current);
+      current = '';
+    }
+    if (sentence.length > maxChars) {
+      for (let i = 0; i < sentence.length; i += maxChars) parts.push(sentence.slice(i, i + maxChars));
+      continue;
+    }
+    current = current ? `${current} ${sentence}` : sentence;
+  }
+  if (current) parts.push(current);
+  return parts;
+};
+
+export const needsChunking = (text: string, maxChars: number = DEFAULT_CHUNK_SIZE) =>
+  text.length > maxChars;
+
+export const splitIntoChunks = (text: string, maxChars: number = DEFAULT_CHUNK_SIZE): TextChunk[] => {
+  const chunks: TextChunk[] = [];
+  let blocks: string[] = [];
+  let size = 0;
+
+  const flush = () => {
+    if (blocks.length === 0) return;
+    const heading = blocks.find(isHeading);
+    chunks.push({
+      index: chunks.length,
+      title: heading ? headingText(heading) : undefined,
+      text: blocks.join('\n\n'),
+    });
+    blocks = [];
+    size = 0;
+  };
+
+  for (const block of splitBlocks(text)) {
+    const pieces = block.length > maxChars ? splitOversized(block, maxChars) : [block];
+    for (const piece of pieces) {
+      // Start a new chunk at a heading once the current one is reasonably full
+      const startsSection = isHeading(piece) && size > maxChars / 2;
+      if (blocks.length > 0 && (size + piece.length > maxChars || startsSection)) {
+        flush();
+      }
+      blocks.push(piece);
+      size += piece.length + 2;
+    }
+  }
+  flush();
+
+  return chunks;
+};
@@ -0,0 +1,100 @@
+import { GraphData, LinkData, RelationType } from "../types";
+import { RELATION_TYPES } from "./validation";
+import { MessageKey, t } from "../i18n";
+
+// Drawing of concept map relations, shared by MindMapGraph and the SVG
+// export. Relations are directed: a line from the source node's edge to an
+// arrowhead at the target's, colored and dashed by type, thicker for strong
+// relations. Cross-links bend away from the straight line so they stand out
+// from the tree they cut across.
+
+export interface RelationStyle {
+  color: string;
+  dash?: string;
+}
+
+// Fixed colors, distinct from every theme's node colors
+export const RELATION_STYLES: Record<RelationType, RelationStyle> = {
+  partOf: { color: '#6366f1' },
+  causes: { color: '#f97316' },
+  supports: { color: '#10b981' },
+  contradicts: { color: '#ef4444', dash: '6 4' },
+  example: { color: '#0ea5e9', dash: '2 4' },
+  related: { color: '#a855f7', dash: '8 4' },
+};
+
+export const isRelation = (link: LinkData) => link.type !== undefined;
+
+export const isConceptMap = (data: GraphData) => data.links.some(isRelation);
+
+// Types in use, in legend order
+export const relationTypesIn = (links: LinkData[]): RelationType[] =>
+  RELATION_TYPES.filter(type => links.some(l => l.type === type));
+
+export const relationLabel = (type: RelationType) => t(`relation.${type}` as MessageKey);
+
+// Stroke width from 1.5 for the weakest to 4 for the strongest relation
+export const relationWidth = (link: LinkData) => 1.5 + 2.5 * (link.weight ?? 0.5);
+
+// Size of the arrowhead, drawn in user space so thick lines do not blow it up
+export const ARROW_SIZE = 8;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+export interface EdgeGeometry {
+  path: string; // SVG path data
+  label: Point; // Middle of the edge, where its label goes
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// Sideways bend of a cross-link, as a share of the distance between its nodes
+const CURVE = 0.2;
+
+// Path between two node circles, stopping at their edges. Returns null when
+// the circles overlap and there is nothing to draw.
+export const edgeGeometry = (
+  source: Point,
+  target: Point,
+  sourceRadius: number,
+  targetRadius: number,
+  curved: boolean = false
+): EdgeGeometry | null => {
+  const dx = target.x - source.x;
+  const dy = target.y - source.y;
+  const distance = Math.hypot(dx, dy);
+  if (distance <= sourceRadius + targetRadius) return null;
+
+  // Control point of the bend, and the directions the line leaves and enters the nodes from
+  const control = curved
+    ? { x: (source.x + target.x) / 2 - dy * CURVE, y: (source.y + target.y) / 2 + dx * CURVE }
+    : null;
+  const towards = (from: Point, to: Point, length: number) => {
+    const d = Math.hypot(to.x - from.x, to.y - from.y) || 1;
+    return { x: from.x + ((to.x - from.x) / d) * length, y: from.y + ((to.y - from.y) / d) * length };
+  };
+  const start = towards(source, control || target, sourceRadius);
+  const end = towards(target, control || source, targetRadius);
+
+  if (!control) {
+    return {
+      path: `M${round(start.x)},${round(start.y)}L${round(end.x)},${round(end.y)}`,
+      label: { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 },
+    };
+  }
+  return {
+    path: `M${round(start.x)},${round(start.y)}Q${round(control.x)},${round(control.y)} ${round(end.x)},${round(end.y)}`,
+    // The point halfway along a quadratic curve
+    label: { x: 0.25 * start.x + 0.5 * control.x + 0.25 * end.x, y: 0.25 * start.y + 0.5 * control.y + 0.25 * end.y },
+  };
+};
+
+export const arrowMarkerId = (type: RelationType) => `relation-arrow-${type}`;
+
+// <marker> definitions for the arrowheads, one per type since a marker cannot
+// take the color of the line it is on
+export const arrowMarkerSvg = (type: RelationType) =>
+  `<marker id="${arrowMarkerId(type)}" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="${ARROW_SIZE}" markerHeight="${ARROW_SIZE}" markerUnits="userSpaceOnUse" orient="auto"><path d="M0,0L10,5L0,10z" fill="${RELATION_STYLES[type].color}"/></marker>`;
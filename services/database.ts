@@ -0,0 +1,51 @@
+// The app's IndexedDB database, shared by the project library and the
+// response cache. Each feature owns one object store.
+
+const DB_NAME = 'gemini-visualizer';
+const DB_VERSION = 2;
+
+export const PROJECTS_STORE = 'projects';
+export const RESPONSES_STORE = 'responses';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (databasePromise) return databasePromise;
+
+  databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    // Stores are added per version, so upgrading keeps existing data
+    request.onupgradeneeded = () => {
+      const database = request.result;
+      if (!database.objectStoreNames.contains(PROJECTS_STORE)) {
+        const projects = database.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        projects.createIndex('updatedAt', 'updatedAt');
+      }
+      if (!database.objectStoreNames.contains(RESPONSES_STORE)) {
+        const responses = database.createObjectStore(RESPONSES_STORE, { keyPath: 'key' });
+        responses.createIndex('createdAt', 'createdAt');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // Let a later call retry if the database could not be opened
+  databasePromise.catch(() => { databasePromise = null; });
+  return databasePromise;
+};
+
+// Runs one request in its own transaction and resolves once it is committed
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const database = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = database.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
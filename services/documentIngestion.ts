@@ -0,0 +1,322 @@
+import { DocumentFormat, IngestedDocument } from "../types";
+import { t } from "../i18n";
+
+// Client-side text extraction for uploaded files. Each extractor keeps the
+// structure the summarizer and chunker rely on: headings become Markdown "#"
+// lines, list items "- " lines, PDF pages get a page marker and subtitles are
+// grouped into timestamped paragraphs. Heavy parsers are loaded on demand.
+
+export const ACCEPTED_EXTENSIONS = ['.txt', '.md', '.json', '.pdf', '.docx', '.html', '.htm', '.srt', '.vtt'];
+
+const FORMAT_BY_EXTENSION: Record<string, DocumentFormat> = {
+  txt: 'text',
+  md: 'markdown',
+  json: 'text',
+  pdf: 'pdf',
+  docx: 'docx',
+  html: 'html',
+  htm: 'html',
+  srt: 'subtitles',
+  vtt: 'subtitles',
+};
+
+export const detectFormat = (file: File): DocumentFormat | null => {
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  if (FORMAT_BY_EXTENSION[extension]) return FORMAT_BY_EXTENSION[extension];
+  if (file.type === 'application/pdf') return 'pdf';
+  if (file.type === 'text/html') return 'html';
+  if (file.type.startsWith('text/')) return 'text';
+  return null;
+};
+
+// Collapses runs of blank lines and trailing spaces left over by the extractors
+const tidy = (text: string) =>
+  text
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+// ---------------------------------------------------------------------------
+// PDF
+// ---------------------------------------------------------------------------
+
+interface PdfLine {
+  text: string;
+  height: number;
+}
+
+declare global {
+  // pdf.js skips creating a worker when its worker module is set here
+  var pdfjsWorker: unknown;
+}
+
+const extractPdf = async (file: File): Promise<{ text: string; pageCount: number }> => {
+  const pdfjs = await import('pdfjs-dist');
+  // Run the parser on the main thread; this works the same with the bundler
+  // and with the import map, and extraction is short-lived anyway.
+  if (!globalThis.pdfjsWorker) {
+    globalThis.pdfjsWorker = await import('pdfjs-dist/build/pdf.worker.min.mjs');
+  }
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const pages: string[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+
+      // Rebuild lines from positioned text runs
+      const lines: PdfLine[] = [];
+      let current: PdfLine = { text: '', height: 0 };
+      let lastY: number | null = null;
+
+      for (const item of content.items) {
+        if (!('str' in item)) continue;
+        const y = item.transform[5];
+        if (lastY !== null && Math.abs(y - lastY) > item.height * 0.5 && current.text.trim()) {
+          lines.push(current);
+          current = { text: '', height: 0 };
+        }
+        current.text += item.str;
+        current.height = Math.max(current.height, item.height);
+        lastY = y;
+        if (item.hasEOL && current.text.trim()) {
+          lines.push(current);
+          current = { text: '', height: 0 };
+          lastY = null;
+        }
+      }
+      if (current.text.trim()) lines.push(current);
+
+      // Lines set noticeably larger than the body text are treated as headings
+      const heights = lines.map(l => l.height).sort((a, b) => a - b);
+      const bodyHeight = heights[Math.floor(heights.length / 2)] || 0;
+      const text = lines
+        .map(line => {
+          const value = line.text.trim();
+          if (bodyHeight && line.height > bodyHeight * 1.3 && value.length < 120) {
+            return `\n## ${value}\n`;
+          }
+          return /^[•●▪◦–-]\s*/.test(value) ? value.replace(/^[•●▪◦–-]\s*/, '- ') : value;
+        })
+        .join('\n');
+
+      pages.push(`${t('document.pageMarker', { page: pageNumber })}\n${text}`);
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return { text: tidy(pages.join('\n\n')), pageCount: pdf.numPages };
+};
+
+// ---------------------------------------------------------------------------
+// DOCX
+// ---------------------------------------------------------------------------
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const wordChildren = (element: Element, localName: string) =>
+  Array.from(element.getElementsByTagNameNS(WORD_NS, localName));
+
+const paragraphText = (paragraph: Element) => {
+  let text = '';
+  paragraph.querySelectorAll('*').forEach(node => {
+    if (node.namespaceURI !== WORD_NS) return;
+    if (node.localName === 't') text += node.textContent || '';
+    if (node.localName === 'tab') text += '\t';
+    if (node.localName === 'br') text += '\n';
+  });
+  return text.trim();
+};
+
+const extractDocx = async (file: File): Promise<{ text: string }> => {
+  const { default: JSZip } = await import('jszip');
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const documentXml = await zip.file('word/document.xml')?.async('string');
+  if (!documentXml) throw new Error("Not a Word document: word/document.xml is missing");
+
+  const xml = new DOMParser().parseFromString(documentXml, 'application/xml');
+  const body = xml.getElementsByTagNameNS(WORD_NS, 'body')[0];
+  if (!body) return { text: '' };
+
+  const blocks: string[] = [];
+  Array.from(body.children).forEach(block => {
+    if (block.localName === 'tbl') {
+      wordChildren(block, 'tr').forEach(row => {
+        blocks.push(wordChildren(row, 'tc').map(cell => wordChildren(cell, 'p').map(paragraphText).join(' ')).join(' | '));
+      });
+      blocks.push('');
+      return;
+    }
+    if (block.localName !== 'p') return;
+
+    const text = paragraphText(block);
+    if (!text) {
+      blocks.push('');
+      return;
+    }
+
+    const style = wordChildren(block, 'pStyle')[0]?.getAttributeNS(WORD_NS, 'val') || '';
+    const headingLevel = /^(Heading|Title)(\d)?$/i.exec(style);
+    if (headingLevel) {
+      const level = Math.min(Number(headingLevel[2] || 1), 6);
+      blocks.push('', `${'#'.repeat(level)} ${text}`, '');
+    } else if (wordChildren(block, 'numPr').length > 0 || /^List/i.test(style)) {
+      blocks.push(`- ${text}`);
+    } else {
+      blocks.push(text, '');
+    }
+  });
+
+  return { text: tidy(blocks.join('\n')) };
+};
+
+// ---------------------------------------------------------------------------
+// HTML
+// ---------------------------------------------------------------------------
+
+const SKIPPED_HTML_TAGS = new Set(['script', 'style', 'noscript', 'template', 'svg', 'nav', 'iframe']);
+
+const htmlToText = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const out: string[] = [];
+
+  const walk = (node: Node, listDepth: number) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      out.push((node.textContent || '').replace(/\s+/g, ' '));
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const element = node as Element;
+    const tag = element.tagName.toLowerCase();
+    if (SKIPPED_HTML_TAGS.has(tag)) return;
+
+    const heading = /^h([1-6])$/.exec(tag);
+    if (heading) {
+      out.push(`\n\n${'#'.repeat(Number(heading[1]))} ${(element.textContent || '').trim()}\n\n`);
+      return;
+    }
+    if (tag === 'br') {
+      out.push('\n');
+      return;
+    }
+    if (tag === 'li') {
+      const ordered = element.parentElement?.tagName.toLowerCase() === 'ol';
+      const index = Array.from(element.parentElement?.children || []).indexOf(element) + 1;
+      out.push(`\n${'  '.repeat(Math.max(listDepth - 1, 0))}${ordered ? `${index}.` : '-'} `);
+    }
+
+    const isBlock = /^(p|div|section|article|header|footer|main|aside|blockquote|pre|tr|table|ul|ol|dl|dt|dd|figure|figcaption)$/.test(tag);
+    if (isBlock) out.push('\n');
+    const nextDepth = tag === 'ul' || tag === 'ol' ? listDepth + 1 : listDepth;
+    element.childNodes.forEach(child => walk(child, nextDepth));
+    if (tag === 'td' || tag === 'th') out.push(' | ');
+    if (isBlock) out.push('\n');
+  };
+
+  walk(doc.body, 0);
+
+  const title = doc.title.trim();
+  const text = out.join('').split('\n').map(line => line.trim().replace(/\s*\|\s*$/, '')).join('\n');
+  return tidy(title && !text.startsWith(`# ${title}`) ? `# ${title}\n\n${text}` : text);
+};
+
+// ---------------------------------------------------------------------------
+// SRT / VTT subtitles
+// ---------------------------------------------------------------------------
+
+const TIMESTAMP_PATTERN = /(\d{1,2}:)?(\d{1,2}):(\d{2})[.,](\d{3})\s*-->\s*(\d{1,2}:)?(\d{1,2}):(\d{2})[.,](\d{3})/;
+
+// A pause this long between cues starts a new paragraph
+const PARAGRAPH_GAP_SECONDS = 4;
+
+const toSeconds = (hours: string | undefined, minutes: string, seconds: string) =>
+  Number((hours || '0:').slice(0, -1)) * 3600 + Number(minutes) * 60 + Number(seconds);
+
+const formatTimestamp = (totalSeconds: number) => {
+  const h = Math.floor(totalSeconds / 3600);
+  const m = Math.floor((totalSeconds % 3600) / 60);
+  const s = Math.floor(totalSeconds % 60);
+  return [h, m, s].map(v => String(v).padStart(2, '0')).join(':');
+};
+
+const subtitlesToText = (source: string): string => {
+  const cues = source.replace(/\r\n/g, '\n').split(/\n\s*\n/);
+  const paragraphs: { start: number; lines: string[] }[] = [];
+  let lastEnd = -Infinity;
+  let lastLine = '';
+
+  cues.forEach(cue => {
+    const lines = cue.split('\n');
+    const timingIndex = lines.findIndex(line => TIMESTAMP_PATTERN.test(line));
+    if (timingIndex === -1) return; // WEBVTT header, NOTE and STYLE blocks
+
+    const [, sh, sm, ss, , eh, em, es] = TIMESTAMP_PATTERN.exec(lines[timingIndex])!;
+    const start = toSeconds(sh, sm, ss);
+    const text = lines
+      .slice(timingIndex + 1)
+      .join(' ')
+      .replace(/<[^>]+>/g, '')
+      .replace(/\{\\[^}]*\}/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    if (text && text !== lastLine) {
+      if (paragraphs.length === 0 || start - lastEnd >= PARAGRAPH_GAP_SECONDS) {
+        paragraphs.push({ start, lines: [] });
+      }
+      paragraphs[paragraphs.length - 1].lines.push(text);
+      lastLine = text;
+    }
+    lastEnd = toSeconds(eh, em, es);
+  });
+
+  return paragraphs
+    .map(p => `[${formatTimestamp(p.start)}] ${p.lines.join(' ')}`)
+    .join('\n\n');
+};
+
+// ---------------------------------------------------------------------------
+
+export const ingestFile = async (file: File): Promise<IngestedDocument> => {
+  const format = detectFormat(file);
+  if (!format) {
+    throw new Error(`Unsupported file type: ${file.name}`);
+  }
+
+  let text = '';
+  let pageCount: number | undefined;
+
+  switch (format) {
+    case 'pdf': {
+      const result = await extractPdf(file);
+      text = result.text;
+      pageCount = result.pageCount;
+      break;
+    }
+    case 'docx':
+      text = (await extractDocx(file)).text;
+      break;
+    case 'html':
+      text = htmlToText(await file.text());
+      break;
+    case 'subtitles':
+      text = subtitlesToText(await file.text());
+      break;
+    default:
+      text = await file.text();
+  }
+
+  return {
+    name: file.name,
+    format,
+    size: file.size,
+    pageCount,
+    text,
+    charCount: text.length,
+  };
+};
@@ -0,0 +1,14 @@
+// Saves generated content as a file through a temporary link
+export const downloadBlob = (content: Blob | string, filename: string, mimeType: string = 'text/plain') => {
+  const blob = typeof content === 'string'
+    ? new Blob([content], { type: `${mimeType};charset=utf-8` })
+    : content;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
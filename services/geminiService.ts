@@ -1,122 +1,444 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { GraphData, InfographicItem } from "../types";
+import { Schema } from "@google/genai";
+import { ComparedDocument, GraphData, InfographicItem, LanguageCode, NodeExpansion, OutputLanguage, SectionSummary, SourceSpan, SummaryProgress, SummaryResult, SummaryStyle, TimelineEntry } from "../types";
+import { AIOperation, AIRequest, GroundingIdea, PromptInput, createAIError, getActiveProvider, toAIError, withRetry } from "./providers";
+import { needsChunking, splitIntoChunks } from "./chunking";
+import { getAncestorPath, getTreeInfo } from "./graphEditing";
+import { DEFAULT_OUTPUT_LANGUAGE, resolveOutputLanguage } from "./language";
+import { DEFAULT_SUMMARY_STYLE } from "./summaryStyle";
+import { deleteCachedResponse, getCachedResponse, hashKey, putCachedResponse } from "./responseCache";
+import { combineSummaries, documentBodies, documentRefs } from "./multiDocument";
+import { GROUNDING_EXCERPT, MAX_GROUNDING_IDEAS, buildPrompt, sourceExcerpt } from "./prompts";
+import { MAX_SOURCES, isUnsupported } from "./grounding";
+import { t } from "../i18n";
+import { ValidationIssue, ValidationResult, validateGraphData, validateInfographicItems, validateGrounding, validateNodeExpansion, validateTimeline } from "./validation";
 
-// Initialize the API client
-// Note: process.env.API_KEY is assumed to be available
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export interface GenerationOptions {
+  onIssues?: (issues: ValidationIssue[]) => void; // Problems that were repaired automatically
+  sections?: SectionSummary[]; // Per-chunk summaries of a long document, used for a deeper structure
+  language?: OutputLanguage; // Language of the generated labels and text
+  style?: SummaryStyle; // Style the summary was written with, so the visuals keep its intent
+  sourceText?: string; // Original text; generated ideas quote it so they can be checked
+  signal?: AbortSignal;
+}
+
+export interface SummarizeOptions {
+  onProgress?: (progress: SummaryProgress) => void;
+  onText?: (partialSummary: string) => void; // Called with the summary so far while it streams in
+  language?: OutputLanguage;
+  style?: SummaryStyle;
+  signal?: AbortSignal;
+}
+
+type RequestExtras = Pick<AIRequest, 'signal' | 'onText'>;
+
+export const isAbortError = (error: unknown) =>
+  error instanceof Error && error.name === 'AbortError';
+
+// How many times the model is asked again when its answer cannot be repaired
+const MAX_REPAIR_RETRIES = 2;
+
+// Part of every cache key. Bump an operation's version whenever its prompt,
+// schema or validator changes in a way that makes earlier answers unfit.
+const PROMPT_VERSIONS: Record<AIOperation, number> = {
+  summarize: 1,
+  mindmap: 1,
+  conceptmap: 1,
+  comparemap: 1,
+  infographic: 2,
+  timeline: 1,
+  expand: 1,
+  explain: 1,
+  ground: 1,
+};
+
+// The prompt already contains the input and every option (language, style,
+// source text), so hashing it covers all of them
+const responseKey = (operation: AIOperation, prompt: string, responseSchema?: Schema) => {
+  const { config } = getActiveProvider();
+  return hashKey([config.provider, config.model, operation, PROMPT_VERSIONS[operation], prompt, responseSchema ?? null]);
+};
+
+// Prompts and schemas are built from the operation's inputs (services/prompts.ts);
+// the configured provider (Gemini, the proxy server, an OpenAI-compatible
+// endpoint or the offline mock) only runs them.
+// Answers come from the response cache when the same request was made before,
+// and transient failures are retried with backoff as long as nothing was streamed.
+const generate = async (operation: AIOperation, input: PromptInput, extras: RequestExtras = {}) => {
+  const { provider, config } = getActiveProvider();
+  const { prompt, responseSchema } = buildPrompt(operation, input);
+  const key = await responseKey(operation, prompt, responseSchema);
+
+  const cached = key ? await getCachedResponse(key) : null;
+  if (cached !== null) {
+    extras.signal?.throwIfAborted();
+    extras.onText?.(cached);
+    return cached;
+  }
+
+  let hasStreamed = false;
+  const onText = extras.onText && ((delta: string) => {
+    hasStreamed = true;
+    extras.onText!(delta);
+  });
+  const text = await withRetry(
+    () => provider.generate({ operation, model: config.model, prompt, input, responseSchema, ...extras, onText }, config),
+    extras.signal,
+    () => !hasStreamed
+  );
+  if (key && text) {
+    await putCachedResponse({ key, operation, model: config.model, text, createdAt: Date.now() });
+  }
+  return text;
+};
+
+// Runs a JSON operation through its validator. Unrepairable answers are sent
+// back to the model together with the problems found, up to MAX_REPAIR_RETRIES times.
+const generateValidated = async <T>(
+  operation: AIOperation,
+  input: PromptInput,
+  validate: (jsonText: string) => ValidationResult<T>,
+  options: GenerationOptions
+): Promise<T> => {
+  let attemptInput = input;
+  let problems: string[] = [];
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_RETRIES; attempt++) {
+    const jsonText = await generate(operation, attemptInput, { signal: options.signal });
+    if (!jsonText) throw createAIError('malformed', "No data returned");
+
+    const { value, issues } = validate(jsonText);
+    if (value) {
+      if (issues.length > 0) {
+        console.warn(`Repaired ${operation} response:`, issues);
+        options.onIssues?.(issues);
+      }
+      return value;
+    }
+
+    // Keep an unusable answer out of the cache so it is not served again
+    const { prompt, responseSchema } = buildPrompt(operation, attemptInput);
+    const key = await responseKey(operation, prompt, responseSchema);
+    if (key) await deleteCachedResponse(key);
+
+    problems = issues.filter(i => i.severity === 'fatal').map(i => i.message);
+    attemptInput = { ...input, rejected: problems };
+  }
+
+  throw createAIError('malformed', `Invalid ${operation} response: ${problems.join('; ')}`);
+};
+
+// Inputs shared by the visual operations, which work from the summary
+const visualInput = (text: string, options: GenerationOptions): PromptInput => ({
+  text,
+  language: resolveOutputLanguage(options.language ?? DEFAULT_OUTPUT_LANGUAGE, text),
+  style: options.style ?? DEFAULT_SUMMARY_STYLE,
+  sections: options.sections,
+  sourceText: options.sourceText && sourceExcerpt(options.sourceText, GROUNDING_EXCERPT),
+});
+
+const summarizeChunk = async (
+  text: string,
+  title: string | undefined,
+  language: LanguageCode | null,
+  style: SummaryStyle,
+  signal?: AbortSignal
+): Promise<string> =>
+  generate('summarize', { text, title, language, style, step: 'chunk' }, { signal });
+
+const mergeSummaries = async (
+  sections: SectionSummary[],
+  language: LanguageCode | null,
+  style: SummaryStyle,
+  extras: RequestExtras
+): Promise<string> => {
+  // Parts are numbered with neutral markers, whatever the output language
+  const text = sections
+    .map((s, i) => `[${i + 1}]${s.title ? ` ${s.title}` : ''}\n${s.summary}`)
+    .join('\n\n');
+
+  return generate('summarize', { text, language, style, step: 'merge' }, extras);
+};
+
+// Short texts are summarized in one call. Longer ones go through map-reduce:
+// each chunk is summarized on its own (map), then the partial summaries are
+// merged (reduce). Chunks run one at a time to stay within rate limits.
+// Only the final summary is streamed through onText.
+export const summarizeText = async (text: string, options: SummarizeOptions = {}): Promise<SummaryResult> => {
+  const { signal } = options;
+  const language = resolveOutputLanguage(options.language ?? DEFAULT_OUTPUT_LANGUAGE, text);
+  const style = options.style ?? DEFAULT_SUMMARY_STYLE;
+  let streamed = '';
+  const onText = options.onText && ((delta: string) => {
+    streamed += delta;
+    options.onText!(streamed);
+  });
 
-export const summarizeText = async (text: string): Promise<string> => {
   try {
-    const model = "gemini-2.5-flash";
-    const prompt = `Bạn là một trợ lý AI hữu ích. Hãy tóm tắt văn bản sau đây bằng tiếng Việt một cách ngắn gọn, súc tích, nêu bật các ý chính.
-    
-    Văn bản:
-    ${text}`;
-
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: prompt,
-    });
+    if (!needsChunking(text)) {
+      const result = await generate('summarize', { text, language, style }, { signal, onText });
 
-    return response.text || "Không thể tạo tóm tắt.";
+      return { summary: result || t('summary.failed'), sections: [], style };
+    }
+
+    const chunks = splitIntoChunks(text);
+    const progress: SummaryProgress = {
+      stage: 'map',
+      chunks: chunks.map(c => ({ title: c.title, status: 'pending' })),
+    };
+    const report = () => options.onProgress?.({ ...progress, chunks: progress.chunks.map(c => ({ ...c })) });
+
+    const sections: SectionSummary[] = [];
+    for (const chunk of chunks) {
+      progress.chunks[chunk.index].status = 'running';
+      report();
+
+      sections.push({ title: chunk.title, summary: await summarizeChunk(chunk.text, chunk.title, language, style, signal) });
+
+      progress.chunks[chunk.index].status = 'done';
+      report();
+    }
+
+    progress.stage = 'reduce';
+    report();
+    const summary = await mergeSummaries(sections, language, style, { signal, onText });
+
+    return { summary: summary || t('summary.failed'), sections, style };
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error("Summarization error:", error);
-    throw error;
+    throw toAIError(error);
   }
 };
 
-export const generateMindMapData = async (text: string): Promise<GraphData> => {
+// Asks each part of a text for passages supporting the ideas, until every
+// idea has some. Quotes are located in sourceText, which the parts come from.
+// A failed request keeps what was found so far: the remaining ideas stay
+// flagged as unsupported rather than the whole result being lost.
+const groundInParts = async (
+  ideas: GroundingIdea[],
+  parts: string[],
+  sourceText: string,
+  options: GenerationOptions
+): Promise<Map<string, SourceSpan[]>> => {
+  const found = new Map<string, SourceSpan[]>();
   try {
-    const model = "gemini-2.5-flash";
-    const prompt = `Dựa trên văn bản tóm tắt sau, hãy tạo cấu trúc JSON cho một sơ đồ tư duy (mind map).
-    Nút trung tâm (id="root") nên là chủ đề chính.
-    Các nút con nên là các ý chính.
-    Văn bản tóm tắt: ${text}`;
-
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            nodes: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  id: { type: Type.STRING },
-                  label: { type: Type.STRING },
-                  group: { type: Type.INTEGER, description: "1 for root, 2 for main branches, 3 for leaves" }
-                },
-                required: ["id", "label", "group"]
-              }
-            },
-            links: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  source: { type: Type.STRING, description: "ID of source node" },
-                  target: { type: Type.STRING, description: "ID of target node" }
-                },
-                required: ["source", "target"]
-              }
-            }
-          },
-          required: ["nodes", "links"]
-        }
-      }
+    for (const part of parts) {
+      const pending = ideas.filter(idea => !found.has(idea.id)).slice(0, MAX_GROUNDING_IDEAS);
+      if (pending.length === 0) break;
+
+      const grounded = await generateValidated(
+        'ground',
+        { text: part, language: null, style: DEFAULT_SUMMARY_STYLE, ideas: pending },
+        jsonText => validateGrounding(jsonText, pending.map(idea => idea.id), sourceText),
+        options
+      );
+      Object.entries(grounded).forEach(([id, sources]) => found.set(id, sources));
+    }
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.warn("Grounding failed:", error);
+  }
+  return found;
+};
+
+const splitForGrounding = (text: string) => splitIntoChunks(text, GROUNDING_EXCERPT).map(chunk => chunk.text);
+
+// The prompt only carries the opening GROUNDING_EXCERPT of a long source, so
+// ideas from later parts come back without a quote. Those are grounded
+// against the rest of the text, one part per request, like a long summary.
+const groundRemaining = async <T extends { sources?: SourceSpan[] }>(
+  items: T[],
+  describe: (item: T) => string,
+  options: GenerationOptions
+): Promise<T[]> => {
+  const { sourceText } = options;
+  if (!sourceText || sourceText.length <= GROUNDING_EXCERPT) return items;
+
+  const ideas: GroundingIdea[] = items.flatMap((item, i) => (isUnsupported(item) ? [{ id: String(i), text: describe(item) }] : []));
+  const found = await groundInParts(ideas, splitForGrounding(sourceText.slice(GROUNDING_EXCERPT)), sourceText, options);
+  return items.map((item, i) => {
+    const sources = found.get(String(i));
+    return sources ? { ...item, sources } : item;
+  });
+};
+
+// The ideas of a comparison map are grounded against the text of each
+// document they are tagged with, and their passages stored with offsets into
+// the combined text (combineTexts), which is what the source panel shows
+const groundByDocument = async (graph: GraphData, documents: ComparedDocument[], options: GenerationOptions): Promise<GraphData> => {
+  const sources = new Map<string, SourceSpan[]>();
+  for (const body of documentBodies(documents)) {
+    const ideas = graph.nodes
+      .filter(node => node.documents?.includes(body.key))
+      .map(node => ({ id: node.id, text: node.label }));
+    if (!body.text || ideas.length === 0) continue;
+
+    const found = await groundInParts(ideas, splitForGrounding(body.text), body.text, options);
+    found.forEach((spans, id) => {
+      const shifted = spans.map(span => ({ ...span, start: span.start + body.start, end: span.end + body.start }));
+      sources.set(id, [...(sources.get(id) ?? []), ...shifted].slice(0, MAX_SOURCES));
     });
+  }
+  return { ...graph, nodes: graph.nodes.map(node => ({ ...node, sources: sources.get(node.id) ?? [] })) };
+};
 
-    const jsonText = response.text;
-    if (!jsonText) throw new Error("No data returned");
-    
-    return JSON.parse(jsonText) as GraphData;
+export const generateMindMapData = async (text: string, options: GenerationOptions = {}): Promise<GraphData> => {
+  try {
+    const graph = await generateValidated(
+      'mindmap',
+      visualInput(text, options),
+      jsonText => validateGraphData(jsonText, options.sourceText),
+      options
+    );
+    return { ...graph, nodes: await groundRemaining(graph.nodes, node => node.label, options) };
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error("Mind map generation error:", error);
-    throw error;
+    throw toAIError(error);
   }
 };
 
-export const generateInfographicData = async (text: string): Promise<InfographicItem[]> => {
+// A mind map whose links name the relationship between the two ideas, plus
+// relations across branches that a plain tree cannot show
+export const generateConceptMapData = async (text: string, options: GenerationOptions = {}): Promise<GraphData> => {
   try {
-    const model = "gemini-2.5-flash";
-    const prompt = `Analyze the following text and create a list of 4 to 6 key insights for an infographic summary.
-    For each insight, provide:
-    1. A short, catchy title (max 5 words, in Vietnamese).
-    2. A concise description (max 15 words, in Vietnamese).
-    3. An icon category that best fits the insight. Choose strictly from: 'chart', 'bulb', 'users', 'globe', 'time', 'shield', 'target'.
-
-    Text: ${text}`;
-
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              title: { type: Type.STRING },
-              description: { type: Type.STRING },
-              icon: { type: Type.STRING, enum: ['chart', 'bulb', 'users', 'globe', 'time', 'shield', 'target'] }
-            },
-            required: ["title", "description", "icon"]
-          }
-        }
-      }
-    });
+    const graph = await generateValidated(
+      'conceptmap',
+      visualInput(text, options),
+      jsonText => validateGraphData(jsonText, options.sourceText, true),
+      options
+    );
+    return { ...graph, nodes: await groundRemaining(graph.nodes, node => node.label, options) };
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Concept map generation error:", error);
+    throw toAIError(error);
+  }
+};
 
-    const jsonText = response.text;
-    if (!jsonText) throw new Error("No data returned");
+// One mind map of several documents on the same topic, built from their
+// summaries. Ideas the documents share become a single node tagged with all
+// of them, so agreements and differences sit next to each other.
+// options.sourceText is the documents' combined text; when it is given, each
+// idea is grounded against the documents it is tagged with (groundByDocument)
+// rather than against the combined text, which a long first document would fill.
+// Documents without a summary are left out, so no idea is tagged with a
+// document the model never saw.
+export const generateComparisonMapData = async (documents: ComparedDocument[], options: GenerationOptions = {}): Promise<GraphData> => {
+  try {
+    const summarized = documents.filter(d => d.summary.trim());
+    const refs = documentRefs(summarized);
+    const graph = await generateValidated(
+      'comparemap',
+      { ...visualInput(combineSummaries(summarized), { ...options, sourceText: undefined }), documents: refs },
+      jsonText => validateGraphData(jsonText, undefined, false, refs),
+      options
+    );
+    return options.sourceText ? await groundByDocument(graph, documents, options) : graph;
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Comparison map generation error:", error);
+    throw toAIError(error);
+  }
+};
 
-    return JSON.parse(jsonText) as InfographicItem[];
+export const generateInfographicData = async (text: string, options: GenerationOptions = {}): Promise<InfographicItem[]> => {
+  try {
+    const items = await generateValidated(
+      'infographic',
+      visualInput(text, options),
+      jsonText => validateInfographicItems(jsonText, options.sourceText),
+      options
+    );
+    return await groundRemaining(items, item => `${item.title}: ${item.description}`, options);
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error("Infographic generation error:", error);
-    throw error;
+    throw toAIError(error);
   }
-};
\ No newline at end of file
+};
+
+// Events read from the summary and, when there is one, the original text,
+// which usually keeps the dates a summary leaves out
+export const generateTimelineData = async (text: string, options: GenerationOptions = {}): Promise<TimelineEntry[]> => {
+  try {
+    const entries = await generateValidated(
+      'timeline',
+      visualInput(text, options),
+      jsonText => validateTimeline(jsonText, options.sourceText),
+      options
+    );
+    return await groundRemaining(entries, entry => `${entry.date}: ${entry.title}. ${entry.description}`, options);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Timeline generation error:", error);
+    throw toAIError(error);
+  }
+};
+
+const describeNode = (graph: GraphData, nodeId: string) => {
+  const tree = getTreeInfo(graph);
+  const path = getAncestorPath(graph, nodeId, tree);
+  const labels = new Map(graph.nodes.map(n => [n.id, n.label]));
+  const children = (tree.children.get(nodeId) || []).map(id => labels.get(id) || id);
+  return { path, children };
+};
+
+// Suggests child ideas for one node of an existing map. The caller merges
+// them in with mergeNodeExpansion, so the rest of the map is untouched.
+export const expandMindMapNode = async (
+  graph: GraphData,
+  nodeId: string,
+  sourceText: string,
+  options: GenerationOptions = {}
+): Promise<NodeExpansion[]> => {
+  try {
+    const { path, children } = describeNode(graph, nodeId);
+    return await generateValidated(
+      'expand',
+      {
+        text: sourceExcerpt(sourceText),
+        language: resolveOutputLanguage(options.language ?? DEFAULT_OUTPUT_LANGUAGE, sourceText),
+        style: options.style ?? DEFAULT_SUMMARY_STYLE,
+        path,
+        children,
+        quotes: Boolean(options.sourceText),
+      },
+      jsonText => validateNodeExpansion(jsonText, children, options.sourceText),
+      options
+    );
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Node expansion error:", error);
+    throw toAIError(error);
+  }
+};
+
+export const explainMindMapNode = async (
+  graph: GraphData,
+  nodeId: string,
+  sourceText: string,
+  options: SummarizeOptions = {}
+): Promise<string> => {
+  try {
+    const { path } = describeNode(graph, nodeId);
+    let streamed = '';
+    const result = await generate('explain', {
+      text: sourceExcerpt(sourceText),
+      language: resolveOutputLanguage(options.language ?? DEFAULT_OUTPUT_LANGUAGE, sourceText),
+      style: options.style ?? DEFAULT_SUMMARY_STYLE,
+      path,
+    }, {
+      signal: options.signal,
+      onText: options.onText && ((delta: string) => {
+        streamed += delta;
+        options.onText!(streamed);
+      }),
+    });
+    return result || t('explanation.none');
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Node explanation error:", error);
+    throw toAIError(error);
+  }
+};
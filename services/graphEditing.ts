@@ -0,0 +1,182 @@
+import { GraphData, LinkData, NodeData, NodeExpansion } from "../types";
+import { t } from "../i18n";
+import { isConceptMap } from "./conceptMap";
+
+// Pure edit operations on a mind map. The map is treated as a tree hanging
+// from the root node (id="root"): each node's parent is its neighbour on the
+// shortest path to the root, not counting concept map cross-links. Every
+// operation returns a new GraphData and recomputes groups (1 root, 2 main
+// branches, 3 below) from the new depths.
+
+export const ROOT_ID = 'root';
+
+export interface TreeInfo {
+  parent: Map<string, string | null>;
+  children: Map<string, string[]>;
+  depth: Map<string, number>;
+}
+
+export const getTreeInfo = (data: GraphData): TreeInfo => {
+  const adjacency = new Map<string, string[]>(data.nodes.map(n => [n.id, []]));
+  data.links.forEach(l => {
+    if (l.crossLink) return;
+    adjacency.get(l.source)?.push(l.target);
+    adjacency.get(l.target)?.push(l.source);
+  });
+
+  const rootId = adjacency.has(ROOT_ID) ? ROOT_ID : data.nodes[0]?.id;
+  const parent = new Map<string, string | null>();
+  const children = new Map<string, string[]>(data.nodes.map(n => [n.id, []]));
+  const depth = new Map<string, number>();
+  if (!rootId) return { parent, children, depth };
+
+  parent.set(rootId, null);
+  depth.set(rootId, 0);
+  const queue = [rootId];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    adjacency.get(id)!.forEach(next => {
+      if (depth.has(next)) return;
+      parent.set(next, id);
+      depth.set(next, depth.get(id)! + 1);
+      children.get(id)!.push(next);
+      queue.push(next);
+    });
+  }
+
+  return { parent, children, depth };
+};
+
+export const getDescendantIds = (data: GraphData, nodeId: string, tree: TreeInfo = getTreeInfo(data)): Set<string> => {
+  const result = new Set<string>();
+  const stack = [nodeId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    result.add(id);
+    stack.push(...(tree.children.get(id) || []));
+  }
+  return result;
+};
+
+const groupForDepth = (depth: number | undefined) =>
+  depth === 0 ? 1 : depth === 1 ? 2 : 3;
+
+const withGroups = (data: GraphData): GraphData => {
+  const { depth } = getTreeInfo(data);
+  return {
+    ...data,
+    nodes: data.nodes.map(n => {
+      const group = groupForDepth(depth.get(n.id));
+      return n.group === group ? n : { ...n, group };
+    }),
+  };
+};
+
+const createNodeId = (data: GraphData) => {
+  const ids = new Set(data.nodes.map(n => n.id));
+  let i = data.nodes.length + 1;
+  while (ids.has(`node-${i}`)) i++;
+  return `node-${i}`;
+};
+
+export const renameNode = (data: GraphData, nodeId: string, label: string): GraphData => {
+  const trimmed = label.trim();
+  if (!trimmed) return data;
+  return {
+    ...data,
+    nodes: data.nodes.map(n => (n.id === nodeId ? { ...n, label: trimmed } : n)),
+  };
+};
+
+// A new parent-child link. In a concept map every tree link has a relation,
+// so it gets the default one.
+const treeLink = (data: GraphData, source: string, target: string): LinkData => ({
+  source,
+  target,
+  ...(isConceptMap(data) ? { type: 'partOf' as const } : {}),
+});
+
+export const addChildNode = (data: GraphData, parentId: string, label: string): { data: GraphData; node: NodeData } => {
+  const node: NodeData = { id: createNodeId(data), label: label.trim() || t('mindmap.newIdea') };
+  const next = withGroups({
+    ...data,
+    nodes: [...data.nodes, node],
+    links: [...data.links, treeLink(data, parentId, node.id)],
+  });
+  return { data: next, node: next.nodes.find(n => n.id === node.id)! };
+};
+
+// Removes a node together with everything below it. The root cannot be deleted.
+export const deleteSubtree = (data: GraphData, nodeId: string): GraphData => {
+  if (nodeId === ROOT_ID) return data;
+  const removed = getDescendantIds(data, nodeId);
+  return withGroups({
+    ...data,
+    nodes: data.nodes.filter(n => !removed.has(n.id)),
+    links: data.links.filter(l => !removed.has(l.source) && !removed.has(l.target)),
+  });
+};
+
+export const canReparent = (data: GraphData, nodeId: string, newParentId: string, tree: TreeInfo = getTreeInfo(data)) =>
+  nodeId !== ROOT_ID &&
+  nodeId !== newParentId &&
+  tree.parent.get(nodeId) !== newParentId &&
+  !getDescendantIds(data, nodeId, tree).has(newParentId);
+
+// Moves a node (and its subtree) under another node. Invalid moves, such as
+// moving a node below one of its own descendants, leave the map unchanged.
+export const reparentNode = (data: GraphData, nodeId: string, newParentId: string): GraphData => {
+  const tree = getTreeInfo(data);
+  if (!canReparent(data, nodeId, newParentId, tree)) return data;
+
+  // Drop every link between the node and anything outside its subtree, so
+  // extra links cannot keep it attached to the old branch. Concept map
+  // cross-links are not part of the tree and move along with the node,
+  // except one to the new parent: it becomes the tree link, keeping its relation.
+  const subtree = getDescendantIds(data, nodeId, tree);
+  const joinsNewParent = (l: LinkData) =>
+    (l.source === nodeId && l.target === newParentId) || (l.source === newParentId && l.target === nodeId);
+  const crossLink = data.links.find(l => l.crossLink && joinsNewParent(l));
+  const links = data.links.filter(l => {
+    if (l.crossLink) return l !== crossLink;
+    if (l.source === nodeId) return subtree.has(l.target);
+    if (l.target === nodeId) return subtree.has(l.source);
+    return true;
+  });
+  const { crossLink: _, ...relation } = crossLink || treeLink(data, newParentId, nodeId);
+
+  return withGroups({
+    ...data,
+    links: [...links, relation],
+  });
+};
+
+// Walks up from a node to the root, returning labels root-first
+export const getAncestorPath = (data: GraphData, nodeId: string, tree: TreeInfo = getTreeInfo(data)): string[] => {
+  const labels = new Map(data.nodes.map(n => [n.id, n.label]));
+  const path: string[] = [];
+  let current: string | null | undefined = nodeId;
+  while (current) {
+    path.unshift(labels.get(current) || current);
+    current = tree.parent.get(current);
+  }
+  return path;
+};
+
+// Adds AI-suggested children (and their own children) below a node. Nothing
+// else in the map changes.
+export const mergeNodeExpansion = (data: GraphData, parentId: string, expansion: NodeExpansion[]): GraphData => {
+  if (!data.nodes.some(n => n.id === parentId)) return data;
+
+  let next = data;
+  expansion.forEach(item => {
+    const added = addChildNode(next, parentId, item.label);
+    next = item.sources
+      ? { ...added.data, nodes: added.data.nodes.map(n => (n.id === added.node.id ? { ...n, sources: item.sources } : n)) }
+      : added.data;
+    item.children.forEach(label => {
+      next = addChildNode(next, added.node.id, label).data;
+    });
+  });
+  return next;
+};
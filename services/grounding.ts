@@ -0,0 +1,81 @@
+import { SourceSpan } from "../types";
+
+// Source grounding: the model quotes the passages an idea is based on, and
+// the quotes are located in the original text here. Models rarely copy text
+// exactly, so matching ignores case, runs of whitespace and quote/dash styles,
+// and a quote shortened with "..." matches its first and last part in order.
+
+// Most passages kept per idea
+export const MAX_SOURCES = 3;
+
+// Shorter quotes match too many places to prove anything
+const MIN_QUOTE_LENGTH = 8;
+
+const FOLDED: Record<string, string> = {
+  '‘': "'", '’': "'", '“': '"', '”': '"', '«': '"', '»': '"',
+  '–': '-', '—': '-',
+};
+
+// Normalized copy of the text plus, for each of its characters, the offset it came from
+const normalizeWithOffsets = (text: string) => {
+  let normalized = '';
+  const offsets: number[] = [];
+  let lastWasSpace = true;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (/\s/.test(char)) {
+      if (!lastWasSpace) {
+        normalized += ' ';
+        offsets.push(i);
+      }
+      lastWasSpace = true;
+      continue;
+    }
+    normalized += (FOLDED[char] ?? char).toLowerCase();
+    offsets.push(i);
+    lastWasSpace = false;
+  }
+  return { normalized, offsets };
+};
+
+const normalize = (text: string) => normalizeWithOffsets(text).normalized.trim();
+
+let cachedSource: { text: string; normalized: string; offsets: number[] } | null = null;
+
+// The same source is searched once per quote, so its normalized form is kept
+const normalizedSource = (sourceText: string) => {
+  if (cachedSource?.text !== sourceText) cachedSource = { text: sourceText, ...normalizeWithOffsets(sourceText) };
+  return cachedSource;
+};
+
+// Character range of a quote in the source text, or null if it is not there
+export const locateQuote = (sourceText: string, quote: string): { start: number; end: number } | null => {
+  const parts = quote.split(/\.{3}|…/).map(normalize).filter(p => p.length > 0);
+  if (parts.join(' ').length < MIN_QUOTE_LENGTH) return null;
+
+  const source = normalizedSource(sourceText);
+  let from = 0;
+  let start = -1;
+  let end = -1;
+  for (const part of parts) {
+    const index = source.normalized.indexOf(part, from);
+    if (index < 0) return null;
+    if (start < 0) start = index;
+    end = index + part.length;
+    from = end;
+  }
+  return { start: source.offsets[start], end: source.offsets[end - 1] + 1 };
+};
+
+// Where a stored span is in the current text. The text may have been edited
+// since the span was recorded, so a moved quote is searched for again.
+export const resolveSpan = (sourceText: string, span: SourceSpan): { start: number; end: number } | null => {
+  if (span.end <= sourceText.length && normalize(sourceText.slice(span.start, span.end)) === normalize(span.quote)) {
+    return { start: span.start, end: span.end };
+  }
+  return locateQuote(sourceText, span.quote);
+};
+
+// An idea the model generated without any passage found in the source
+export const isUnsupported = (item: { sources?: SourceSpan[] }) =>
+  Array.isArray(item.sources) && item.sources.length === 0;
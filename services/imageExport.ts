@@ -0,0 +1,92 @@
+// Turns self-contained SVG markup into PNG/JPEG images and a one-page PDF
+// using only the browser canvas, so no rendering library is needed. The SVG
+// must not reference external resources: an SVG drawn as an image cannot
+// load them.
+
+export const PNG_SCALES = [1, 2, 3] as const;
+export type PngScale = typeof PNG_SCALES[number];
+
+// CSS pixels per PDF point (PDF uses 72 units per inch, CSS 96)
+const POINTS_PER_PIXEL = 0.75;
+
+const loadSvgImage = (svg: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error("The SVG could not be rendered as an image"));
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+});
+
+export const rasterizeSvg = async (
+  svg: string,
+  width: number,
+  height: number,
+  scale: number = 1,
+  type: 'image/png' | 'image/jpeg' = 'image/png',
+  quality?: number
+): Promise<Blob> => {
+  const image = await loadSvgImage(svg);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error("Canvas 2D context is not available");
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error("The canvas could not be encoded"))),
+      type,
+      quality
+    );
+  });
+};
+
+// Minimal PDF 1.4 writer: one page the size of the image, with the JPEG
+// embedded as-is (DCTDecode). Text stays pixels, which keeps every glyph,
+// including Vietnamese diacritics, without embedding fonts.
+export const jpegToPdf = async (jpeg: Blob, width: number, height: number): Promise<Blob> => {
+  const imageBytes = new Uint8Array(await jpeg.arrayBuffer());
+  const image = await createImageBitmap(jpeg);
+  const pageWidth = Math.round(width * POINTS_PER_PIXEL);
+  const pageHeight = Math.round(height * POINTS_PER_PIXEL);
+  const content = `q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im0 Do Q`;
+
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  const object = (body: string) => {
+    offsets.push(length);
+    write(`${offsets.length} 0 obj\n${body}\nendobj\n`);
+  };
+
+  write('%PDF-1.4\n%âãÏÓ\n');
+  object('<< /Type /Catalog /Pages 2 0 R >>');
+  object('<< /Type /Pages /Kids [3 0 R] /Count 1 >>');
+  object(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] /Resources << /XObject << /Im0 5 0 R >> >> /Contents 4 0 R >>`);
+  object(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+
+  offsets.push(length);
+  write(`5 0 obj\n<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${imageBytes.length} >>\nstream\n`);
+  write(imageBytes);
+  write('\nendstream\nendobj\n');
+  image.close();
+
+  const xrefOffset = length;
+  write(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(offset => write(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  write(`trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(parts, { type: 'application/pdf' });
+};
+
+export const svgToPdf = async (svg: string, width: number, height: number, scale: number = 2): Promise<Blob> => {
+  const jpeg = await rasterizeSvg(svg, width, height, scale, 'image/jpeg', 0.92);
+  return jpegToPdf(jpeg, width, height);
+};
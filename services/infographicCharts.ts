@@ -0,0 +1,94 @@
+import * as d3 from 'd3';
+import { ChartDatum, InfographicItem, InfographicItemKind, RankedEntry } from "../types";
+import { getLocale } from "../i18n";
+
+// Geometry of the infographic mini charts, computed with d3 scales and shapes.
+// InfographicView draws it as React SVG and infographicExport as markup, so
+// the exported file shows the same charts as the screen.
+
+export const DONUT_SIZE = 112;
+const DONUT_THICKNESS = 18;
+
+export const PROGRESS_HEIGHT = 10;
+export const BAR_HEIGHT = 8;
+
+export const seriesColor = (colors: string[], index: number) => colors[index % colors.length];
+
+export const itemKind = (item: InfographicItem): InfographicItemKind => item.kind ?? 'insight';
+
+export const formatNumber = (value: number) =>
+  new Intl.NumberFormat(getLocale(), { maximumFractionDigits: 1 }).format(value);
+
+// "45 %" reads wrong in most languages, so percent signs stay attached
+export const formatStat = (value: number, unit?: string) =>
+  !unit ? formatNumber(value) : unit === '%' ? `${formatNumber(value)}%` : `${formatNumber(value)} ${unit}`;
+
+// Stats that are a share of a whole get a progress bar
+export const isPercentStat = (item: InfographicItem) =>
+  itemKind(item) === 'stat' && item.unit === '%' && item.value !== undefined && item.value >= 0 && item.value <= 100;
+
+export const progressWidth = (value: number, width: number) =>
+  d3.scaleLinear().domain([0, 100]).range([0, width]).clamp(true)(value);
+
+export interface DonutSlice {
+  path: string; // Centered on (0, 0)
+  color: string;
+  segment: ChartDatum | null; // null for the part of the whole the text did not assign
+}
+
+// A breakdown that adds up to less than 100% keeps the rest as an empty slice.
+// Colors are the theme's series colors, in order.
+export const donutSlices = (
+  segments: ChartDatum[],
+  colors: string[],
+  restColor: string,
+  size: number = DONUT_SIZE
+): DonutSlice[] => {
+  const total = segments.reduce((sum, s) => sum + s.value, 0);
+  const data: (ChartDatum | null)[] = total < 100 ? [...segments, null] : segments;
+  const pie = d3.pie<ChartDatum | null>()
+    .value(d => (d ? d.value : 100 - total))
+    .sort(null);
+  const arc = d3.arc<d3.PieArcDatum<ChartDatum | null>>()
+    .innerRadius(size / 2 - DONUT_THICKNESS)
+    .outerRadius(size / 2)
+    .padAngle(0.02);
+
+  return pie(data).map((slice, i) => ({
+    path: arc(slice) || '',
+    color: slice.data ? seriesColor(colors, i) : restColor,
+    segment: slice.data,
+  }));
+};
+
+export interface RankingBar {
+  entry: RankedEntry;
+  width: number;
+}
+
+// Bars are scaled to the largest value, which is not always the first place
+export const rankingBars = (entries: RankedEntry[], width: number): RankingBar[] => {
+  const max = d3.max(entries, e => e.value ?? 0) || 1;
+  const x = d3.scaleLinear().domain([0, max]).range([0, width]);
+  return entries.map(entry => ({ entry, width: entry.value !== undefined ? Math.max(2, x(Math.max(0, entry.value))) : 0 }));
+};
+
+export const hasRankingValues = (entries: RankedEntry[]) => entries.every(e => e.value !== undefined);
+
+// The item's data as plain text lines, for the Markdown export
+export const itemDataLines = (item: InfographicItem): string[] => {
+  switch (itemKind(item)) {
+    case 'stat':
+      return item.value !== undefined ? [`**${formatStat(item.value, item.unit)}**`] : [];
+    case 'breakdown':
+      return (item.segments || []).map(s => `- ${s.label}: ${formatNumber(s.value)}%`);
+    case 'ranking':
+      return (item.entries || []).map((e, i) => `${i + 1}. ${e.label}${e.value !== undefined ? ` (${formatNumber(e.value)})` : ''}`);
+    case 'timeline':
+      return (item.events || []).map(e => `- **${e.date}**: ${e.label}`);
+    case 'comparison':
+      return [...(item.pros || []).map(p => `- + ${p}`), ...(item.cons || []).map(c => `- − ${c}`)];
+    default:
+      return [];
+  }
+};
@@ -0,0 +1,488 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { InfographicItem, VisualTheme } from "../types";
+import { getInfographicIcon } from "../components/infographicIcons";
+import {
+  DONUT_SIZE,
+  PROGRESS_HEIGHT,
+  BAR_HEIGHT,
+  donutSlices,
+  formatNumber,
+  formatStat,
+  hasRankingValues,
+  isPercentStat,
+  itemKind,
+  progressWidth,
+  rankingBars,
+  seriesColor
+} from "./infographicCharts";
+import { InfographicLayout, gridColumns, splitColumns } from "./infographicLayout";
+import { DEFAULT_THEME, ThemeColors, hasBrandHeader, resolveThemeColors, themeFont, withOpacity } from "./theme";
+import { t } from "../i18n";
+
+// Draws the infographic cards as a standalone SVG that mirrors InfographicView:
+// same layout, heroicons (rendered to markup), theme colors and font, text
+// wrapped into native <text> lines. The SVG is also the source for PNG and
+// PDF export.
+
+export interface InfographicSvg {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+interface InfographicSvgOptions {
+  isDarkMode?: boolean;
+  showDescription?: boolean;
+  theme?: VisualTheme;
+  layout?: InfographicLayout;
+}
+
+// Single-column layouts read better narrower, like on screen
+const LAYOUT_WIDTHS: Record<InfographicLayout, number> = {
+  grid: 1200,
+  poster: 800,
+  heroCards: 1200,
+  steps: 960,
+  comparison: 1200,
+};
+
+const PADDING = 48;
+const GAP = 24;
+const CARD_PADDING = 24;
+const ICON_BOX = 48;
+const WATERMARK_SIZE = 96;
+const TITLE_SIZE = 18;
+const TITLE_LINE_HEIGHT = 23;
+const HERO_TITLE_SIZE = 24;
+const HERO_TITLE_LINE_HEIGHT = 30;
+const DESCRIPTION_SIZE = 14;
+const DESCRIPTION_LINE_HEIGHT = 23;
+const CONTENT_GAP = 12;
+const STAT_SIZE = 36;
+const STAT_LINE_HEIGHT = 44;
+const SMALL_SIZE = 12;
+const SMALL_LINE_HEIGHT = 18;
+const ROW_GAP = 8;
+const MARKER_SIZE = 48; // Step numbers and the "VS" badge
+const BRAND_LOGO_HEIGHT = 40;
+const BRAND_LOGO_WIDTH = 160;
+const BRAND_NAME_SIZE = 22;
+
+// Theme colors plus the fixed card and text colors of light and dark mode
+const getTheme = (colors: ThemeColors, isDarkMode: boolean) => isDarkMode
+  ? {
+      background: colors.background,
+      cardFill: 'rgba(51, 65, 85, 0.6)',
+      cardStroke: '#475569',
+      title: '#ffffff',
+      description: '#d1d5db',
+      iconBox: [withOpacity(colors.primary, 0.25), withOpacity(colors.primary, 0.25)],
+      icon: colors.primary,
+      watermark: '#ffffff',
+      accent: colors.primary,
+      series: colors.series,
+      track: '#334155',
+      muted: '#9ca3af',
+      pro: '#6ee7b7',
+      con: '#fda4af',
+    }
+  : {
+      background: colors.background,
+      cardFill: 'rgba(255, 255, 255, 0.6)',
+      cardStroke: 'rgba(255, 255, 255, 0.8)',
+      title: '#1f2937',
+      description: '#4b5563',
+      iconBox: [withOpacity(colors.primary, 0.15), '#ffffff'],
+      icon: colors.primary,
+      watermark: colors.primary,
+      accent: colors.primary,
+      series: colors.series,
+      track: '#e5e7eb',
+      muted: '#6b7280',
+      pro: '#059669',
+      con: '#e11d48',
+    };
+
+type Theme = ReturnType<typeof getTheme>;
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+const measure = (text: string, font: string) => {
+  if (!measureContext) measureContext = document.createElement('canvas').getContext('2d');
+  if (!measureContext) return text.length * 8;
+  measureContext.font = font;
+  return measureContext.measureText(text).width;
+};
+
+const wrapText = (text: string, font: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && measure(candidate, font) > maxWidth) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  });
+  if (current) lines.push(current);
+  return lines;
+};
+
+// Shortens a single-line label with an ellipsis, like CSS truncate
+const fitText = (text: string, font: string, maxWidth: number) => {
+  if (measure(text, font) <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 1 && measure(`${fitted}…`, font) > maxWidth) fitted = fitted.slice(0, -1);
+  return `${fitted.trimEnd()}…`;
+};
+
+// Heroicon markup placed as a nested <svg> at the given box, recolored
+const iconMarkup = (icon: string, x: number, y: number, size: number, color: string, opacity: number = 1) =>
+  renderToStaticMarkup(React.createElement(getInfographicIcon(icon)))
+    .replace('<svg ', `<svg x="${x}" y="${y}" width="${size}" height="${size}"${opacity < 1 ? ` opacity="${opacity}"` : ''} `)
+    .replace(/currentColor/g, color);
+
+const textLines = (lines: string[], x: number, y: number, lineHeight: number) =>
+  lines.map((line, i) => `<tspan x="${x}" y="${y + i * lineHeight}">${escapeXml(line)}</tspan>`).join('');
+
+const line = (text: string, x: number, y: number, size: number, fill: string, extra: string = '') =>
+  `<text x="${x}" y="${y}" font-size="${size}" fill="${fill}" dominant-baseline="hanging"${extra}>${escapeXml(text)}</text>`;
+
+// The typed part of a card (see InfographicItemDetails): its height, known
+// before the cards are placed, and a function drawing it at a position
+interface DetailBlock {
+  height: number;
+  render: (x: number, y: number) => string;
+}
+
+const detailBlock = (item: InfographicItem, width: number, theme: Theme, fontFamily: string): DetailBlock | null => {
+  const bodyFont = `${DESCRIPTION_SIZE}px ${fontFamily}`;
+  const smallFont = `${SMALL_SIZE}px ${fontFamily}`;
+  const smallBoldFont = `bold ${SMALL_SIZE}px ${fontFamily}`;
+
+  switch (itemKind(item)) {
+    case 'stat': {
+      if (item.value === undefined) return null;
+      const value = item.value;
+      const withProgress = isPercentStat(item);
+      return {
+        height: STAT_LINE_HEIGHT + (withProgress ? ROW_GAP + PROGRESS_HEIGHT : 0),
+        render: (x, y) => [
+          line(formatStat(value, item.unit), x, y, STAT_SIZE, theme.accent, ' font-weight="800"'),
+          withProgress ? `<rect x="${x}" y="${y + STAT_LINE_HEIGHT + ROW_GAP}" width="${width}" height="${PROGRESS_HEIGHT}" rx="${PROGRESS_HEIGHT / 2}" fill="${theme.track}"/>
+    <rect x="${x}" y="${y + STAT_LINE_HEIGHT + ROW_GAP}" width="${progressWidth(value, width)}" height="${PROGRESS_HEIGHT}" rx="${PROGRESS_HEIGHT / 2}" fill="${theme.accent}"/>` : '',
+        ].join('\n    '),
+      };
+    }
+
+    case 'breakdown': {
+      if (!item.segments) return null;
+      const segments = item.segments;
+      const legendLeft = DONUT_SIZE + 16;
+      const legendWidth = width - legendLeft;
+      const legendHeight = segments.length * (SMALL_LINE_HEIGHT + 2);
+      return {
+        height: Math.max(DONUT_SIZE, legendHeight),
+        render: (x, y) => {
+          const center = `translate(${x + DONUT_SIZE / 2}, ${y + DONUT_SIZE / 2})`;
+          const slices = donutSlices(segments, theme.series, theme.track)
+            .map(slice => `<path d="${slice.path}" fill="${slice.color}" transform="${center}"/>`);
+          const legendTop = y + Math.max(0, (DONUT_SIZE - legendHeight) / 2);
+          const legend = segments.map((segment, i) => {
+            const rowY = legendTop + i * (SMALL_LINE_HEIGHT + 2);
+            const percent = `${formatNumber(segment.value)}%`;
+            const labelWidth = legendWidth - 16 - measure(percent, smallBoldFont) - 8;
+            return `<circle cx="${x + legendLeft + 5}" cy="${rowY + 7}" r="5" fill="${seriesColor(theme.series, i)}"/>
+    ${line(fitText(segment.label, smallFont, labelWidth), x + legendLeft + 16, rowY, SMALL_SIZE, theme.title)}
+    ${line(percent, x + width, rowY, SMALL_SIZE, theme.muted, ' font-weight="bold" text-anchor="end"')}`;
+          });
+          return [...slices, ...legend].join('\n    ');
+        },
+      };
+    }
+
+    case 'ranking': {
+      if (!item.entries) return null;
+      const entries = item.entries;
+      if (!hasRankingValues(entries)) {
+        const rows = entries.map((entry, i) => wrapText(`${i + 1}. ${entry.label}`, bodyFont, width));
+        return {
+          height: rows.reduce((sum, r) => sum + r.length * DESCRIPTION_LINE_HEIGHT, 0),
+          render: (x, y) => `<text font-size="${DESCRIPTION_SIZE}" fill="${theme.title}" dominant-baseline="hanging">${
+            rows.map((r, i) => textLines(r, x, y + rows.slice(0, i).reduce((sum, p) => sum + p.length * DESCRIPTION_LINE_HEIGHT, 0), DESCRIPTION_LINE_HEIGHT)).join('')
+          }</text>`,
+        };
+      }
+      const rowHeight = SMALL_LINE_HEIGHT + BAR_HEIGHT + ROW_GAP;
+      return {
+        height: entries.length * rowHeight - ROW_GAP,
+        render: (x, y) => rankingBars(entries, width).map(({ entry, width: barWidth }, i) => {
+          const rowY = y + i * rowHeight;
+          const value = formatNumber(entry.value!);
+          const labelWidth = width - measure(value, smallBoldFont) - 8;
+          return `${line(fitText(`${i + 1}. ${entry.label}`, smallFont, labelWidth), x, rowY, SMALL_SIZE, theme.title)}
+    ${line(value, x + width, rowY, SMALL_SIZE, theme.muted, ' font-weight="bold" text-anchor="end"')}
+    <rect x="${x}" y="${rowY + SMALL_LINE_HEIGHT}" width="${width}" height="${BAR_HEIGHT}" rx="${BAR_HEIGHT / 2}" fill="${theme.track}"/>
+    <rect x="${x}" y="${rowY + SMALL_LINE_HEIGHT}" width="${barWidth}" height="${BAR_HEIGHT}" rx="${BAR_HEIGHT / 2}" fill="${seriesColor(theme.series, i)}"/>`;
+        }).join('\n    '),
+      };
+    }
+
+    case 'timeline': {
+      if (!item.events) return null;
+      const textLeft = 20;
+      const events = item.events.map(event => ({ date: event.date, lines: wrapText(event.label, bodyFont, width - textLeft) }));
+      const heights = events.map(e => SMALL_LINE_HEIGHT + e.lines.length * DESCRIPTION_LINE_HEIGHT);
+      const height = heights.reduce((sum, h) => sum + h, 0) + ROW_GAP * (events.length - 1);
+      return {
+        height,
+        render: (x, y) => {
+          const parts = [`<line x1="${x + 5}" y1="${y}" x2="${x + 5}" y2="${y + height}" stroke="${theme.track}" stroke-width="2"/>`];
+          let rowY = y;
+          events.forEach((event, i) => {
+            parts.push(`<circle cx="${x + 5}" cy="${rowY + 7}" r="5" fill="${theme.accent}"/>`);
+            parts.push(line(event.date, x + textLeft, rowY, SMALL_SIZE, theme.accent, ' font-weight="bold"'));
+            parts.push(`<text font-size="${DESCRIPTION_SIZE}" fill="${theme.title}" dominant-baseline="hanging">${textLines(event.lines, x + textLeft, rowY + SMALL_LINE_HEIGHT, DESCRIPTION_LINE_HEIGHT)}</text>`);
+            rowY += heights[i] + ROW_GAP;
+          });
+          return parts.join('\n    ');
+        },
+      };
+    }
+
+    case 'comparison': {
+      if (!item.pros || !item.cons) return null;
+      const columnWidth = (width - CONTENT_GAP) / 2;
+      const columns = [
+        { heading: t('infographic.pros'), color: theme.pro, mark: '+', rows: item.pros },
+        { heading: t('infographic.cons'), color: theme.con, mark: '−', rows: item.cons },
+      ].map(column => ({ ...column, rows: column.rows.map(row => wrapText(row, bodyFont, columnWidth - 14)) }));
+      const columnHeight = (rows: string[][]) => SMALL_LINE_HEIGHT + rows.reduce((sum, r) => sum + r.length * DESCRIPTION_LINE_HEIGHT, 0);
+      return {
+        height: Math.max(...columns.map(c => columnHeight(c.rows))),
+        render: (x, y) => columns.map((column, c) => {
+          const left = x + c * (columnWidth + CONTENT_GAP);
+          let rowY = y + SMALL_LINE_HEIGHT;
+          const rows = column.rows.map(rowLines => {
+            const markup = `${line(column.mark, left, rowY, DESCRIPTION_SIZE, column.color, ' font-weight="bold"')}
+    <text font-size="${DESCRIPTION_SIZE}" fill="${theme.title}" dominant-baseline="hanging">${textLines(rowLines, left + 14, rowY, DESCRIPTION_LINE_HEIGHT)}</text>`;
+            rowY += rowLines.length * DESCRIPTION_LINE_HEIGHT;
+            return markup;
+          });
+          return [line(column.heading.toUpperCase(), left, y, SMALL_SIZE, column.color, ' font-weight="bold"'), ...rows].join('\n    ');
+        }).join('\n    '),
+      };
+    }
+
+    default:
+      return null;
+  }
+};
+
+// One card measured at a given width: its own height, and a function drawing
+// it at a position, stretched to the height of its row
+interface Card {
+  height: number;
+  render: (x: number, y: number, height: number) => string;
+}
+
+type CardAt = (index: number, width: number) => Card;
+
+interface Placed {
+  markup: string[];
+  bottom: number;
+}
+
+// Rows of cards; cards in a row share the height of the tallest one, like the CSS grid
+const placeRows = (indexes: number[], columns: number, x: number, y: number, width: number, cardAt: CardAt): Placed => {
+  const cardWidth = (width - GAP * (columns - 1)) / columns;
+  const cards = indexes.map(index => cardAt(index, cardWidth));
+  const markup: string[] = [];
+  let top = y;
+  for (let start = 0; start < cards.length; start += columns) {
+    const row = cards.slice(start, start + columns);
+    const rowHeight = Math.max(...row.map(card => card.height));
+    row.forEach((card, i) => markup.push(card.render(x + i * (cardWidth + GAP), top, rowHeight)));
+    top += rowHeight + GAP;
+  }
+  return { markup, bottom: cards.length > 0 ? top - GAP : y };
+};
+
+const marker = (label: string, cx: number, cy: number, color: string, size: number = 18) =>
+  `  <circle cx="${cx}" cy="${cy}" r="${MARKER_SIZE / 2}" fill="${color}"/>
+  <text x="${cx}" y="${cy}" font-size="${size}" font-weight="800" fill="#ffffff" text-anchor="middle" dominant-baseline="central">${escapeXml(label)}</text>`;
+
+const placeLayout = (
+  layout: InfographicLayout,
+  items: InfographicItem[],
+  x: number,
+  y: number,
+  width: number,
+  cardAt: CardAt,
+  heroAt: CardAt,
+  theme: Theme
+): Placed => {
+  const indexes = items.map((_, i) => i);
+
+  switch (layout) {
+    case 'poster':
+      return placeRows(indexes, 1, x, y, width, cardAt);
+
+    case 'heroCards': {
+      if (items.length === 0) return { markup: [], bottom: y };
+      const hero = heroAt(0, width);
+      const rest = placeRows(indexes.slice(1), gridColumns(items.length - 1), x, y + hero.height + GAP, width, cardAt);
+      return {
+        markup: [hero.render(x, y, hero.height), ...rest.markup],
+        bottom: items.length > 1 ? rest.bottom : y + hero.height,
+      };
+    }
+
+    case 'steps': {
+      const cardLeft = x + MARKER_SIZE + GAP;
+      const centers: number[] = [];
+      const cards: string[] = [];
+      let top = y;
+      indexes.forEach(index => {
+        const card = cardAt(index, width - MARKER_SIZE - GAP);
+        cards.push(card.render(cardLeft, top, card.height));
+        // Markers line up with the cards' icon boxes
+        centers.push(top + CARD_PADDING + ICON_BOX / 2);
+        top += card.height + GAP;
+      });
+      const cx = x + MARKER_SIZE / 2;
+      const connector = centers.length > 1
+        ? [`  <line x1="${cx}" y1="${centers[0]}" x2="${cx}" y2="${centers[centers.length - 1]}" stroke="${withOpacity(theme.accent, 0.35)}" stroke-width="2"/>`]
+        : [];
+      return {
+        markup: [...connector, ...centers.map((cy, i) => marker(String(i + 1), cx, cy, theme.accent)), ...cards],
+        bottom: indexes.length > 0 ? top - GAP : y,
+      };
+    }
+
+    case 'comparison': {
+      const [left, right] = splitColumns(items);
+      const gutter = MARKER_SIZE + GAP * 2;
+      const columnWidth = (width - gutter) / 2;
+      const leftColumn = placeRows(left, 1, x, y, columnWidth, cardAt);
+      const rightColumn = placeRows(right, 1, x + columnWidth + gutter, y, columnWidth, cardAt);
+      const bottom = Math.max(leftColumn.bottom, rightColumn.bottom);
+      const cx = x + columnWidth + gutter / 2;
+      return {
+        markup: [
+          `  <line x1="${cx}" y1="${y}" x2="${cx}" y2="${bottom}" stroke="${withOpacity(theme.accent, 0.35)}" stroke-width="2"/>`,
+          marker('VS', cx, (y + bottom) / 2, theme.accent, 14),
+          ...leftColumn.markup,
+          ...rightColumn.markup,
+        ],
+        bottom,
+      };
+    }
+
+    default:
+      return placeRows(indexes, gridColumns(items.length), x, y, width, cardAt);
+  }
+};
+
+// Logo on the left and brand name on the right, or the name alone on the left
+const brandHeader = (theme: VisualTheme, x: number, y: number, width: number, color: string) => {
+  const logo = theme.logo
+    ? `  <image href="${escapeXml(theme.logo)}" x="${x}" y="${y}" width="${BRAND_LOGO_WIDTH}" height="${BRAND_LOGO_HEIGHT}" preserveAspectRatio="xMinYMid meet"/>`
+    : '';
+  const name = theme.brandName
+    ? `  <text x="${theme.logo ? x + width : x}" y="${y + BRAND_LOGO_HEIGHT / 2}" font-size="${BRAND_NAME_SIZE}" font-weight="bold" fill="${color}" dominant-baseline="central"${theme.logo ? ' text-anchor="end"' : ''}>${escapeXml(theme.brandName)}</text>`
+    : '';
+  return [logo, name].filter(Boolean).join('\n');
+};
+
+export const toInfographicSvg = (
+  items: InfographicItem[],
+  { isDarkMode = false, showDescription = true, theme: visualTheme = DEFAULT_THEME, layout = 'grid' }: InfographicSvgOptions = {}
+): InfographicSvg => {
+  const theme = getTheme(resolveThemeColors(visualTheme, isDarkMode), isDarkMode);
+  // No web fonts: an SVG drawn as an image cannot load them, so measuring and
+  // rendering both use the theme's system font stack
+  const fontFamily = themeFont(visualTheme);
+  const width = LAYOUT_WIDTHS[layout];
+  const descriptionFont = `${DESCRIPTION_SIZE}px ${fontFamily}`;
+
+  const measureCard = (index: number, cardWidth: number, isHero: boolean): Card => {
+    const item = items[index];
+    const textWidth = cardWidth - CARD_PADDING * 2;
+    const titleSize = isHero ? HERO_TITLE_SIZE : TITLE_SIZE;
+    const titleLineHeight = isHero ? HERO_TITLE_LINE_HEIGHT : TITLE_LINE_HEIGHT;
+    const titleLines = wrapText(item.title, `bold ${titleSize}px ${fontFamily}`, textWidth);
+    const descriptionLines = showDescription ? wrapText(item.description, descriptionFont, textWidth) : [];
+    const details = detailBlock(item, textWidth, theme, fontFamily);
+    const height = CARD_PADDING * 2 + ICON_BOX + CONTENT_GAP + titleLines.length * titleLineHeight
+      + (descriptionLines.length > 0 ? CONTENT_GAP + descriptionLines.length * DESCRIPTION_LINE_HEIGHT : 0)
+      + (details ? CONTENT_GAP + details.height : 0);
+
+    const render = (x: number, y: number, rowHeight: number) => {
+      const left = x + CARD_PADDING;
+      const titleTop = y + CARD_PADDING + ICON_BOX + CONTENT_GAP;
+      const descriptionTop = titleTop + titleLines.length * titleLineHeight + CONTENT_GAP;
+      const detailsTop = descriptionLines.length > 0
+        ? descriptionTop + descriptionLines.length * DESCRIPTION_LINE_HEIGHT + CONTENT_GAP
+        : descriptionTop;
+
+      return `  <g>
+    <rect x="${x}" y="${y}" width="${cardWidth}" height="${rowHeight}" rx="16" fill="${theme.cardFill}" stroke="${theme.cardStroke}"/>
+    ${iconMarkup(item.icon, x + cardWidth - 16 - WATERMARK_SIZE, y + 16, WATERMARK_SIZE, theme.watermark, 0.1)}
+    <rect x="${left}" y="${y + CARD_PADDING}" width="${ICON_BOX}" height="${ICON_BOX}" rx="12" fill="url(#icon-box)"/>
+    ${iconMarkup(item.icon, left + 12, y + CARD_PADDING + 12, 24, theme.icon)}
+    <text font-size="${titleSize}" font-weight="bold" fill="${theme.title}" dominant-baseline="hanging">${textLines(titleLines, left, titleTop, titleLineHeight)}</text>${descriptionLines.length > 0 ? `
+    <text font-size="${DESCRIPTION_SIZE}" fill="${theme.description}" dominant-baseline="hanging">${textLines(descriptionLines, left, descriptionTop + 4, DESCRIPTION_LINE_HEIGHT)}</text>` : ''}${details ? `
+    ${details.render(left, detailsTop)}` : ''}
+  </g>`;
+    };
+
+    return { height, render };
+  };
+
+  const contentWidth = width - PADDING * 2;
+  const hasHeader = hasBrandHeader(visualTheme);
+  const contentTop = PADDING + (hasHeader ? BRAND_LOGO_HEIGHT + GAP : 0);
+  const placed = placeLayout(
+    layout,
+    items,
+    PADDING,
+    contentTop,
+    contentWidth,
+    (index, cardWidth) => measureCard(index, cardWidth, false),
+    (index, cardWidth) => measureCard(index, cardWidth, true),
+    theme
+  );
+  const height = Math.round(placed.bottom + PADDING);
+  const header = hasHeader ? `${brandHeader(visualTheme, PADDING, PADDING, contentWidth, theme.accent)}\n` : '';
+
+  const svg = `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${escapeXml(fontFamily)}">
+  <defs>
+    <linearGradient id="background" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0%" stop-color="${theme.background[0]}"/>
+      <stop offset="50%" stop-color="${theme.background[1]}"/>
+      <stop offset="100%" stop-color="${theme.background[2]}"/>
+    </linearGradient>
+    <linearGradient id="icon-box" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0%" stop-color="${theme.iconBox[0]}"/>
+      <stop offset="100%" stop-color="${theme.iconBox[1]}"/>
+    </linearGradient>
+  </defs>
+  <rect width="100%" height="100%" fill="url(#background)"/>
+${header}${placed.markup.join('\n')}
+</svg>
+`;
+
+  return { svg, width, height };
+};
@@ -0,0 +1,25 @@
+import { InfographicItem } from "../types";
+
+// Arrangements of the infographic cards. InfographicView and the SVG export
+// both split the items with these helpers, so every layout exports as shown.
+
+export type InfographicLayout = 'grid' | 'poster' | 'heroCards' | 'steps' | 'comparison';
+
+export const INFOGRAPHIC_LAYOUTS: InfographicLayout[] = ['grid', 'poster', 'heroCards', 'steps', 'comparison'];
+
+// Two-column comparison: the items are split in two halves set side by side.
+// A 'comparison' item, when there is one, leads the left column so its pros
+// and cons open the page. Returns the items' indexes, which the view needs
+// to report clicks.
+export const splitColumns = (items: InfographicItem[]): [number[], number[]] => {
+  const indexes = items.map((_, i) => i);
+  const comparisonIndex = items.findIndex(item => item.kind === 'comparison');
+  const ordered = comparisonIndex > 0
+    ? [comparisonIndex, ...indexes.filter(i => i !== comparisonIndex)]
+    : indexes;
+  const half = Math.ceil(ordered.length / 2);
+  return [ordered.slice(0, half), ordered.slice(half)];
+};
+
+// Cards per row in the plain grid, as in the original design
+export const gridColumns = (count: number) => (count <= 4 ? 2 : 3);
@@ -0,0 +1,87 @@
+import { LanguageCode, OutputLanguage } from "../types";
+
+// Languages the generated summaries and visualizations can be written in.
+// Prompts are partly Vietnamese and partly English, so each language carries
+// its name in both.
+
+export const LANGUAGES: Record<LanguageCode, { nativeName: string; vietnameseName: string; englishName: string }> = {
+  vi: { nativeName: 'Tiếng Việt', vietnameseName: 'tiếng Việt', englishName: 'Vietnamese' },
+  en: { nativeName: 'English', vietnameseName: 'tiếng Anh', englishName: 'English' },
+  ja: { nativeName: '日本語', vietnameseName: 'tiếng Nhật', englishName: 'Japanese' },
+  zh: { nativeName: '中文', vietnameseName: 'tiếng Trung', englishName: 'Chinese' },
+  ko: { nativeName: '한국어', vietnameseName: 'tiếng Hàn', englishName: 'Korean' },
+  fr: { nativeName: 'Français', vietnameseName: 'tiếng Pháp', englishName: 'French' },
+  de: { nativeName: 'Deutsch', vietnameseName: 'tiếng Đức', englishName: 'German' },
+  es: { nativeName: 'Español', vietnameseName: 'tiếng Tây Ban Nha', englishName: 'Spanish' },
+};
+
+export const DEFAULT_OUTPUT_LANGUAGE: OutputLanguage = 'vi';
+
+const STORAGE_KEY = 'output-language';
+
+const isOutputLanguage = (value: unknown): value is OutputLanguage =>
+  value === 'auto' || (typeof value === 'string' && value in LANGUAGES);
+
+// Letters that only occur in a few Latin-script languages
+const VIETNAMESE_LETTERS = /[ăâđêôơưạảấầẩẫậắằẳẵặẹẻẽếềểễệỉịọỏốồổỗộớờởỡợụủứừửữựỳỵỷỹ]/gi;
+const GERMAN_LETTERS = /[äöüß]/gi;
+const SPANISH_LETTERS = /[ñ¿¡]/gi;
+const FRENCH_LETTERS = /[çœèêëîïûùÿ]/gi;
+
+// Stopwords for telling Latin-script languages apart when accents are rare
+const STOPWORDS: Partial<Record<LanguageCode, string[]>> = {
+  en: ['the', 'and', 'of', 'to', 'is', 'in', 'that', 'for', 'with', 'are'],
+  fr: ['le', 'la', 'les', 'et', 'des', 'est', 'une', 'pour', 'dans', 'que'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'mit', 'den', 'ein', 'zu'],
+  es: ['el', 'la', 'los', 'y', 'de', 'que', 'es', 'en', 'por', 'una'],
+  vi: ['và', 'của', 'là', 'có', 'các', 'những', 'được', 'trong', 'cho', 'không'],
+};
+
+const count = (text: string, pattern: RegExp) => text.match(pattern)?.length || 0;
+
+// Heuristic detection from a sample of the text: scripts first (kana, hangul,
+// han), then language-specific letters and common words. Returns null when
+// there is not enough text to tell.
+export const detectLanguage = (text: string): LanguageCode | null => {
+  const sample = text.slice(0, 5000);
+  const letters = count(sample, /\p{L}/gu);
+  if (letters < 20) return null;
+
+  if (count(sample, /[\u3040-\u30ff]/g) / letters > 0.05) return 'ja';
+  if (count(sample, /[\uac00-\ud7af]/g) / letters > 0.2) return 'ko';
+  if (count(sample, /\p{Script=Han}/gu) / letters > 0.2) return 'zh';
+  if (count(sample, VIETNAMESE_LETTERS) / letters > 0.03) return 'vi';
+
+  const words = sample.toLowerCase().split(/[^\p{L}]+/u).filter(Boolean);
+  const scores = (Object.keys(STOPWORDS) as LanguageCode[]).map(code => {
+    const stopwords = new Set(STOPWORDS[code]);
+    let score = words.filter(w => stopwords.has(w)).length;
+    if (code === 'de') score += count(sample, GERMAN_LETTERS) * 2;
+    if (code === 'es') score += count(sample, SPANISH_LETTERS) * 2;
+    if (code === 'fr') score += count(sample, FRENCH_LETTERS);
+    return { code, score };
+  });
+  const best = scores.reduce((a, b) => (b.score > a.score ? b : a));
+  return best.score > 0 ? best.code : null;
+};
+
+// The concrete language for a request, or null if 'auto' could not detect one
+export const resolveOutputLanguage = (language: OutputLanguage, sourceText: string): LanguageCode | null =>
+  language === 'auto' ? detectLanguage(sourceText) : language;
+
+export const getOutputLanguage = (): OutputLanguage => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return isOutputLanguage(stored) ? stored : DEFAULT_OUTPUT_LANGUAGE;
+  } catch {
+    return DEFAULT_OUTPUT_LANGUAGE;
+  }
+};
+
+export const setOutputLanguage = (language: OutputLanguage) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, language);
+  } catch {
+    // Storage can be unavailable (private mode); the choice still applies for this session
+  }
+};
@@ -0,0 +1,339 @@
+import { GraphData, VisualTheme } from "../types";
+import { ROOT_ID, getTreeInfo } from "./graphEditing";
+import { LayoutPositions } from "./mindMapLayout";
+import { getMindMapPalette, getNodeColor, getNodeRadius } from "./mindMapStyle";
+import { DEFAULT_THEME, hasBrandHeader, resolveThemeColors, themeFont } from "./theme";
+import { RELATION_STYLES, arrowMarkerId, arrowMarkerSvg, edgeGeometry, relationLabel, relationTypesIn, relationWidth } from "./conceptMap";
+import { isMultiDocumentMap, nodeSource, sourceColor, sourceCounts, sourceLabel } from "./multiDocument";
+
+// Converts a mind map into formats other tools understand. The outline
+// formats follow the tree from the root; the SVG is self-contained (inline
+// colors, native <text> labels, no filters or foreignObject) so it renders
+// the same in browsers, Inkscape, Figma and slide tools.
+
+export type MindMapExportFormat = 'svg' | 'opml' | 'freemind' | 'markdown' | 'mermaid' | 'json';
+
+export const EXPORT_FORMATS: Record<MindMapExportFormat, { label: string; extension: string; mimeType: string }> = {
+  svg: { label: 'SVG', extension: 'svg', mimeType: 'image/svg+xml' },
+  opml: { label: 'OPML', extension: 'opml', mimeType: 'text/x-opml' },
+  freemind: { label: 'FreeMind / XMind (.mm)', extension: 'mm', mimeType: 'application/x-freemind' },
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  mermaid: { label: 'Mermaid', extension: 'mmd', mimeType: 'text/plain' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+};
+
+export interface OutlineNode {
+  id: string;
+  label: string;
+  children: OutlineNode[];
+}
+
+export const toOutline = (data: GraphData): OutlineNode | null => {
+  const { children } = getTreeInfo(data);
+  const rootId = children.has(ROOT_ID) ? ROOT_ID : data.nodes[0]?.id;
+  if (!rootId) return null;
+
+  const labels = new Map(data.nodes.map(n => [n.id, n.label]));
+  const build = (id: string): OutlineNode => ({
+    id,
+    label: (labels.get(id) || id).replace(/\s+/g, ' ').trim(),
+    children: (children.get(id) || []).map(build),
+  });
+  return build(rootId);
+};
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+export const toOpml = (data: GraphData): string => {
+  const root = toOutline(data);
+  if (!root) return '';
+
+  const render = (node: OutlineNode, depth: number): string => {
+    const indent = '  '.repeat(depth);
+    if (node.children.length === 0) return `${indent}<outline text="${escapeXml(node.label)}"/>`;
+    return [
+      `${indent}<outline text="${escapeXml(node.label)}">`,
+      ...node.children.map(c => render(c, depth + 1)),
+      `${indent}</outline>`,
+    ].join('\n');
+  };
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<opml version="2.0">
+  <head>
+    <title>${escapeXml(root.label)}</title>
+  </head>
+  <body>
+${render(root, 2)}
+  </body>
+</opml>
+`;
+};
+
+// FreeMind's .mm format; XMind, Freeplane and most mind map tools import it
+export const toFreeMind = (data: GraphData): string => {
+  const root = toOutline(data);
+  if (!root) return '';
+
+  const render = (node: OutlineNode, depth: number, position?: 'left' | 'right'): string => {
+    const indent = '  '.repeat(depth);
+    const attributes = `TEXT="${escapeXml(node.label)}"${position ? ` POSITION="${position}"` : ''}`;
+    if (node.children.length === 0) return `${indent}<node ${attributes}/>`;
+    return [
+      `${indent}<node ${attributes}>`,
+      // Main branches alternate sides like the classic mind map layout
+      ...node.children.map((c, i) => render(c, depth + 1, depth === 1 ? (i % 2 === 0 ? 'right' : 'left') : undefined)),
+      `${indent}</node>`,
+    ].join('\n');
+  };
+
+  return `<map version="1.0.1">
+${render(root, 1)}
+</map>
+`;
+};
+
+export const toMarkdownOutline = (data: GraphData): string => {
+  const root = toOutline(data);
+  if (!root) return '';
+
+  const lines = [`# ${root.label}`, ''];
+  const render = (node: OutlineNode, depth: number) => {
+    lines.push(`${'  '.repeat(depth)}- ${node.label}`);
+    node.children.forEach(c => render(c, depth + 1));
+  };
+  root.children.forEach(c => render(c, 0));
+  return `${lines.join('\n')}\n`;
+};
+
+export const toMermaid = (data: GraphData): string => {
+  const root = toOutline(data);
+  if (!root) return '';
+
+  let counter = 0;
+  // Brackets and parentheses are shape syntax in Mermaid, so such labels are quoted
+  const nodeText = (label: string) => {
+    counter++;
+    return /[()[\]{}"]/.test(label) ? `n${counter}["${label.replace(/"/g, '#quot;')}"]` : label;
+  };
+
+  const lines = ['mindmap', `  root((${root.label.replace(/[()]/g, '').replace(/"/g, '#quot;')}))`];
+  const render = (node: OutlineNode, depth: number) => {
+    lines.push(`${'  '.repeat(depth)}${nodeText(node.label)}`);
+    node.children.forEach(c => render(c, depth + 1));
+  };
+  root.children.forEach(c => render(c, 2));
+  return `${lines.join('\n')}\n`;
+};
+
+// ---------------------------------------------------------------------------
+// SVG
+// ---------------------------------------------------------------------------
+
+const FONT_SIZE = 11;
+const LINE_HEIGHT = 13;
+const AVERAGE_CHAR_WIDTH = 6; // Rough width of one character at FONT_SIZE
+const EXPORT_MARGIN = 40;
+const BRAND_HEIGHT = 40; // Logo and brand name above the drawing
+const BRAND_SIZE = 16;
+const LEGEND_ROW = 20; // Legend of relation types and document sources below the drawing
+const LEGEND_SWATCH = 24;
+
+// Greedy word wrap that fits a label inside its circle, ending with "…" when cut
+const wrapLabel = (label: string, radius: number): string[] => {
+  const maxChars = Math.max(Math.floor(((radius - 4) * 2) / AVERAGE_CHAR_WIDTH), 4);
+  const maxLines = Math.max(Math.floor(((radius - 4) * 2) / LINE_HEIGHT), 1);
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of label.split(/\s+/)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length <= maxChars || !current) {
+      current = candidate;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  }
+  if (current) lines.push(current);
+
+  if (lines.length > maxLines) {
+    lines.length = maxLines;
+    lines[maxLines - 1] = `${lines[maxLines - 1].slice(0, maxChars - 1)}…`;
+  }
+  return lines.map(l => (l.length > maxChars ? `${l.slice(0, maxChars - 1)}…` : l));
+};
+
+interface LegendEntry {
+  label: string;
+  swatch: (x: number, y: number) => string; // Drawn LEGEND_SWATCH wide, centered on y
+}
+
+// One entry per relation type and per document source in use, wrapped into rows that fit the width
+const legendSvg = (data: GraphData, top: number, width: number, textColor: string) => {
+  const documents = data.documents || [];
+  const legend: LegendEntry[] = [
+    ...relationTypesIn(data.links).map(type => {
+      const { color, dash } = RELATION_STYLES[type];
+      return {
+        label: relationLabel(type),
+        swatch: (x: number, y: number) =>
+          `<line x1="${x}" y1="${y}" x2="${x + LEGEND_SWATCH}" y2="${y}" stroke="${color}" stroke-width="2.5"${dash ? ` stroke-dasharray="${dash}"` : ''}/>`,
+      };
+    }),
+    ...(isMultiDocumentMap(data) ? sourceCounts(data) : []).map(({ source }) => ({
+      label: sourceLabel(source, documents),
+      swatch: (x: number, y: number) =>
+        `<circle cx="${x + LEGEND_SWATCH / 2}" cy="${y}" r="6" fill="none" stroke="${sourceColor(source, documents)}" stroke-width="3"/>`,
+    })),
+  ];
+
+  const entries: string[] = [];
+  let x = EXPORT_MARGIN / 2;
+  let y = top + LEGEND_ROW / 2;
+  legend.forEach(({ label, swatch }) => {
+    const entryWidth = LEGEND_SWATCH + 6 + label.length * AVERAGE_CHAR_WIDTH + 16;
+    if (entries.length > 0 && x + entryWidth > width - EXPORT_MARGIN / 2) {
+      x = EXPORT_MARGIN / 2;
+      y += LEGEND_ROW;
+    }
+    entries.push(`    ${swatch(x, y)}
+    <text x="${x + LEGEND_SWATCH + 6}" y="${y}" dominant-baseline="central" fill="${textColor}">${escapeXml(label)}</text>`);
+    x += entryWidth;
+  });
+  return { markup: entries.join('\n'), height: entries.length > 0 ? y - top + LEGEND_ROW / 2 : 0 };
+};
+
+// The brand's logo and name in the top left corner
+const brandSvg = (theme: VisualTheme, color: string, fontFamily: string) => {
+  const logo = theme.logo
+    ? `  <image href="${escapeXml(theme.logo)}" x="${EXPORT_MARGIN / 2}" y="8" width="24" height="24" preserveAspectRatio="xMidYMid meet"/>\n`
+    : '';
+  const nameX = EXPORT_MARGIN / 2 + (theme.logo ? 32 : 0);
+  const name = theme.brandName
+    ? `  <text x="${nameX}" y="${BRAND_HEIGHT / 2}" dominant-baseline="central" font-family="${fontFamily}" font-size="${BRAND_SIZE}" font-weight="700" fill="${color}">${escapeXml(theme.brandName)}</text>\n`
+    : '';
+  return logo + name;
+};
+
+export const toSvg = (
+  data: GraphData,
+  positions: LayoutPositions,
+  isDarkMode: boolean = false,
+  theme: VisualTheme = DEFAULT_THEME
+): string => {
+  const palette = getMindMapPalette(isDarkMode);
+  const colors = resolveThemeColors(theme, isDarkMode);
+  const fontFamily = escapeXml(themeFont(theme));
+  const nodes = data.nodes.filter(n => positions.has(n.id));
+  if (nodes.length === 0) return '';
+
+  // Crop to the drawing instead of the on-screen viewport
+  const minX = Math.min(...nodes.map(n => positions.get(n.id)!.x - getNodeRadius(n.group))) - EXPORT_MARGIN;
+  const minY = Math.min(...nodes.map(n => positions.get(n.id)!.y - getNodeRadius(n.group))) - EXPORT_MARGIN;
+  const maxX = Math.max(...nodes.map(n => positions.get(n.id)!.x + getNodeRadius(n.group))) + EXPORT_MARGIN;
+  const maxY = Math.max(...nodes.map(n => positions.get(n.id)!.y + getNodeRadius(n.group))) + EXPORT_MARGIN;
+  const brandHeight = hasBrandHeader(theme) ? BRAND_HEIGHT : 0;
+  const width = Math.round(maxX - minX);
+  const drawingHeight = Math.round(maxY - minY) + brandHeight;
+  const legend = legendSvg(data, drawingHeight, width, palette.text);
+  const height = drawingHeight + Math.round(legend.height) + (legend.height ? EXPORT_MARGIN / 2 : 0);
+  const round = (value: number) => Math.round(value * 10) / 10;
+
+  const placedLinks = data.links.filter(l => positions.has(l.source) && positions.has(l.target));
+  const links = placedLinks
+    .filter(l => !l.type)
+    .map(l => {
+      const a = positions.get(l.source)!;
+      const b = positions.get(l.target)!;
+      return `    <line x1="${round(a.x - minX)}" y1="${round(a.y - minY + brandHeight)}" x2="${round(b.x - minX)}" y2="${round(b.y - minY + brandHeight)}"/>`;
+    });
+
+  // Concept map relations: directed and styled like on screen
+  const groups = new Map(nodes.map(n => [n.id, n.group]));
+  const labels = new Map(nodes.map(n => [n.id, n.label]));
+  const relations = placedLinks.filter(l => l.type).map(l => {
+    const a = positions.get(l.source)!;
+    const b = positions.get(l.target)!;
+    const edge = edgeGeometry(
+      { x: a.x - minX, y: a.y - minY + brandHeight },
+      { x: b.x - minX, y: b.y - minY + brandHeight },
+      getNodeRadius(groups.get(l.source)) + 2,
+      getNodeRadius(groups.get(l.target)) + 2,
+      l.crossLink
+    );
+    if (!edge) return '';
+    const { color, dash } = RELATION_STYLES[l.type!];
+    const label = l.label
+      ? `\n      <text x="${round(edge.label.x)}" y="${round(edge.label.y)}" text-anchor="middle" dominant-baseline="central" font-size="10" font-weight="600" fill="${color}" stroke="${palette.background}" stroke-width="3" paint-order="stroke">${escapeXml(l.label)}</text>`
+      : '';
+    return `    <g>
+      <title>${escapeXml(`${labels.get(l.source)} — ${l.label || relationLabel(l.type!)} → ${labels.get(l.target)}`)}</title>
+      <path d="${edge.path}" fill="none" stroke="${color}" stroke-width="${relationWidth(l)}" stroke-opacity="0.85"${dash ? ` stroke-dasharray="${dash}"` : ''} marker-end="url(#${arrowMarkerId(l.type!)})"/>${label}
+    </g>`;
+  }).filter(Boolean);
+
+  // Multi-document maps color ideas by the documents they come from
+  const documents = data.documents || [];
+  const circles = nodes.map(n => {
+    const { x, y } = positions.get(n.id)!;
+    const source = nodeSource(n, documents);
+    const radius = getNodeRadius(n.group);
+    const lines = wrapLabel(n.label, radius);
+    const firstLineY = -((lines.length - 1) * LINE_HEIGHT) / 2;
+    const tspans = lines
+      .map((line, i) => `<tspan x="0" y="${round(firstLineY + i * LINE_HEIGHT)}">${escapeXml(line)}</tspan>`)
+      .join('');
+
+    return `    <g transform="translate(${round(x - minX)}, ${round(y - minY + brandHeight)})">
+      <circle r="${radius}" fill="${palette.nodeFill}" stroke="${source ? sourceColor(source, documents) : getNodeColor(n.group, colors)}" stroke-width="3"/>
+      <text text-anchor="middle" dominant-baseline="central">${tspans}</text>
+    </g>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  <title>${escapeXml(toOutline(data)?.label || '')}</title>
+  <rect width="100%" height="100%" fill="${palette.background}"/>
+${relations.length > 0 ? `  <defs>
+    ${relationTypesIn(placedLinks).map(arrowMarkerSvg).join('\n    ')}
+  </defs>
+` : ''}${brandHeight ? brandSvg(theme, colors.primary, fontFamily) : ''}  <g stroke="${palette.link}" stroke-width="2">
+${links.join('\n')}
+  </g>${relations.length > 0 ? `
+  <g font-family="${fontFamily}">
+${relations.join('\n')}
+  </g>` : ''}
+  <g font-family="${fontFamily}" font-size="${FONT_SIZE}" font-weight="600" fill="${palette.text}">
+${circles.join('\n')}
+  </g>${legend.height ? `
+  <g font-family="${fontFamily}" font-size="${FONT_SIZE}">
+${legend.markup}
+  </g>` : ''}
+</svg>
+`;
+};
+
+export const exportMindMap = (
+  data: GraphData,
+  format: MindMapExportFormat,
+  positions: LayoutPositions,
+  isDarkMode: boolean = false,
+  theme: VisualTheme = DEFAULT_THEME
+): string => {
+  switch (format) {
+    case 'svg': return toSvg(data, positions, isDarkMode, theme);
+    case 'opml': return toOpml(data);
+    case 'freemind': return toFreeMind(data);
+    case 'markdown': return toMarkdownOutline(data);
+    case 'mermaid': return toMermaid(data);
+    // The app's own format, for opening the map again later
+    case 'json': return JSON.stringify(data, null, 2);
+  }
+};
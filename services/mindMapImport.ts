@@ -0,0 +1,181 @@
+import { GraphData, LinkData, NodeData } from "../types";
+import { t } from "../i18n";
+import { ROOT_ID } from "./graphEditing";
+import { ValidationResult, validateGraphData } from "./validation";
+
+// Reads mind maps made elsewhere (or exported from this app) back into
+// GraphData. Outline formats are turned into a tree first and then go through
+// validateGraphData like generated maps, so groups and the root are
+// normalised the same way.
+
+export type MindMapImportFormat = 'opml' | 'freemind' | 'markdown' | 'json';
+
+export const IMPORT_EXTENSIONS = ['.opml', '.mm', '.md', '.markdown', '.txt', '.json'];
+
+interface OutlineEntry {
+  label: string;
+  children: OutlineEntry[];
+}
+
+export const detectImportFormat = (fileName: string, text: string): MindMapImportFormat | null => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'opml') return 'opml';
+  if (extension === 'mm') return 'freemind';
+  if (extension === 'json') return 'json';
+  if (extension === 'md' || extension === 'markdown' || extension === 'txt') return 'markdown';
+
+  // Unknown extension: sniff the content
+  const head = text.trimStart().slice(0, 200);
+  if (head.startsWith('{')) return 'json';
+  if (/<opml[\s>]/i.test(head)) return 'opml';
+  if (/<map[\s>]/i.test(head)) return 'freemind';
+  return null;
+};
+
+const cleanLabel = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Several top-level entries share a synthetic root named after the document
+const toSingleRoot = (entries: OutlineEntry[], title: string): OutlineEntry => {
+  if (entries.length === 1) return entries[0];
+  return { label: title, children: entries };
+};
+
+const outlineToGraph = (root: OutlineEntry): GraphData => {
+  const nodes: NodeData[] = [];
+  const links: LinkData[] = [];
+  let counter = 0;
+
+  const visit = (entry: OutlineEntry, parentId: string | null, depth: number) => {
+    const id = parentId === null ? ROOT_ID : `node-${++counter}`;
+    nodes.push({ id, label: entry.label, group: depth === 0 ? 1 : depth === 1 ? 2 : 3 });
+    if (parentId !== null) links.push({ source: parentId, target: id });
+    entry.children.forEach(child => visit(child, id, depth + 1));
+  };
+  visit(root, null, 0);
+
+  return { nodes, links };
+};
+
+const parseXml = (text: string, rootTag: string): Document => {
+  const xml = new DOMParser().parseFromString(text, 'application/xml');
+  if (xml.getElementsByTagName('parsererror').length > 0 || xml.documentElement.tagName !== rootTag) {
+    throw new Error(`Not a valid <${rootTag}> document`);
+  }
+  return xml;
+};
+
+const childElements = (element: Element, tagName: string) =>
+  Array.from(element.children).filter(c => c.tagName === tagName);
+
+export const parseOpml = (text: string, fallbackTitle: string): OutlineEntry => {
+  const xml = parseXml(text, 'opml');
+  const body = xml.getElementsByTagName('body')[0];
+  if (!body) throw new Error("OPML document has no <body>");
+
+  const read = (outline: Element): OutlineEntry => ({
+    label: cleanLabel(outline.getAttribute('text') || outline.getAttribute('title') || ''),
+    children: childElements(outline, 'outline').map(read),
+  });
+
+  const entries = childElements(body, 'outline').map(read);
+  if (entries.length === 0) throw new Error("OPML document has no outlines");
+  const title = cleanLabel(xml.getElementsByTagName('title')[0]?.textContent || '') || fallbackTitle;
+  return toSingleRoot(entries, title);
+};
+
+export const parseFreeMind = (text: string): OutlineEntry => {
+  const xml = parseXml(text, 'map');
+  const rootNode = childElements(xml.documentElement, 'node')[0];
+  if (!rootNode) throw new Error("FreeMind document has no root <node>");
+
+  // Rich text nodes keep their label as HTML inside <richcontent>
+  const labelOf = (node: Element) => {
+    const plain = node.getAttribute('TEXT');
+    if (plain !== null) return cleanLabel(plain);
+    const rich = childElements(node, 'richcontent').find(r => (r.getAttribute('TYPE') || 'NODE') === 'NODE');
+    return cleanLabel(rich?.textContent || '');
+  };
+
+  const read = (node: Element): OutlineEntry => ({
+    label: labelOf(node),
+    children: childElements(node, 'node').map(read),
+  });
+  return read(rootNode);
+};
+
+// Inline Markdown that would otherwise show up literally in node labels
+const stripInlineMarkdown = (text: string) =>
+  text
+    .replace(/^\[[ xX]\]\s+/, '')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[\[([^\]|]*)(\|([^\]]*))?\]\]/g, (_, target, __, alias) => alias || target)
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/\*([^*]+)\*/g, '$1')
+    .replace(/\b_([^_]+)_\b/g, '$1')
+    .replace(/`([^`]*)`/g, '$1');
+
+export const parseMarkdownOutline = (text: string, fallbackTitle: string): OutlineEntry => {
+  const top: OutlineEntry[] = [];
+  // Open entries by level; headings use their level, bullets nest below the last heading
+  const stack: { level: number; entry: OutlineEntry }[] = [];
+  let headingLevel = 0;
+  let indentWidths: number[] = [];
+  let inCodeBlock = false;
+
+  const add = (level: number, label: string) => {
+    const entry: OutlineEntry = { label: cleanLabel(stripInlineMarkdown(label)), children: [] };
+    if (!entry.label) return;
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) stack.pop();
+    if (stack.length > 0) stack[stack.length - 1].entry.children.push(entry);
+    else top.push(entry);
+    stack.push({ level, entry });
+  };
+
+  text.split(/\r?\n/).forEach(line => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCodeBlock = !inCodeBlock;
+      return;
+    }
+    if (inCodeBlock) return;
+
+    const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      headingLevel = heading[1].length;
+      indentWidths = [];
+      add(headingLevel, heading[2]);
+      return;
+    }
+
+    const bullet = line.match(/^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/);
+    if (bullet) {
+      const indent = bullet[1].replace(/\t/g, '    ').length;
+      // Indentation steps differ between editors, so nesting follows distinct widths
+      while (indentWidths.length > 0 && indentWidths[indentWidths.length - 1] > indent) indentWidths.pop();
+      if (indentWidths.length === 0 || indentWidths[indentWidths.length - 1] < indent) indentWidths.push(indent);
+      add(headingLevel + indentWidths.length, bullet[2]);
+    }
+  });
+
+  if (top.length === 0) throw new Error("No headings or list items found");
+  return toSingleRoot(top, fallbackTitle);
+};
+
+export const importMindMap = (fileName: string, text: string): ValidationResult<GraphData> => {
+  const format = detectImportFormat(fileName, text);
+  if (!format) throw new Error(`Unsupported mind map file: ${fileName}`);
+
+  // The app's own JSON is checked and repaired exactly like model output
+  if (format === 'json') return validateGraphData(text);
+
+  const title = cleanLabel(fileName.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ')) || t('mindmap.untitled');
+  const outline = format === 'opml'
+    ? parseOpml(text, title)
+    : format === 'freemind'
+      ? parseFreeMind(text)
+      : parseMarkdownOutline(text, title);
+
+  return validateGraphData(JSON.stringify(outlineToGraph(outline)));
+};
+
+export const importMindMapFile = async (file: File): Promise<ValidationResult<GraphData>> =>
+  importMindMap(file.name, await file.text());
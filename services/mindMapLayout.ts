@@ -0,0 +1,136 @@
+import * as d3 from 'd3';
+import { GraphData } from "../types";
+import { ROOT_ID, getTreeInfo } from "./graphEditing";
+
+// Deterministic alternatives to the force simulation. Positions depend only on
+// the map's structure and node order, so the same GraphData always produces
+// the same picture (and the same exported file).
+
+export type MindMapLayout = 'force' | 'radial' | 'tree' | 'mindmap';
+
+export const LAYOUTS: MindMapLayout[] = ['force', 'radial', 'tree', 'mindmap'];
+
+export type LayoutPositions = Map<string, { x: number; y: number }>;
+
+interface TreeDatum {
+  id: string;
+  children: TreeDatum[];
+}
+
+// Vertical distance between neighbouring leaves and horizontal distance
+// between levels, in SVG units; chosen so the largest circles do not touch.
+const SIBLING_SPACING = 80;
+const LEVEL_SPACING = 170;
+const RADIAL_RING_SPACING = 130;
+
+const buildTree = (data: GraphData, hiddenIds: Set<string>): TreeDatum | null => {
+  const { children } = getTreeInfo(data);
+  const rootId = children.has(ROOT_ID) ? ROOT_ID : data.nodes[0]?.id;
+  if (!rootId) return null;
+
+  const build = (id: string): TreeDatum => ({
+    id,
+    children: (children.get(id) || []).filter(c => !hiddenIds.has(c)).map(build),
+  });
+  return build(rootId);
+};
+
+const leafCount = (datum: TreeDatum): number =>
+  datum.children.length === 0 ? 1 : datum.children.reduce((sum, c) => sum + leafCount(c), 0);
+
+// Lays out a tree growing to the right, with the root at (0, 0)
+const tidyTree = (datum: TreeDatum, positions: LayoutPositions, direction: 1 | -1 = 1) => {
+  const root = d3.tree<TreeDatum>().nodeSize([SIBLING_SPACING, LEVEL_SPACING])(d3.hierarchy<TreeDatum>(datum, d => d.children));
+  root.each((node: d3.HierarchyPointNode<TreeDatum>) => {
+    positions.set(node.data.id, { x: node.y * direction, y: node.x });
+  });
+};
+
+const radialLayout = (datum: TreeDatum): LayoutPositions => {
+  const positions: LayoutPositions = new Map();
+  const hierarchy = d3.hierarchy<TreeDatum>(datum, d => d.children);
+  const radius = Math.max(hierarchy.height, 1) * RADIAL_RING_SPACING;
+
+  const root = d3.tree<TreeDatum>()
+    .size([2 * Math.PI, radius])
+    .separation((a: d3.HierarchyPointNode<TreeDatum>, b: d3.HierarchyPointNode<TreeDatum>) =>
+      (a.parent === b.parent ? 1 : 2) / Math.max(a.depth, 1))(hierarchy);
+
+  root.each((node: d3.HierarchyPointNode<TreeDatum>) => {
+    const angle = node.x - Math.PI / 2;
+    positions.set(node.data.id, { x: node.y * Math.cos(angle), y: node.y * Math.sin(angle) });
+  });
+  return positions;
+};
+
+// Classic mind map: main branches split between the right and left side,
+// balanced by the number of leaves each one carries.
+const twoSidedLayout = (datum: TreeDatum): LayoutPositions => {
+  const positions: LayoutPositions = new Map();
+  const total = leafCount(datum);
+  const right: TreeDatum[] = [];
+  const left: TreeDatum[] = [];
+
+  let rightLeaves = 0;
+  datum.children.forEach(branch => {
+    if (rightLeaves < total / 2) {
+      right.push(branch);
+      rightLeaves += leafCount(branch);
+    } else {
+      left.push(branch);
+    }
+  });
+
+  tidyTree({ id: datum.id, children: right }, positions, 1);
+  const rightRoot = positions.get(datum.id)!;
+  const leftPositions: LayoutPositions = new Map();
+  tidyTree({ id: datum.id, children: left }, leftPositions, -1);
+  const leftRoot = leftPositions.get(datum.id)!;
+
+  // Both halves are laid out with the root at their own vertical center; align them
+  leftPositions.forEach((pos, id) => {
+    if (id !== datum.id) positions.set(id, { x: pos.x, y: pos.y - leftRoot.y + rightRoot.y });
+  });
+  return positions;
+};
+
+// Moves the layout so its bounding box is centered in the viewport
+const centerIn = (positions: LayoutPositions, width: number, height: number): LayoutPositions => {
+  const values = Array.from(positions.values());
+  if (values.length === 0) return positions;
+
+  const minX = Math.min(...values.map(p => p.x));
+  const maxX = Math.max(...values.map(p => p.x));
+  const minY = Math.min(...values.map(p => p.y));
+  const maxY = Math.max(...values.map(p => p.y));
+  const dx = width / 2 - (minX + maxX) / 2;
+  const dy = height / 2 - (minY + maxY) / 2;
+
+  const centered: LayoutPositions = new Map();
+  positions.forEach((p, id) => centered.set(id, { x: p.x + dx, y: p.y + dy }));
+  return centered;
+};
+
+// Returns null for the force layout, which is computed by the simulation instead
+export const computeLayout = (
+  data: GraphData,
+  layout: MindMapLayout,
+  width: number,
+  height: number,
+  hiddenIds: Set<string> = new Set()
+): LayoutPositions | null => {
+  if (layout === 'force') return null;
+  const datum = buildTree(data, hiddenIds);
+  if (!datum) return new Map();
+
+  let positions: LayoutPositions;
+  if (layout === 'radial') {
+    positions = radialLayout(datum);
+  } else if (layout === 'mindmap') {
+    positions = twoSidedLayout(datum);
+  } else {
+    positions = new Map();
+    tidyTree(datum, positions);
+  }
+  return centerIn(positions, width, height);
+};
@@ -0,0 +1,25 @@
+import { ThemeColors } from "./theme";
+
+// Colors and sizes shared by the interactive mind map and its exports, so a
+// downloaded SVG looks like what is on screen.
+
+// Root, branch and leaf nodes take the theme's primary, secondary and accent colors
+export const getNodeColor = (group: number = 2, colors: ThemeColors) => {
+  if (group === 1) return colors.primary;
+  if (group === 2) return colors.secondary;
+  return colors.accent;
+};
+
+export const getNodeRadius = (group: number = 2) => {
+  if (group === 1) return 50;
+  if (group === 2) return 35;
+  return 25;
+};
+
+export const getMindMapPalette = (isDarkMode: boolean = false) => ({
+  text: isDarkMode ? "#e2e8f0" : "#1e293b",
+  link: isDarkMode ? "rgba(255,255,255,0.3)" : "rgba(0,0,0,0.2)",
+  nodeFill: isDarkMode ? "rgba(30, 41, 59, 0.9)" : "rgba(255,255,255,0.9)",
+  selection: isDarkMode ? "#fbbf24" : "#f59e0b",
+  background: isDarkMode ? "#0f172a" : "#f8fafc",
+});
@@ -0,0 +1,92 @@
+import { ComparedDocument, DocumentRef, GraphData, NodeData } from "../types";
+import { t } from "../i18n";
+
+// Multi-document mode: several sources on the same topic are summarized one
+// by one, then mapped together. Every idea of the combined map is tagged with
+// the documents it comes from and colored by that: shared by all of them,
+// found in one only or, with three or more documents, in some of them.
+
+export const DOCUMENT_KEYS = ['A', 'B', 'C', 'D'];
+export const MIN_DOCUMENTS = 2;
+export const MAX_DOCUMENTS = DOCUMENT_KEYS.length;
+
+const defaultLabel = (key: string) => t('compare.defaultLabel', { key });
+
+export const createComparedDocument = (index: number): ComparedDocument => ({
+  key: DOCUMENT_KEYS[index],
+  label: defaultLabel(DOCUMENT_KEYS[index]),
+  text: '',
+  sourceDocument: null,
+  summary: '',
+});
+
+// Keys follow the order, so removing a document moves the later ones up;
+// labels that were never changed move with their key
+export const rekeyDocuments = (documents: ComparedDocument[]): ComparedDocument[] =>
+  documents.map((d, i) => ({
+    ...d,
+    key: DOCUMENT_KEYS[i],
+    label: d.label === defaultLabel(d.key) ? defaultLabel(DOCUMENT_KEYS[i]) : d.label,
+  }));
+
+export const documentRefs = (documents: ComparedDocument[]): DocumentRef[] =>
+  documents.map(({ key, label }) => ({ key, label }));
+
+// Texts and summaries are combined under a "[A] label" line per document,
+// which is how the prompts and the source panel tell the documents apart
+const documentBlock = (document: DocumentRef, body: string) => `[${document.key}] ${document.label}\n${body.trim()}`;
+
+export const combineTexts = (documents: ComparedDocument[]) =>
+  documents.map(d => documentBlock(d, d.text)).join('\n\n');
+
+// Each document's own text and where it starts in combineTexts, so passages
+// found in one document can be stored with offsets into the combined text
+export const documentBodies = (documents: ComparedDocument[]) => {
+  let offset = 0;
+  return documents.map(d => {
+    const block = documentBlock(d, d.text);
+    const body = d.text.trim();
+    const start = offset + block.length - body.length;
+    offset += block.length + 2;
+    return { key: d.key, text: body, start };
+  });
+};
+
+export const combineSummaries = (documents: ComparedDocument[]) =>
+  documents.filter(d => d.summary).map(d => documentBlock(d, d.summary)).join('\n\n');
+
+export const isMultiDocumentMap = (data: GraphData) => (data.documents?.length ?? 0) >= MIN_DOCUMENTS;
+
+// 'shared' for ideas of every document, a document's key for ideas of that
+// document only, 'some' for ideas of several but not all; null when the
+// idea is not tagged (e.g. added by hand)
+export const nodeSource = (node: NodeData, documents: DocumentRef[]): string | null => {
+  const keys = (node.documents || []).filter(key => documents.some(d => d.key === key));
+  if (keys.length === 0) return null;
+  if (keys.length === documents.length) return 'shared';
+  return keys.length === 1 ? keys[0] : 'some';
+};
+
+const SHARED_COLOR = '#8b5cf6';
+const SOME_COLOR = '#64748b';
+const DOCUMENT_COLORS = ['#3b82f6', '#f97316', '#10b981', '#ec4899'];
+
+export const sourceColor = (source: string, documents: DocumentRef[]) => {
+  if (source === 'shared') return SHARED_COLOR;
+  const index = documents.findIndex(d => d.key === source);
+  return index === -1 ? SOME_COLOR : DOCUMENT_COLORS[index % DOCUMENT_COLORS.length];
+};
+
+export const sourceLabel = (source: string, documents: DocumentRef[]) => {
+  if (source === 'shared') return t('compare.shared');
+  if (source === 'some') return t('compare.some');
+  return t('compare.only', { label: documents.find(d => d.key === source)?.label ?? source });
+};
+
+// Sources in use with their node counts, in legend order: shared, each document, some
+export const sourceCounts = (data: GraphData): { source: string; count: number }[] => {
+  const documents = data.documents || [];
+  return ['shared', ...documents.map(d => d.key), 'some']
+    .map(source => ({ source, count: data.nodes.filter(n => nodeSource(n, documents) === source).length }))
+    .filter(({ count }) => count > 0);
+};
@@ -0,0 +1,161 @@
+import { Project } from "../types";
+import { t } from "../i18n";
+import { normalizeSummaryStyle } from "./summaryStyle";
+import { PROJECTS_STORE, withStore } from "./database";
+
+// Local project library kept in IndexedDB, so sessions survive a refresh
+// without any backend. localStorage only remembers which project was open.
+
+const CURRENT_PROJECT_KEY = 'current-project-id';
+
+const ARCHIVE_APP = 'gemini-visualizer-vn';
+const ARCHIVE_VERSION = 1;
+
+export interface LibraryArchive {
+  app: typeof ARCHIVE_APP;
+  version: number;
+  exportedAt: number;
+  projects: Project[];
+}
+
+export const createProjectId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `project-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Most recently edited first
+export const listProjects = async (): Promise<Project[]> => {
+  const projects = await withStore<Project[]>(PROJECTS_STORE, 'readonly', store => store.getAll());
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProject = async (id: string): Promise<Project | null> =>
+  (await withStore<Project | undefined>(PROJECTS_STORE, 'readonly', store => store.get(id))) || null;
+
+export const saveProject = async (project: Project): Promise<Project> => {
+  await withStore(PROJECTS_STORE, 'readwrite', store => store.put(project));
+  return project;
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await withStore(PROJECTS_STORE, 'readwrite', store => store.delete(id));
+  if (getCurrentProjectId() === id) setCurrentProjectId(null);
+};
+
+export const renameProject = async (id: string, title: string): Promise<Project | null> => {
+  const project = await getProject(id);
+  if (!project) return null;
+  return saveProject({ ...project, title: title.trim() || project.title, updatedAt: Date.now() });
+};
+
+export const duplicateProject = async (id: string): Promise<Project | null> => {
+  const project = await getProject(id);
+  if (!project) return null;
+  const now = Date.now();
+  return saveProject({ ...project, id: createProjectId(), title: `${project.title} ${t('library.copySuffix')}`, createdAt: now, updatedAt: now });
+};
+
+// Case and accent insensitive, so "tom tat" finds "Tóm tắt"
+const normalize = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/đ/g, 'd').replace(/Đ/g, 'D').toLowerCase();
+
+export const searchProjects = (projects: Project[], query: string): Project[] => {
+  const terms = normalize(query).split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return projects;
+
+  return projects.filter(project => {
+    const haystack = normalize([
+      project.title,
+      project.summary,
+      project.inputText,
+      ...(project.graphData?.nodes.map(n => n.label) || []),
+      ...(project.infographicData?.map(i => i.title) || []),
+      ...(project.timelineData?.map(e => e.title) || []),
+    ].join('\n'));
+    return terms.every(term => haystack.includes(term));
+  });
+};
+
+// A readable default title: the document name, the map's topic or the first line of text
+export const suggestProjectTitle = (project: Pick<Project, 'inputText' | 'sourceDocument' | 'documents' | 'graphData'>): string => {
+  if (project.documents) {
+    const labels = project.documents.map(d => d.label).join(' · ');
+    return labels.length > 60 ? `${labels.slice(0, 60).trim()}…` : labels;
+  }
+  if (project.sourceDocument) return project.sourceDocument.name.replace(/\.[^.]+$/, '');
+  const topic = project.graphData?.nodes.find(n => n.group === 1)?.label;
+  if (topic) return topic;
+  const firstLine = project.inputText.trim().split('\n')[0]?.trim() || '';
+  if (!firstLine) return t('library.untitled');
+  return firstLine.length > 60 ? `${firstLine.slice(0, 60).trim()}…` : firstLine;
+};
+
+export const getCurrentProjectId = (): string | null => {
+  try {
+    return localStorage.getItem(CURRENT_PROJECT_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const setCurrentProjectId = (id: string | null) => {
+  try {
+    if (id) localStorage.setItem(CURRENT_PROJECT_KEY, id);
+    else localStorage.removeItem(CURRENT_PROJECT_KEY);
+  } catch {
+    // Storage can be unavailable (private mode); the session just won't reopen after a refresh
+  }
+};
+
+export const exportLibrary = async (): Promise<string> => {
+  const archive: LibraryArchive = {
+    app: ARCHIVE_APP,
+    version: ARCHIVE_VERSION,
+    exportedAt: Date.now(),
+    projects: await listProjects(),
+  };
+  return JSON.stringify(archive);
+};
+
+const isProject = (value: unknown): value is Project => {
+  if (typeof value !== 'object' || value === null) return false;
+  const project = value as Record<string, unknown>;
+  return typeof project.id === 'string'
+    && typeof project.title === 'string'
+    && typeof project.updatedAt === 'number'
+    && typeof project.inputText === 'string'
+    && typeof project.summary === 'string';
+};
+
+// Projects already in the library are only replaced by a newer copy.
+// Returns how many projects were added or updated.
+export const importLibrary = async (jsonText: string): Promise<number> => {
+  const archive = JSON.parse(jsonText) as Partial<LibraryArchive>;
+  if (archive.app !== ARCHIVE_APP || !Array.isArray(archive.projects)) {
+    throw new Error("Not a project library archive");
+  }
+  if ((archive.version ?? 0) > ARCHIVE_VERSION) {
+    throw new Error(`Archive version ${archive.version} is newer than this app supports`);
+  }
+
+  let imported = 0;
+  for (const entry of archive.projects) {
+    if (!isProject(entry)) continue;
+    const existing = await getProject(entry.id);
+    if (existing && existing.updatedAt >= entry.updatedAt) continue;
+
+    await saveProject({
+      sourceDocument: null,
+      sections: [],
+      graphData: null,
+      infographicData: null,
+      timelineData: null,
+      visualizerType: 'mindmap',
+      ...entry,
+      summaryStyle: entry.summaryStyle ? normalizeSummaryStyle(entry.summaryStyle) : undefined,
+      createdAt: entry.createdAt ?? entry.updatedAt,
+    });
+    imported++;
+  }
+  return imported;
+};
@@ -0,0 +1,537 @@
+import { Schema, Type } from "@google/genai";
+import { DocumentRef, LanguageCode, SectionSummary, SummaryAudience, SummaryFormat, SummaryStyle } from "../types";
+import { AIOperation, GroundingIdea, PromptInput } from "./providers/types";
+import { LANGUAGES } from "./language";
+import { DEFAULT_CHUNK_SIZE } from "./chunking";
+import { DOCUMENT_KEYS } from "./multiDocument";
+import { TARGET_WORDS, normalizeSummaryStyle } from "./summaryStyle";
+import { RELATION_TYPES, isRecord } from "./validation";
+
+// Prompts and response schemas of every operation, built from the
+// operation's inputs only. The app builds them for the providers it calls
+// directly; the proxy server builds them from the inputs the app sends, so
+// it never runs a prompt or schema that came from the client.
+
+export interface BuiltPrompt {
+  prompt: string;
+  responseSchema?: Schema; // Set for operations that answer with JSON
+}
+
+// Output language phrases for the Vietnamese and the English prompts. A null
+// language ('auto' without a detectable source language) follows the text.
+const inLanguageVi = (language: LanguageCode | null) =>
+  language ? `bằng ${LANGUAGES[language].vietnameseName}` : 'bằng cùng ngôn ngữ với văn bản gốc';
+
+const inLanguageEn = (language: LanguageCode | null) =>
+  language ? `in ${LANGUAGES[language].englishName}` : 'in the same language as the text';
+
+const FORMAT_INSTRUCTIONS: Record<SummaryFormat, string> = {
+  paragraph: 'Viết thành một hoặc vài đoạn văn liền mạch.',
+  bullets: 'Trình bày dưới dạng danh sách gạch đầu dòng, mỗi dòng một ý chính.',
+  tldr: 'Viết một bản TL;DR: chỉ 1 đến 3 câu nêu điều quan trọng nhất.',
+  executive: 'Viết một bản tóm lược cho lãnh đạo: mở đầu bằng kết luận chính, sau đó là các phát hiện quan trọng, rủi ro và đề xuất hành động.',
+  studyNotes: 'Viết dạng ghi chú học tập: các khái niệm chính kèm định nghĩa ngắn, ví dụ và những điểm cần ghi nhớ, dùng tiêu đề ngắn và gạch đầu dòng.',
+};
+
+const AUDIENCE_INSTRUCTIONS: Record<SummaryAudience, string> = {
+  beginner: 'Người đọc là người mới tìm hiểu chủ đề: dùng từ ngữ đơn giản và giải thích thuật ngữ chuyên môn.',
+  general: 'Người đọc là độc giả phổ thông.',
+  expert: 'Người đọc là chuyên gia: giữ nguyên thuật ngữ chuyên môn, tập trung vào chi tiết và số liệu, bỏ qua phần giải thích cơ bản.',
+};
+
+const describeSummaryStyle = (style: SummaryStyle) => `${FORMAT_INSTRUCTIONS[style.format]}
+    ${style.format === 'tldr' ? '' : `Độ dài khoảng ${TARGET_WORDS[style.length]} từ. `}${AUDIENCE_INSTRUCTIONS[style.audience]}`;
+
+// The visual prompts repeat the summary's audience and focus, so a map built
+// from an executive brief stays about decisions and one from study notes about concepts
+const FORMAT_FOCUS_VI: Record<SummaryFormat, string> = {
+  paragraph: '',
+  bullets: '',
+  tldr: 'Giữ sơ đồ gọn, chỉ gồm những ý quan trọng nhất.',
+  executive: 'Ưu tiên kết luận, rủi ro và đề xuất hành động.',
+  studyNotes: 'Ưu tiên khái niệm, định nghĩa và những điểm cần ghi nhớ.',
+};
+
+const FORMAT_FOCUS_EN: Record<SummaryFormat, string> = {
+  paragraph: '',
+  bullets: '',
+  tldr: 'Keep only the most important points.',
+  executive: 'Favor conclusions, risks and recommended actions.',
+  studyNotes: 'Favor key concepts, definitions and points to remember.',
+};
+
+const AUDIENCE_EN: Record<SummaryAudience, string> = {
+  beginner: 'Write for beginners, in plain words.',
+  general: 'Write for a general audience.',
+  expert: 'Write for experts; keep technical terms and figures.',
+};
+
+const describeIntentVi = (style: SummaryStyle) =>
+  `${AUDIENCE_INSTRUCTIONS[style.audience]}${FORMAT_FOCUS_VI[style.format] ? ` ${FORMAT_FOCUS_VI[style.format]}` : ''}`;
+
+const describeIntentEn = (style: SummaryStyle) =>
+  `${AUDIENCE_EN[style.audience]}${FORMAT_FOCUS_EN[style.format] ? ` ${FORMAT_FOCUS_EN[style.format]}` : ''}`;
+
+// Extra prompt context built from per-chunk summaries of a long document
+const describeSections = (sections?: SectionSummary[]) => {
+  if (!sections || sections.length === 0) return '';
+  return `
+
+    Tóm tắt chi tiết theo từng phần của tài liệu gốc:
+    ${sections.map((s, i) => `${i + 1}. ${s.title ? `${s.title}: ` : ''}${s.summary}`).join('\n    ')}`;
+};
+
+// Source text given to node-level prompts; long documents are cut to keep the prompt small
+export const sourceExcerpt = (sourceText: string, limit: number = DEFAULT_CHUNK_SIZE * 2) =>
+  sourceText.length > limit
+    ? `${sourceText.slice(0, limit)}\n[...]`
+    : sourceText;
+
+// Grounded generation sends the original text along so ideas can quote it.
+// Longer texts are cut here; the ideas left without a quote are then grounded
+// against the rest of the text, one part of this size per "ground" request.
+export const GROUNDING_EXCERPT = DEFAULT_CHUNK_SIZE * 4;
+
+const groundingInstructionVi = (sourceText?: string) => sourceText ? `
+    Với mỗi nút, điền "quotes" bằng 1 đến 2 đoạn trích nguyên văn (giữ nguyên ngôn ngữ gốc) từ văn bản gốc làm căn cứ cho ý đó. Nếu văn bản gốc không có đoạn nào ủng hộ ý đó, để "quotes" trống, không được bịa.
+
+    Văn bản gốc:
+    ${sourceText}` : '';
+
+const groundingInstructionEn = (sourceText?: string) => sourceText ? `
+    For each insight, fill "quotes" with 1 to 2 verbatim passages (in their original language) from the source text that support it. If nothing in the source supports it, leave "quotes" empty; never invent quotes.
+
+    Source text:
+    ${sourceText}` : '';
+
+const quotesSchema: Schema = {
+  type: Type.ARRAY,
+  items: { type: Type.STRING },
+  description: "Verbatim passages from the source text that support this idea; empty if there are none"
+};
+
+const mindMapNodeSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    id: { type: Type.STRING },
+    label: { type: Type.STRING },
+    group: { type: Type.INTEGER, description: "1 for root, 2 for main branches, 3 for leaves" },
+    quotes: quotesSchema
+  },
+  required: ["id", "label", "group"]
+};
+
+const mindMapSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    nodes: {
+      type: Type.ARRAY,
+      items: mindMapNodeSchema
+    },
+    links: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          source: { type: Type.STRING, description: "ID of source node" },
+          target: { type: Type.STRING, description: "ID of target node" }
+        },
+        required: ["source", "target"]
+      }
+    }
+  },
+  required: ["nodes", "links"]
+};
+
+// The mind map schema with relationship fields on the links
+const conceptMapSchema: Schema = {
+  ...mindMapSchema,
+  properties: {
+    ...mindMapSchema.properties,
+    links: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          source: { type: Type.STRING, description: "ID of source node" },
+          target: { type: Type.STRING, description: "ID of target node" },
+          label: { type: Type.STRING, description: "The relationship, read as: source label, this, target label" },
+          type: { type: Type.STRING, enum: RELATION_TYPES },
+          weight: { type: Type.NUMBER, description: "Strength of the relationship, 0 to 1" },
+          crossLink: { type: Type.BOOLEAN, description: "true for links between different branches" }
+        },
+        required: ["source", "target", "label", "type"]
+      }
+    }
+  }
+};
+
+// The mind map schema with the documents each node comes from
+const comparisonMapSchema = (keys: string[]): Schema => ({
+  ...mindMapSchema,
+  properties: {
+    ...mindMapSchema.properties,
+    nodes: {
+      type: Type.ARRAY,
+      items: {
+        ...mindMapNodeSchema,
+        properties: {
+          ...mindMapNodeSchema.properties,
+          documents: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING, enum: keys },
+            description: "Keys of the documents that contain this idea"
+          }
+        },
+        required: [...mindMapNodeSchema.required!, "documents"]
+      }
+    }
+  }
+});
+
+const chartDatumSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    label: { type: Type.STRING },
+    value: { type: Type.NUMBER }
+  },
+  required: ["label", "value"]
+};
+
+// One flat item shape for all kinds; only the fields of an item's kind are filled in
+const infographicSchema: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      kind: { type: Type.STRING, enum: ['insight', 'stat', 'timeline', 'comparison', 'breakdown', 'ranking'] },
+      title: { type: Type.STRING },
+      description: { type: Type.STRING },
+      icon: { type: Type.STRING, enum: ['chart', 'bulb', 'users', 'globe', 'time', 'shield', 'target'] },
+      value: { type: Type.NUMBER, description: "stat: the figure" },
+      unit: { type: Type.STRING, description: "stat: unit of the figure, e.g. % or million USD" },
+      events: {
+        type: Type.ARRAY,
+        description: "timeline: events in chronological order",
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            date: { type: Type.STRING },
+            label: { type: Type.STRING }
+          },
+          required: ["date", "label"]
+        }
+      },
+      pros: { type: Type.ARRAY, items: { type: Type.STRING }, description: "comparison: advantages" },
+      cons: { type: Type.ARRAY, items: { type: Type.STRING }, description: "comparison: drawbacks" },
+      segments: { type: Type.ARRAY, items: chartDatumSchema, description: "breakdown: shares in percent" },
+      entries: {
+        type: Type.ARRAY,
+        description: "ranking: first place first",
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            label: { type: Type.STRING },
+            value: { type: Type.NUMBER }
+          },
+          required: ["label"]
+        }
+      },
+      quotes: quotesSchema
+    },
+    required: ["kind", "title", "description", "icon"]
+  }
+};
+
+const timelineSchema: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      date: { type: Type.STRING, description: "The date or step as written, e.g. \"March 2021\" or \"Phase 2\"" },
+      year: { type: Type.INTEGER, description: "Calendar year, only when the text gives one" },
+      month: { type: Type.INTEGER, description: "1 to 12, only when the text gives one" },
+      day: { type: Type.INTEGER, description: "1 to 31, only when the text gives one" },
+      title: { type: Type.STRING },
+      description: { type: Type.STRING },
+      group: { type: Type.STRING, description: "Phase, team or track the event belongs to" },
+      quotes: quotesSchema
+    },
+    required: ["date", "title", "description"]
+  }
+};
+
+const expansionSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    children: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          label: { type: Type.STRING, description: "Short idea, max 6 words" },
+          children: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Optional supporting details" },
+          quotes: quotesSchema
+        },
+        required: ["label"]
+      }
+    }
+  },
+  required: ["children"]
+};
+
+// A long document is summarized chunk by chunk ("chunk"), then the chunk
+// summaries are merged ("merge"); a short one in a single step
+const summarizePrompt = ({ text, title, language, style, step }: PromptInput): BuiltPrompt => {
+  if (step === 'chunk') {
+    return {
+      prompt: `Bạn là một trợ lý AI hữu ích. Đây là một phần của một tài liệu dài${title ? ` (mục "${title}")` : ''}.
+    Hãy tóm tắt phần này ${inLanguageVi(language)}, giữ lại các ý chính, số liệu và tên riêng quan trọng.
+    ${AUDIENCE_INSTRUCTIONS[style.audience]}
+
+    Văn bản:
+    ${text}`,
+    };
+  }
+  if (step === 'merge') {
+    return {
+      prompt: `Bạn là một trợ lý AI hữu ích. Dưới đây là tóm tắt của từng phần trong một tài liệu dài.
+    Hãy hợp nhất chúng thành một bản tóm tắt duy nhất ${inLanguageVi(language)}, nêu bật các ý chính của toàn bộ tài liệu và bỏ các ý trùng lặp.
+    ${describeSummaryStyle(style)}
+
+    Các phần:
+    ${text}`,
+    };
+  }
+  return {
+    prompt: `Bạn là một trợ lý AI hữu ích. Hãy tóm tắt văn bản sau đây ${inLanguageVi(language)}, nêu bật các ý chính.
+    ${describeSummaryStyle(style)}
+
+    Văn bản:
+    ${text}`,
+  };
+};
+
+const mindMapPrompt = ({ text, language, style, sections, sourceText }: PromptInput): BuiltPrompt => ({
+  prompt: `Dựa trên văn bản tóm tắt sau, hãy tạo cấu trúc JSON cho một sơ đồ tư duy (mind map).
+    Nút trung tâm (id="root") nên là chủ đề chính.
+    Các nút con nên là các ý chính.
+    Viết nhãn của tất cả các nút ${inLanguageVi(language)}.
+    ${describeIntentVi(style)}${sections?.length ? `
+    Hãy dùng mỗi phần của tài liệu làm một nhánh chính, các ý quan trọng của phần đó làm nút con và các chi tiết làm nút cháu.` : ''}
+    Văn bản tóm tắt: ${text}${describeSections(sections)}${groundingInstructionVi(sourceText)}`,
+  responseSchema: mindMapSchema,
+});
+
+// A mind map whose links name the relationship between the two ideas, plus
+// relations across branches that a plain tree cannot show
+const conceptMapPrompt = ({ text, language, style, sections, sourceText }: PromptInput): BuiltPrompt => ({
+  prompt: `Dựa trên văn bản tóm tắt sau, hãy tạo cấu trúc JSON cho một bản đồ khái niệm (concept map).
+    Nút trung tâm (id="root") là chủ đề chính, các nút con là các khái niệm chính và chi tiết của chúng, nối với nhau thành cây.
+    Viết nhãn của tất cả các nút ${inLanguageVi(language)}.
+    Mỗi liên kết có hướng từ "source" đến "target" và nêu quan hệ giữa hai khái niệm:
+    - "label": cụm từ ngắn (1 đến 4 từ, ${inLanguageVi(language)}) sao cho "nhãn source + label + nhãn target" đọc thành một câu, ví dụ "dẫn đến", "bao gồm".
+    - "type": partOf (là một phần của), causes (gây ra), supports (ủng hộ, chứng minh), contradicts (mâu thuẫn với), example (là ví dụ của) hoặc related (quan hệ khác).
+    - "weight": mức độ chặt chẽ của quan hệ theo văn bản, từ 0 (yếu) đến 1 (rất chặt).
+    Ngoài các liên kết của cây, thêm 2 đến 6 liên kết có "crossLink": true giữa các khái niệm thuộc những nhánh khác nhau, chỉ khi văn bản thực sự nêu quan hệ đó.
+    ${describeIntentVi(style)}${sections?.length ? `
+    Hãy dùng mỗi phần của tài liệu làm một nhánh chính, các ý quan trọng của phần đó làm nút con và các chi tiết làm nút cháu.` : ''}
+    Văn bản tóm tắt: ${text}${describeSections(sections)}${groundingInstructionVi(sourceText)}`,
+  responseSchema: conceptMapSchema,
+});
+
+// text holds one summary per compared document, under a "[A] label" line each
+const comparisonMapPrompt = ({ text, language, style, documents = [], sourceText }: PromptInput): BuiltPrompt => ({
+  prompt: `Dưới đây là bản tóm tắt của ${documents.length} tài liệu cùng chủ đề, mỗi bản mở đầu bằng dòng "[mã] tên tài liệu".
+    Hãy tạo cấu trúc JSON cho MỘT sơ đồ tư duy (mind map) chung để so sánh các tài liệu này.
+    Nút trung tâm (id="root") là chủ đề chung. Các nhánh chính là các khía cạnh của chủ đề, không phải từng tài liệu, để các điểm giống và khác nhau nằm cạnh nhau.
+    Khi nhiều tài liệu nêu cùng một ý, gộp thành một nút duy nhất. Khi chúng nói khác nhau về cùng một khía cạnh, tạo một nút cho mỗi quan điểm.
+    Với mỗi nút, điền "documents" bằng mã của tất cả các tài liệu có nêu ý đó (${documents.map(d => `"${d.key}"`).join(', ')}); nút trung tâm thuộc mọi tài liệu.
+    Viết nhãn của tất cả các nút ${inLanguageVi(language)}.
+    ${describeIntentVi(style)}
+    Các bản tóm tắt:
+    ${text}${groundingInstructionVi(sourceText)}`,
+  responseSchema: comparisonMapSchema(documents.map(d => d.key)),
+});
+
+const infographicPrompt = ({ text, language, style, sections, sourceText }: PromptInput): BuiltPrompt => ({
+  prompt: `Analyze the following text and create a list of 4 to 6 key insights for an infographic summary.
+    For each insight, provide:
+    1. A short, catchy title (max 5 words, ${inLanguageEn(language)}).
+    2. A concise description (max 15 words, ${inLanguageEn(language)}).
+    3. An icon category that best fits the insight. Choose strictly from: 'chart', 'bulb', 'users', 'globe', 'time', 'shield', 'target'.
+    4. A kind, and the data for that kind when the text supports it:
+       - 'stat': a key number from the text, as "value" (a plain number) and "unit" (e.g. "%", "million USD", "people").
+       - 'timeline': dated events, as "events" with a "date" and a short "label" each, in chronological order (2 to 8).
+       - 'comparison': the advantages and drawbacks of something, as "pros" and "cons" (short phrases, up to 6 each).
+       - 'breakdown': how a whole is split, as "segments" with a "label" and a "value" in percent each (2 to 6, at most 100 in total).
+       - 'ranking': an ordered list, first place first, as "entries" with a "label" and, when the text gives one, a "value" (2 to 6).
+       - 'insight': any other idea, with no extra data.
+    Only use numbers, dates and rankings that appear in the text, never estimate or invent them; when the text has none, use 'insight'.
+    Labels in the data are ${inLanguageEn(language)} too.
+    ${describeIntentEn(style)}
+
+    Text: ${text}${describeSections(sections)}${groundingInstructionEn(sourceText)}`,
+  responseSchema: infographicSchema,
+});
+
+// Events read from the summary and, when there is one, the original text,
+// which usually keeps the dates a summary leaves out
+const timelinePrompt = ({ text, language, style, sections, sourceText }: PromptInput): BuiltPrompt => ({
+  prompt: `Extract the events of the following text for a timeline, in chronological order (or in the order they happen when there are no dates), 4 to 16 events.
+    For each event, provide:
+    1. "date": the date, period or step exactly as the text puts it (e.g. "March 2021", "Q3 2024", "Week 2", "Phase 1").
+    2. "year", "month" and "day" as numbers, only the parts the text states; leave them out for relative steps or vague periods. Never guess a date; dates the text leaves out may be taken from the source text below, when there is one.
+    3. A short "title" (max 6 words) and a one-sentence "description", ${inLanguageEn(language)}.
+    4. A "group": the phase, team, project or track the event belongs to, when the text has several (at most 6 different groups, ${inLanguageEn(language)}); leave it empty otherwise.
+    ${describeIntentEn(style)}
+
+    Text: ${text}${describeSections(sections)}${groundingInstructionEn(sourceText)}`,
+  responseSchema: timelineSchema,
+});
+
+// Node actions: text is the source the answer draws from, path leads from
+// the root to the node
+const expandPrompt = ({ text, language, path = [], children = [], quotes }: PromptInput): BuiltPrompt => ({
+  prompt: `Bạn đang mở rộng một sơ đồ tư duy. Hãy đề xuất 3 đến 5 ý con mới, cụ thể hơn, cho nút "${path[path.length - 1] ?? ''}".
+    Đường dẫn từ chủ đề chính: ${path.join(' > ')}
+    ${children.length > 0 ? `Các ý con đã có (không lặp lại): ${children.join('; ')}` : 'Nút này chưa có ý con.'}
+    Mỗi ý con có nhãn ngắn (tối đa 6 từ, ${inLanguageVi(language)}) và có thể có 0 đến 3 chi tiết hỗ trợ.
+    Chỉ dùng thông tin có trong văn bản gốc.${quotes ? `
+    Với mỗi ý con, điền "quotes" bằng 1 đến 2 đoạn trích nguyên văn từ văn bản gốc làm căn cứ; để trống nếu không có.` : ''}
+
+    Văn bản gốc:
+    ${text}`,
+  responseSchema: expansionSchema,
+});
+
+const explainPrompt = ({ text, language, path = [] }: PromptInput): BuiltPrompt => ({
+  prompt: `Hãy giải thích ý "${path[path.length - 1] ?? ''}" trong sơ đồ tư duy ${inLanguageVi(language)}, trong 1 đến 2 đoạn ngắn.
+    Ngữ cảnh trong sơ đồ: ${path.join(' > ')}
+    Dựa vào văn bản gốc dưới đây; nếu văn bản không đề cập, hãy nói rõ điều đó.
+
+    Văn bản gốc:
+    ${text}`,
+});
+
+const groundingSchema: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      id: { type: Type.STRING, description: "ID of the idea" },
+      quotes: quotesSchema
+    },
+    required: ["id", "quotes"]
+  }
+};
+
+// Finds supporting passages in one part of a long document for ideas that
+// were generated from all of it; text is that part
+const groundPrompt = ({ text, ideas = [] }: PromptInput): BuiltPrompt => ({
+  prompt: `Below are ideas taken from a long document, each with an ID, followed by one part of that document.
+    For each idea this part supports, return its "id" and 1 to 2 verbatim passages (in their original language) from this part as "quotes".
+    Leave out ideas this part says nothing about; never invent quotes.
+
+    Ideas:
+    ${ideas.map(idea => `${idea.id}: ${idea.text}`).join('\n    ')}
+
+    Part of the document:
+    ${text}`,
+  responseSchema: groundingSchema,
+});
+
+const PROMPT_BUILDERS: Record<AIOperation, (input: PromptInput) => BuiltPrompt> = {
+  summarize: summarizePrompt,
+  mindmap: mindMapPrompt,
+  conceptmap: conceptMapPrompt,
+  comparemap: comparisonMapPrompt,
+  infographic: infographicPrompt,
+  timeline: timelinePrompt,
+  expand: expandPrompt,
+  explain: explainPrompt,
+  ground: groundPrompt,
+};
+
+// A repair attempt repeats the prompt with the problems the validator found
+export const buildPrompt = (operation: AIOperation, input: PromptInput): BuiltPrompt => {
+  const built = PROMPT_BUILDERS[operation](input);
+  if (!input.rejected?.length) return built;
+  return {
+    ...built,
+    prompt: `${built.prompt}
+
+    Your previous answer was rejected: ${input.rejected.join('; ')}.
+    Return a corrected answer that follows the JSON schema exactly.`,
+  };
+};
+
+// Longest list the server accepts in any input field
+const MAX_INPUT_ITEMS = 50;
+
+const readStrings = (value: unknown): string[] | null =>
+  Array.isArray(value) && value.length <= MAX_INPUT_ITEMS && value.every(v => typeof v === 'string') ? value : null;
+
+// Absent fields stay undefined; present ones must have the right shape
+const readOptional = <T>(value: unknown, read: (value: unknown) => T | null): T | undefined | null =>
+  value === undefined ? undefined : read(value);
+
+const readString = (value: unknown) => (typeof value === 'string' ? value : null);
+
+const readSections = (value: unknown): SectionSummary[] | null =>
+  Array.isArray(value) && value.length <= MAX_INPUT_ITEMS
+  && value.every(s => isRecord(s) && typeof s.summary === 'string' && (s.title === undefined || typeof s.title === 'string'))
+    ? value.map(s => ({ title: s.title, summary: s.summary }))
+    : null;
+
+const readDocuments = (value: unknown): DocumentRef[] | null =>
+  Array.isArray(value) && value.length <= DOCUMENT_KEYS.length
+  && value.every(d => isRecord(d) && DOCUMENT_KEYS.includes(d.key as string) && typeof d.label === 'string')
+    ? value.map(d => ({ key: d.key, label: d.label }))
+    : null;
+
+// Most ideas sent in one ground request
+export const MAX_GROUNDING_IDEAS = 100;
+
+const readIdeas = (value: unknown): GroundingIdea[] | null =>
+  Array.isArray(value) && value.length <= MAX_GROUNDING_IDEAS
+  && value.every(i => isRecord(i) && typeof i.id === 'string' && typeof i.text === 'string')
+    ? value.map(i => ({ id: i.id, text: i.text }))
+    : null;
+
+// Operation inputs as sent by the app to the proxy server; null when any
+// field has the wrong shape. Prompt length is left to the caller.
+export const readPromptInput = (value: unknown): PromptInput | null => {
+  if (!isRecord(value) || typeof value.text !== 'string') return null;
+  const { language, step, quotes } = value;
+  if (language !== null && !(typeof language === 'string' && language in LANGUAGES)) return null;
+  if (step !== undefined && step !== 'chunk' && step !== 'merge') return null;
+  if (quotes !== undefined && typeof quotes !== 'boolean') return null;
+
+  const title = readOptional(value.title, readString);
+  const sections = readOptional(value.sections, readSections);
+  const sourceText = readOptional(value.sourceText, readString);
+  const documents = readOptional(value.documents, readDocuments);
+  const ideas = readOptional(value.ideas, readIdeas);
+  const path = readOptional(value.path, readStrings);
+  const children = readOptional(value.children, readStrings);
+  const rejected = readOptional(value.rejected, readStrings);
+  if (title === null || sections === null || sourceText === null || documents === null || ideas === null
+    || path === null || children === null || rejected === null) return null;
+
+  return {
+    text: value.text,
+    language: language as LanguageCode | null,
+    style: normalizeSummaryStyle(value.style),
+    step: step as PromptInput['step'],
+    title,
+    sections,
+    sourceText,
+    documents,
+    ideas,
+    path,
+    children,
+    quotes: quotes as boolean | undefined,
+    rejected,
+  };
+};
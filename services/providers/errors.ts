@@ -0,0 +1,112 @@
+// Provider failures are sorted into a few kinds, each with its own message and
+// recovery action in the UI. Transient kinds are retried with exponential
+// backoff before the user ever sees them.
+
+export type AIErrorKind =
+  | 'apiKey'      // Missing, invalid or unauthorized API key
+  | 'quota'       // Rate limit or exhausted quota (HTTP 429)
+  | 'safety'      // The prompt or the answer was blocked by a safety filter
+  | 'truncated'   // The answer hit the output token limit
+  | 'malformed'   // The answer was not the JSON that was asked for
+  | 'offline'     // The network or the local server could not be reached
+  | 'unavailable' // The service is overloaded or down (HTTP 5xx)
+  | 'unknown';
+
+export interface AIError extends Error {
+  name: 'AIError';
+  kind: AIErrorKind;
+  retryAfterMs?: number; // Delay the server asked for, if it said
+}
+
+export const createAIError = (
+  kind: AIErrorKind,
+  message: string,
+  details: { cause?: unknown; retryAfterMs?: number } = {}
+): AIError =>
+  Object.assign(new Error(message, { cause: details.cause }), {
+    name: 'AIError' as const,
+    kind,
+    retryAfterMs: details.retryAfterMs,
+  });
+
+export const isAIError = (error: unknown): error is AIError =>
+  error instanceof Error && error.name === 'AIError';
+
+const RETRYABLE: AIErrorKind[] = ['quota', 'offline', 'unavailable'];
+
+export const isRetryable = (error: AIError) => RETRYABLE.includes(error.kind);
+
+// Maps an HTTP status from any provider to an error kind
+export const errorForStatus = (status: number, message: string, retryAfterMs?: number): AIError => {
+  if (status === 401 || status === 403) return createAIError('apiKey', message);
+  if (status === 429) return createAIError('quota', message, { retryAfterMs });
+  if (status >= 500) return createAIError('unavailable', message);
+  if (status === 400 && /api[ _]?key/i.test(message)) return createAIError('apiKey', message);
+  return createAIError('unknown', message);
+};
+
+// Gemini puts the suggested delay in the error body, e.g. "retryDelay": "27s"
+const parseRetryDelay = (message: string) => {
+  const match = message.match(/retryDelay"?\s*:\s*"?(\d+(?:\.\d+)?)s/);
+  return match ? Math.round(parseFloat(match[1]) * 1000) : undefined;
+};
+
+// Classifies whatever a provider or the network threw
+export const toAIError = (error: unknown): AIError => {
+  if (isAIError(error)) return error;
+  const message = error instanceof Error ? error.message : String(error);
+
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') return errorForStatus(status, message, parseRetryDelay(message));
+
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    return createAIError('offline', message, { cause: error });
+  }
+  // fetch rejects with a TypeError when the server cannot be reached
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) {
+    return createAIError('offline', message, { cause: error });
+  }
+  if (error instanceof SyntaxError) return createAIError('malformed', message, { cause: error });
+  return createAIError('unknown', message, { cause: error });
+};
+
+const MAX_ATTEMPTS = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 20000;
+
+// Resolves after ms, or rejects with the abort reason as soon as signal aborts
+export const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Runs a request, retrying transient failures after 1s, 2s, 4s... (with
+// jitter, or the server's own delay). canRetry lets the caller refuse, e.g.
+// once part of a streamed answer has already been shown.
+export const withRetry = async <T>(
+  run: () => Promise<T>,
+  signal?: AbortSignal,
+  canRetry: () => boolean = () => true
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run();
+    } catch (e) {
+      if (signal?.aborted || (e instanceof Error && e.name === 'AbortError')) throw e;
+      const error = toAIError(e);
+      if (attempt >= MAX_ATTEMPTS || !isRetryable(error) || !canRetry()) throw error;
+
+      const backoff = BASE_DELAY_MS * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5);
+      const delay = Math.min(MAX_DELAY_MS, error.retryAfterMs ?? backoff);
+      await wait(delay, signal);
+    }
+  }
+};
@@ -0,0 +1,71 @@
+import { FinishReason, GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { AIProvider } from "./types";
+import { createAIError } from "./errors";
+
+// The client is created on first use so the app can start (e.g. with the mock
+// provider) even when no Gemini key is configured.
+let client: GoogleGenAI | null = null;
+
+const getClient = () => {
+  if (!process.env.API_KEY) throw createAIError('apiKey', "GEMINI_API_KEY is not set");
+  if (!client) {
+    client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return client;
+};
+
+const BLOCKED: string[] = [
+  FinishReason.SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+  FinishReason.RECITATION,
+];
+
+// Gemini reports blocked prompts and cut-off answers in the response itself
+// rather than as an HTTP error, so they are turned into errors here
+const checkResponse = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw createAIError('safety', `Prompt blocked: ${blockReason}`);
+
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKED.includes(finishReason)) {
+    throw createAIError('safety', `Response blocked: ${finishReason}`);
+  }
+  if (finishReason === FinishReason.MAX_TOKENS) {
+    throw createAIError('truncated', "Response stopped at the output token limit");
+  }
+};
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  defaultModel: 'gemini-2.5-flash',
+  models: ['gemini-2.5-flash', 'gemini-2.5-flash-lite', 'gemini-2.5-pro'],
+
+  generate: async ({ model, prompt, responseSchema, signal, onText }) => {
+    const config = {
+      abortSignal: signal,
+      ...(responseSchema ? { responseMimeType: "application/json", responseSchema } : {}),
+    };
+
+    if (!onText) {
+      const response = await getClient().models.generateContent({ model, contents: prompt, config });
+      checkResponse(response);
+      return response.text || "";
+    }
+
+    const stream = await getClient().models.generateContentStream({ model, contents: prompt, config });
+    let text = "";
+    for await (const chunk of stream) {
+      signal?.throwIfAborted();
+      checkResponse(chunk);
+      const delta = chunk.text || "";
+      if (delta) {
+        text += delta;
+        onText(delta);
+      }
+    }
+    return text;
+  },
+};
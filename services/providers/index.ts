@@ -0,0 +1,75 @@
+import { geminiProvider } from "./geminiProvider";
+import { proxyProvider } from "./proxyProvider";
+import { openAIProvider } from "./openAIProvider";
+import { mockProvider } from "./mockProvider";
+import { AIProvider, AIProviderId, ProviderConfig } from "./types";
+
+export * from "./types";
+export * from "./errors";
+
+export const PROVIDERS: Record<AIProviderId, AIProvider> = {
+  gemini: geminiProvider,
+  proxy: proxyProvider,
+  openai: openAIProvider,
+  mock: mockProvider,
+};
+
+const STORAGE_KEY = 'ai-provider-config';
+
+const isProviderId = (value: unknown): value is AIProviderId =>
+  typeof value === 'string' && value in PROVIDERS;
+
+// Requests go through the proxy server unless the build picks another
+// provider (see vite.config.ts); keys are never part of a production bundle.
+const getDefaultConfig = (): ProviderConfig => {
+  const envProvider = process.env.AI_PROVIDER;
+  const provider: AIProviderId = isProviderId(envProvider) ? envProvider : 'proxy';
+
+  return {
+    provider,
+    model: process.env.AI_MODEL || PROVIDERS[provider].defaultModel,
+    baseUrl: process.env.OPENAI_BASE_URL || undefined,
+    apiKey: process.env.OPENAI_API_KEY || undefined,
+    proxyUrl: process.env.PROXY_URL || undefined,
+  };
+};
+
+let currentConfig: ProviderConfig | null = null;
+
+export const getProviderConfig = (): ProviderConfig => {
+  if (currentConfig) return currentConfig;
+
+  currentConfig = getDefaultConfig();
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (stored && isProviderId(stored.provider)) {
+      currentConfig = { ...currentConfig, ...stored };
+    }
+  } catch {
+    // Ignore unreadable settings and keep the defaults
+  }
+  return currentConfig!;
+};
+
+export const setProviderConfig = (update: Partial<ProviderConfig>): ProviderConfig => {
+  const previous = getProviderConfig();
+  const next: ProviderConfig = { ...previous, ...update };
+
+  // Switching provider without picking a model selects that provider's default
+  if (update.provider && update.provider !== previous.provider && !update.model) {
+    next.model = PROVIDERS[update.provider].defaultModel;
+  }
+
+  currentConfig = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch {
+    // Storage can be unavailable (private mode); the setting still applies for this session
+  }
+  return next;
+};
+
+export const getActiveProvider = () => {
+  const config = getProviderConfig();
+  return { provider: PROVIDERS[config.provider], config };
+};
@@ -0,0 +1,195 @@
+import { InfographicItem, LinkData, NodeData, NodeExpansion, TimelineEntry } from "../../types";
+import { AIProvider, AIOperation, GroundingIdea, PromptInput } from "./types";
+import { wait } from "./errors";
+
+// Offline provider for demos and tests: returns fixture data shaped like the
+// real model output. Results depend only on the input text, never on time or
+// randomness, so the same input always gives the same visualization.
+
+const splitSentences = (text: string): string[] =>
+  text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(s => s.trim())
+    .filter(s => s.length > 0);
+
+const shorten = (text: string, maxWords: number) => {
+  const words = text.replace(/[.!?,;:]+$/, '').split(/\s+/);
+  return words.length > maxWords ? `${words.slice(0, maxWords).join(' ')}…` : words.join(' ');
+};
+
+const mockSummary = (input: string): string => {
+  const sentences = splitSentences(input);
+  if (sentences.length === 0) return "Không có nội dung để tóm tắt.";
+  return sentences.slice(0, 3).join(' ');
+};
+
+// Like the real model, fixtures quote the sentence an idea was taken from.
+// The summary fixture copies input sentences, so the quotes are in the source.
+type Quoted<T> = T & { quotes: string[] };
+
+const mockMindMap = (input: string): { nodes: Quoted<NodeData>[]; links: LinkData[] } => {
+  const sentences = splitSentences(input);
+  const topic = sentences[0] ? shorten(sentences[0], 4) : "Chủ đề chính";
+  const branches = sentences.length > 1
+    ? sentences.slice(1, 5).map(s => ({ label: shorten(s, 4), quotes: [s] }))
+    : ["Ý chính 1", "Ý chính 2", "Ý chính 3"].map(label => ({ label, quotes: [] }));
+
+  const data: { nodes: Quoted<NodeData>[]; links: LinkData[] } = {
+    nodes: [{ id: 'root', label: topic, group: 1, quotes: sentences.slice(0, 1) }],
+    links: [],
+  };
+
+  branches.forEach(({ label, quotes }, i) => {
+    const branchId = `branch-${i + 1}`;
+    data.nodes.push({ id: branchId, label, group: 2, quotes });
+    data.links.push({ source: 'root', target: branchId });
+
+    for (let j = 1; j <= 2; j++) {
+      const leafId = `${branchId}-leaf-${j}`;
+      data.nodes.push({ id: leafId, label: `Chi tiết ${i + 1}.${j}`, group: 3, quotes: [] });
+      data.links.push({ source: branchId, target: leafId });
+    }
+  });
+
+  return data;
+};
+
+// The mind map with every tree link typed, plus one relation between the first two branches
+const mockConceptMap = (input: string): { nodes: Quoted<NodeData>[]; links: LinkData[] } => {
+  const data = mockMindMap(input);
+  const links: LinkData[] = data.links.map(l => ({ ...l, label: "bao gồm", type: 'partOf', weight: 0.8 }));
+  if (data.nodes.some(n => n.id === 'branch-2')) {
+    links.push({ source: 'branch-1', target: 'branch-2', label: "dẫn đến", type: 'causes', weight: 0.6, crossLink: true });
+  }
+  return { ...data, links };
+};
+
+// The input holds one summary per document, each under a "[A] label" line.
+// The topic is shared by all documents; every sentence becomes an idea of
+// its own document, except the first ones, which are merged as a shared idea.
+const mockComparisonMap = (input: string): { nodes: Quoted<NodeData>[]; links: LinkData[] } => {
+  const documents = input.split(/\n\n(?=\[[A-Z]\] )/).map(block => {
+    const [heading, ...rest] = block.split('\n');
+    return { key: heading.match(/^\[([A-Z])\]/)?.[1] ?? 'A', sentences: splitSentences(rest.join('\n')) };
+  });
+  const keys = documents.map(d => d.key);
+  const first = documents[0]?.sentences[0];
+
+  const data: { nodes: Quoted<NodeData>[]; links: LinkData[] } = {
+    nodes: [
+      { id: 'root', label: "Chủ đề chung", group: 1, documents: keys, quotes: [] },
+      { id: 'shared', label: first ? shorten(first, 4) : "Điểm chung", group: 2, documents: keys, quotes: first ? [first] : [] },
+    ],
+    links: [{ source: 'root', target: 'shared' }],
+  };
+
+  documents.forEach(({ key, sentences }) => {
+    sentences.slice(1, 3).forEach((sentence, i) => {
+      const id = `${key.toLowerCase()}-${i + 1}`;
+      data.nodes.push({ id, label: shorten(sentence, 4), group: 2, documents: [key], quotes: [sentence] });
+      data.links.push({ source: 'root', target: id });
+    });
+  });
+
+  return data;
+};
+
+const MOCK_ICONS: InfographicItem['icon'][] = ['bulb', 'chart', 'users', 'target', 'globe', 'time'];
+
+const mockInfographic = (input: string): Quoted<InfographicItem>[] => {
+  const sentences = splitSentences(input);
+  const count = Math.min(Math.max(sentences.length, 4), 6);
+
+  return Array.from({ length: count }, (_, i) => {
+    // A sentence with a number becomes a statistic card, like the model's typed items
+    const figure = sentences[i]?.match(/(\d+(?:[.,]\d+)?)\s*(%)?/);
+    return {
+      ...(figure
+        ? { kind: 'stat' as const, value: parseFloat(figure[1].replace(',', '.')), ...(figure[2] ? { unit: '%' } : {}) }
+        : { kind: 'insight' as const }),
+      title: sentences[i] ? shorten(sentences[i], 5) : `Điểm chính ${i + 1}`,
+      description: sentences[i] ? shorten(sentences[i], 15) : "Nội dung mẫu từ nhà cung cấp offline.",
+      icon: MOCK_ICONS[i % MOCK_ICONS.length],
+      quotes: sentences.slice(i, i + 1),
+    };
+  });
+};
+
+// Sentences with a four-digit year become dated events, the others are ordered steps
+const mockTimeline = (input: string): Quoted<TimelineEntry & { year?: number }>[] => {
+  const sentences = splitSentences(input);
+  const events = sentences.length >= 2 ? sentences.slice(0, 8) : ["Bước đầu tiên", "Bước tiếp theo", "Kết quả"];
+
+  return events.map((sentence, i) => {
+    const year = sentence.match(/\b(1\d{3}|20\d{2})\b/)?.[1];
+    return {
+      date: year || `Bước ${i + 1}`,
+      ...(year ? { year: Number(year) } : {}),
+      title: shorten(sentence, 5),
+      description: shorten(sentence, 15),
+      group: i < events.length / 2 ? "Giai đoạn 1" : "Giai đoạn 2",
+      quotes: sentences.length >= 2 ? [sentence] : [],
+    };
+  });
+};
+
+// Node actions work from the node's label
+const mockExpansion = (label: string): { children: NodeExpansion[] } => ({
+  children: [1, 2, 3].map(i => ({
+    label: `${shorten(label, 3)}: khía cạnh ${i}`,
+    children: [`Ví dụ ${i}.1`, `Ví dụ ${i}.2`],
+  })),
+});
+
+const mockExplanation = (label: string): string =>
+  `"${label}" là một ý trong sơ đồ tư duy. Đây là lời giải thích mẫu từ nhà cung cấp offline, dùng để thử giao diện khi không có kết nối mạng.`;
+
+const words = (text: string) => text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(w => w.length > 3);
+
+// Each idea quotes the first sentence of the part that shares a word with it
+const mockGrounding = (text: string, ideas: GroundingIdea[]): { id: string; quotes: string[] }[] => {
+  const sentences = splitSentences(text);
+  return ideas.flatMap(({ id, text: idea }) => {
+    const ideaWords = new Set(words(idea));
+    const sentence = sentences.find(s => words(s).some(w => ideaWords.has(w)));
+    return sentence ? [{ id, quotes: [sentence] }] : [];
+  });
+};
+
+// Streams word by word with a short pause so the live summary can be demoed offline
+const STREAM_DELAY_MS = 30;
+
+const nodeLabel = ({ path = [] }: PromptInput) => path[path.length - 1] ?? '';
+
+const fixtures: Record<AIOperation, (input: PromptInput) => unknown> = {
+  summarize: ({ text }) => mockSummary(text),
+  mindmap: ({ text }) => mockMindMap(text),
+  conceptmap: ({ text }) => mockConceptMap(text),
+  comparemap: ({ text }) => mockComparisonMap(text),
+  infographic: ({ text }) => mockInfographic(text),
+  timeline: ({ text }) => mockTimeline(text),
+  expand: input => mockExpansion(nodeLabel(input)),
+  explain: input => mockExplanation(nodeLabel(input)),
+  ground: ({ text, ideas = [] }) => mockGrounding(text, ideas),
+};
+
+export const mockProvider: AIProvider = {
+  id: 'mock',
+  label: 'Offline (mock)',
+  defaultModel: 'mock-fixtures',
+  models: ['mock-fixtures'],
+
+  generate: async ({ operation, input, responseSchema, signal, onText }) => {
+    signal?.throwIfAborted();
+    const result = fixtures[operation](input);
+    const text = responseSchema ? JSON.stringify(result) : String(result);
+
+    if (onText) {
+      for (const piece of text.split(/(?<=\s)/)) {
+        await wait(STREAM_DELAY_MS, signal);
+        onText(piece);
+      }
+    }
+    return text;
+  },
+};
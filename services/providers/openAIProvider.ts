@@ -0,0 +1,118 @@
+import { Schema } from "@google/genai";
+import { AIProvider } from "./types";
+import { createAIError, errorForStatus } from "./errors";
+
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1'; // Ollama's OpenAI-compatible API
+
+// Gemini schemas use upper-case OpenAPI type names ("OBJECT", "STRING"...),
+// while JSON Schema expects lower-case ones.
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === 'type' && typeof value === 'string') {
+      result.type = value.toLowerCase();
+    } else if (key === 'items' && value) {
+      result.items = toJsonSchema(value as Schema);
+    } else if (key === 'properties' && value) {
+      result.properties = Object.fromEntries(
+        Object.entries(value as Record<string, Schema>).map(([name, prop]) => [name, toJsonSchema(prop)])
+      );
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+};
+
+// "length" and "content_filter" end an answer early without an HTTP error
+const checkFinishReason = (finishReason: unknown) => {
+  if (finishReason === 'length') throw createAIError('truncated', "Response stopped at the output token limit");
+  if (finishReason === 'content_filter') throw createAIError('safety', "Response blocked by the content filter");
+};
+
+// Seconds from a Retry-After header, when the server sent one
+const retryAfterMs = (response: Response) => {
+  const seconds = Number(response.headers.get('Retry-After'));
+  return seconds > 0 ? seconds * 1000 : undefined;
+};
+
+// Reads an OpenAI-style server-sent event stream ("data: {...}" lines)
+const readStream = async (body: ReadableStream<Uint8Array>, onText: (delta: string) => void) => {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let text = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      const data = line.replace(/^data:\s*/, '').trim();
+      if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+
+      const choice = JSON.parse(data).choices?.[0];
+      checkFinishReason(choice?.finish_reason);
+      const delta = choice?.delta?.content || '';
+      if (delta) {
+        text += delta;
+        onText(delta);
+      }
+    }
+  }
+  return text;
+};
+
+export const openAIProvider: AIProvider = {
+  id: 'openai',
+  label: 'OpenAI / Ollama',
+  defaultModel: 'llama3.1',
+  models: ['llama3.1', 'qwen2.5', 'gpt-4o-mini', 'gpt-4.1-mini'],
+
+  generate: async ({ model, prompt, responseSchema, signal, onText }, config) => {
+    const baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    const jsonSchema = responseSchema ? toJsonSchema(responseSchema) : null;
+
+    const messages = jsonSchema
+      ? [
+          { role: 'system', content: `Respond only with JSON matching this schema:\n${JSON.stringify(jsonSchema)}` },
+          { role: 'user', content: prompt },
+        ]
+      : [{ role: 'user', content: prompt }];
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      signal,
+      body: JSON.stringify({
+        model,
+        messages,
+        stream: Boolean(onText),
+        ...(jsonSchema
+          ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: jsonSchema } } }
+          : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      throw errorForStatus(
+        response.status,
+        `OpenAI-compatible request failed: ${response.status} ${response.statusText}`,
+        retryAfterMs(response)
+      );
+    }
+
+    if (onText && response.body) {
+      return readStream(response.body, onText);
+    }
+
+    const payload = await response.json();
+    checkFinishReason(payload.choices?.[0]?.finish_reason);
+    return payload.choices?.[0]?.message?.content || "";
+  },
+};
@@ -0,0 +1,84 @@
+import { AIProvider, PromptInput } from "./types";
+import { AIErrorKind, createAIError, errorForStatus } from "./errors";
+import { geminiProvider } from "./geminiProvider";
+
+// Sends the operation's inputs to the companion server (server/index.ts),
+// which holds the Gemini key and builds the prompt itself, so the key never
+// has to be part of the browser bundle and cannot run arbitrary prompts.
+
+export interface ProxyRequest {
+  model: string;
+  input: PromptInput;
+  stream: boolean;
+}
+
+// A streamed answer arrives as one JSON message per line. An error after the
+// stream has started cannot change the HTTP status, so it is sent as a message.
+export type ProxyMessage = { text: string } | { error: string; kind: AIErrorKind };
+
+// Non-streamed answers and errors sent before streaming started
+export type ProxyResponse = { text: string } | { error: string; kind: AIErrorKind };
+
+const readError = async (response: Response) => {
+  const seconds = Number(response.headers.get('Retry-After'));
+  const retryAfterMs = seconds > 0 ? seconds * 1000 : undefined;
+  try {
+    const body = await response.json();
+    if (body.kind) return createAIError(body.kind, body.error, { retryAfterMs });
+  } catch {
+    // Not one of the server's own errors, e.g. a gateway in front of it
+  }
+  return errorForStatus(response.status, `Proxy request failed: ${response.status} ${response.statusText}`, retryAfterMs);
+};
+
+const readStream = async (body: ReadableStream<Uint8Array>, onText: (delta: string) => void) => {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let text = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const message: ProxyMessage = JSON.parse(line);
+      if ('error' in message) throw createAIError(message.kind, message.error);
+      text += message.text;
+      onText(message.text);
+    }
+  }
+  return text;
+};
+
+export const proxyProvider: AIProvider = {
+  id: 'proxy',
+  label: 'Proxy server (Gemini)',
+  defaultModel: geminiProvider.defaultModel,
+  models: geminiProvider.models,
+
+  generate: async ({ operation, model, input, signal, onText }, config) => {
+    const baseUrl = (config.proxyUrl || '').replace(/\/+$/, '');
+    const request: ProxyRequest = { model, input, stream: Boolean(onText) };
+
+    const response = await fetch(`${baseUrl}/api/${operation}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      signal,
+      body: JSON.stringify(request),
+    });
+
+    if (!response.ok) throw await readError(response);
+
+    if (onText && response.body) {
+      return readStream(response.body, onText);
+    }
+
+    const payload: ProxyResponse = await response.json();
+    if ('error' in payload) throw createAIError(payload.kind, payload.error);
+    return payload.text;
+  },
+};
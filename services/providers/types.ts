@@ -0,0 +1,56 @@
+import { Schema } from "@google/genai";
+import { DocumentRef, LanguageCode, SectionSummary, SummaryStyle } from "../../types";
+
+export type AIProviderId = 'gemini' | 'proxy' | 'openai' | 'mock';
+
+export type AIOperation = 'summarize' | 'mindmap' | 'conceptmap' | 'comparemap' | 'infographic' | 'timeline' | 'expand' | 'explain' | 'ground';
+
+// An idea sent to the ground operation; id is only used to match the answer
+export interface GroundingIdea {
+  id: string;
+  text: string;
+}
+
+// Everything an operation's prompt is built from. The proxy server receives
+// only this and builds the prompt itself (services/prompts.ts).
+export interface PromptInput {
+  text: string; // The text to work on; for expand and explain, the source excerpt
+  language: LanguageCode | null; // Resolved output language, null to follow the text
+  style: SummaryStyle;
+  step?: 'chunk' | 'merge'; // Summarize only: one chunk of a long document, or merging the chunk summaries
+  title?: string; // Heading of the chunk
+  sections?: SectionSummary[];
+  sourceText?: string; // Excerpt of the original text for ideas to quote
+  documents?: DocumentRef[]; // Compared documents, comparemap only
+  ideas?: GroundingIdea[]; // Ground: the ideas to find supporting passages for in text
+  path?: string[]; // Expand and explain: labels from the root to the node
+  children?: string[]; // Expand: labels of the node's current children
+  quotes?: boolean; // Expand: ask for supporting quotes
+  rejected?: string[]; // Problems with the previous answer, for a repair attempt
+}
+
+export interface AIRequest {
+  operation: AIOperation;
+  model: string;
+  prompt: string;
+  input: PromptInput; // What the prompt was built from (used by the mock provider)
+  responseSchema?: Schema; // When set, the provider must answer with JSON matching it
+  signal?: AbortSignal;
+  onText?: (delta: string) => void; // When set, the provider streams and reports each new piece of text
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  label: string;
+  defaultModel: string;
+  models: string[]; // Suggestions for the model picker, any model name is accepted
+  generate: (request: AIRequest, config: ProviderConfig) => Promise<string>; // Resolves with the full text, also when streaming
+}
+
+export interface ProviderConfig {
+  provider: AIProviderId;
+  model: string;
+  baseUrl?: string; // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1 for Ollama
+  apiKey?: string;
+  proxyUrl?: string; // Companion server for the proxy provider; empty means the app's own origin
+}
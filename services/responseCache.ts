@@ -0,0 +1,101 @@
+import { AIOperation } from "./providers";
+import { RESPONSES_STORE, withStore } from "./database";
+
+// Persistent cache of model answers in IndexedDB. Entries are keyed by a
+// SHA-256 hash of everything that shapes an answer (provider, model,
+// operation, prompt version and the full prompt with its input), so asking
+// the same thing twice costs one call. The cache is best effort: when it
+// cannot be read or written the request simply goes to the model.
+
+export interface CachedResponse {
+  key: string;
+  operation: AIOperation;
+  model: string;
+  text: string;
+  createdAt: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number; // Approximate size of the cached answers
+  byOperation: Partial<Record<AIOperation, number>>;
+  hits: number; // Since the page was loaded
+  misses: number;
+}
+
+// Oldest answers are dropped beyond this many entries
+const MAX_ENTRIES = 500;
+
+let hits = 0;
+let misses = 0;
+
+export const hashKey = async (parts: unknown[]): Promise<string | null> => {
+  // crypto.subtle only exists in secure contexts (https or localhost)
+  if (typeof crypto === 'undefined' || !crypto.subtle) return null;
+  const bytes = new TextEncoder().encode(JSON.stringify(parts));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const getCachedResponse = async (key: string): Promise<string | null> => {
+  try {
+    const entry = await withStore<CachedResponse | undefined>(RESPONSES_STORE, 'readonly', store => store.get(key));
+    if (entry) hits++;
+    else misses++;
+    return entry ? entry.text : null;
+  } catch (e) {
+    console.warn("Response cache read error:", e);
+    return null;
+  }
+};
+
+const pruneOldest = async () => {
+  const count = await withStore<number>(RESPONSES_STORE, 'readonly', store => store.count());
+  let excess = count - MAX_ENTRIES;
+  if (excess <= 0) return;
+  await withStore(RESPONSES_STORE, 'readwrite', store => {
+    const request = store.index('createdAt').openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || excess <= 0) return;
+      cursor.delete();
+      excess--;
+      cursor.continue();
+    };
+    return request;
+  });
+};
+
+export const putCachedResponse = async (entry: CachedResponse): Promise<void> => {
+  try {
+    await withStore(RESPONSES_STORE, 'readwrite', store => store.put(entry));
+    await pruneOldest();
+  } catch (e) {
+    console.warn("Response cache write error:", e);
+  }
+};
+
+export const deleteCachedResponse = async (key: string): Promise<void> => {
+  try {
+    await withStore(RESPONSES_STORE, 'readwrite', store => store.delete(key));
+  } catch (e) {
+    console.warn("Response cache delete error:", e);
+  }
+};
+
+export const getCacheStats = async (): Promise<CacheStats> => {
+  const entries = await withStore<CachedResponse[]>(RESPONSES_STORE, 'readonly', store => store.getAll());
+  const byOperation: CacheStats['byOperation'] = {};
+  let bytes = 0;
+  entries.forEach(entry => {
+    byOperation[entry.operation] = (byOperation[entry.operation] || 0) + 1;
+    bytes += entry.text.length * 2; // UTF-16, as the browser stores it
+  });
+  return { entries: entries.length, bytes, byOperation, hits, misses };
+};
+
+export const clearResponseCache = async (): Promise<void> => {
+  await withStore(RESPONSES_STORE, 'readwrite', store => store.clear());
+  hits = 0;
+  misses = 0;
+};
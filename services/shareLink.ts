@@ -0,0 +1,116 @@
+import { GraphData, InfographicItem, SummaryStyle, TimelineEntry, TimelineOrientation, VisualTheme, VisualizerType } from "../types";
+import { LAYOUTS, MindMapLayout } from "./mindMapLayout";
+import { INFOGRAPHIC_LAYOUTS, InfographicLayout } from "./infographicLayout";
+import { TIMELINE_ORIENTATIONS } from "./timelineLayout";
+import { normalizeVisualTheme } from "./theme";
+import { normalizeSummaryStyle } from "./summaryStyle";
+import { isRecord, validateGraphData, validateInfographicItems, validateTimeline } from "./validation";
+
+// Share links carry the whole visualization in the URL fragment, deflated
+// and base64url-encoded. The fragment is never sent to a server, so links
+// need no backend, work offline and stay private to whoever holds them.
+
+const SHARE_PREFIX = '#share=';
+const SHARE_VERSION = 1;
+
+export interface SharedState {
+  summary: string;
+  summaryStyle?: SummaryStyle;
+  visualizerType: VisualizerType;
+  graphData?: GraphData;
+  infographicData?: InfographicItem[];
+  timelineData?: TimelineEntry[];
+  settings: {
+    isDarkMode: boolean;
+    showAnnotations: boolean;
+    mindMapLayout: MindMapLayout;
+    infographicLayout: InfographicLayout;
+    timelineOrientation: TimelineOrientation;
+    theme: VisualTheme; // Without the logo, which would make links too long
+  };
+}
+
+const pipeThrough = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+export const createShareUrl = async (state: SharedState): Promise<string> => {
+  // Only the visualization being shared travels in the link
+  const payload = {
+    v: SHARE_VERSION,
+    ...state,
+    graphData: state.visualizerType === 'mindmap' ? state.graphData : undefined,
+    infographicData: state.visualizerType === 'infographic' ? state.infographicData : undefined,
+    timelineData: state.visualizerType === 'timeline' ? state.timelineData : undefined,
+    settings: { ...state.settings, theme: { ...state.settings.theme, logo: undefined } },
+  };
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  const compressed = await pipeThrough(json, new CompressionStream('deflate-raw'));
+  return `${window.location.origin}${window.location.pathname}${SHARE_PREFIX}${toBase64Url(compressed)}`;
+};
+
+export const hasSharedState = (hash: string = window.location.hash) => hash.startsWith(SHARE_PREFIX);
+
+// Links can be edited or truncated by hand, so the payload is validated
+// like model output before anything is rendered. Returns null if unusable.
+export const readSharedState = async (hash: string = window.location.hash): Promise<SharedState | null> => {
+  if (!hasSharedState(hash)) return null;
+
+  let payload: unknown;
+  try {
+    const bytes = await pipeThrough(fromBase64Url(hash.slice(SHARE_PREFIX.length)), new DecompressionStream('deflate-raw'));
+    payload = JSON.parse(new TextDecoder().decode(bytes));
+  } catch (e) {
+    console.error("Share link decode error:", e);
+    return null;
+  }
+  if (!isRecord(payload) || (typeof payload.v === 'number' && payload.v > SHARE_VERSION)) return null;
+
+  const visualizerType: VisualizerType = payload.visualizerType === 'infographic' || payload.visualizerType === 'timeline'
+    ? payload.visualizerType
+    : 'mindmap';
+  const graphData = visualizerType === 'mindmap'
+    ? validateGraphData(JSON.stringify(payload.graphData ?? null)).value
+    : null;
+  const infographicData = visualizerType === 'infographic'
+    ? validateInfographicItems(JSON.stringify(payload.infographicData ?? null)).value
+    : null;
+  const timelineData = visualizerType === 'timeline'
+    ? validateTimeline(JSON.stringify(payload.timelineData ?? null)).value
+    : null;
+  if (!graphData && !infographicData && !timelineData) return null;
+
+  const settings = isRecord(payload.settings) ? payload.settings : {};
+  return {
+    summary: typeof payload.summary === 'string' ? payload.summary : '',
+    summaryStyle: payload.summaryStyle ? normalizeSummaryStyle(payload.summaryStyle) : undefined,
+    visualizerType,
+    graphData: graphData || undefined,
+    infographicData: infographicData || undefined,
+    timelineData: timelineData || undefined,
+    settings: {
+      isDarkMode: settings.isDarkMode === true,
+      showAnnotations: settings.showAnnotations !== false,
+      mindMapLayout: LAYOUTS.includes(settings.mindMapLayout as MindMapLayout) ? settings.mindMapLayout as MindMapLayout : 'force',
+      infographicLayout: INFOGRAPHIC_LAYOUTS.includes(settings.infographicLayout as InfographicLayout) ? settings.infographicLayout as InfographicLayout : 'grid',
+      timelineOrientation: TIMELINE_ORIENTATIONS.includes(settings.timelineOrientation as TimelineOrientation) ? settings.timelineOrientation as TimelineOrientation : 'horizontal',
+      theme: { ...normalizeVisualTheme(settings.theme), logo: undefined },
+    },
+  };
+};
+
+export const clearSharedState = () => {
+  if (hasSharedState()) {
+    window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}`);
+  }
+};
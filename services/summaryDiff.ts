@@ -0,0 +1,125 @@
+// Side-by-side comparison of two summaries. Summaries written separately
+// rarely share whole sentences, so sentences are paired by the words they
+// share rather than by exact text; within a pair, the words that differ are
+// marked. Sentences without a counterpart stand alone on their side.
+
+export interface DiffSegment {
+  text: string;
+  changed: boolean; // Not in the paired sentence on the other side
+}
+
+export interface SummaryDiffRow {
+  kind: 'same' | 'changed' | 'leftOnly' | 'rightOnly';
+  left: DiffSegment[] | null;
+  right: DiffSegment[] | null;
+}
+
+// Share of words two sentences need in common to be shown as a pair
+const MIN_SIMILARITY = 0.35;
+
+const splitSentences = (text: string): string[] =>
+  text
+    .split(/(?<=[.!?…])\s+|\n+/)
+    .map(s => s.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, '').trim())
+    .filter(s => s.length > 0);
+
+const normalize = (word: string) => word.toLocaleLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+
+const wordSet = (sentence: string) => new Set(sentence.split(/\s+/).map(normalize).filter(Boolean));
+
+// Dice coefficient of the two word sets
+const similarity = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(word => { if (b.has(word)) shared++; });
+  return (2 * shared) / (a.size + b.size);
+};
+
+// Longest common subsequence of words; everything outside it is a change
+const diffWords = (left: string, right: string): [DiffSegment[], DiffSegment[]] => {
+  const a = left.split(/\s+/);
+  const b = right.split(/\s+/);
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = normalize(a[i]) === normalize(b[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const leftChanged: boolean[] = [];
+  const rightChanged: boolean[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && normalize(a[i]) === normalize(b[j])) {
+      leftChanged.push(false);
+      rightChanged.push(false);
+      i++;
+      j++;
+    } else if (j >= b.length || (i < a.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+      leftChanged.push(true);
+      i++;
+    } else {
+      rightChanged.push(true);
+      j++;
+    }
+  }
+  return [toSegments(a, leftChanged), toSegments(b, rightChanged)];
+};
+
+// Consecutive words with the same state become one segment
+const toSegments = (words: string[], changed: boolean[]): DiffSegment[] => {
+  const segments: DiffSegment[] = [];
+  words.forEach((word, i) => {
+    const last = segments[segments.length - 1];
+    if (last && last.changed === changed[i]) last.text += ` ${word}`;
+    else segments.push({ text: segments.length > 0 ? ` ${word}` : word, changed: changed[i] });
+  });
+  return segments;
+};
+
+const unchanged = (sentence: string): DiffSegment[] => [{ text: sentence, changed: false }];
+
+// Sentences keep their order on both sides: the pairing is the order-preserving
+// alignment with the highest total similarity
+export const diffSummaries = (left: string, right: string): SummaryDiffRow[] => {
+  const a = splitSentences(left);
+  const b = splitSentences(right);
+  const aWords = a.map(wordSet);
+  const bWords = b.map(wordSet);
+  const pairScore = (i: number, j: number) => {
+    const score = similarity(aWords[i], bWords[j]);
+    return score >= MIN_SIMILARITY ? score : -1;
+  };
+
+  const best = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      const score = pairScore(i, j);
+      best[i][j] = Math.max(best[i + 1][j], best[i][j + 1], score >= 0 ? best[i + 1][j + 1] + score : -1);
+    }
+  }
+
+  const rows: SummaryDiffRow[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    const score = i < a.length && j < b.length ? pairScore(i, j) : -1;
+    if (score >= 0 && best[i][j] === best[i + 1][j + 1] + score) {
+      const [leftSegments, rightSegments] = diffWords(a[i], b[j]);
+      const isSame = leftSegments.every(s => !s.changed) && rightSegments.every(s => !s.changed);
+      rows.push({ kind: isSame ? 'same' : 'changed', left: leftSegments, right: rightSegments });
+      i++;
+      j++;
+    } else if (j >= b.length || (i < a.length && best[i][j] === best[i + 1][j])) {
+      rows.push({ kind: 'leftOnly', left: unchanged(a[i]), right: null });
+      i++;
+    } else {
+      rows.push({ kind: 'rightOnly', left: null, right: unchanged(b[j]) });
+      j++;
+    }
+  }
+  return rows;
+};
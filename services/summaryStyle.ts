@@ -0,0 +1,114 @@
+import { SummaryAudience, SummaryFormat, SummaryLength, SummaryPreset, SummaryStyle } from "../types";
+import { MessageKey, t } from "../i18n";
+
+// Summary options (format, length, audience) and the presets built from them.
+// The current choice and user presets live in localStorage; the style a
+// summary was actually written with is kept on the project next to it.
+
+export const SUMMARY_FORMATS: SummaryFormat[] = ['paragraph', 'bullets', 'tldr', 'executive', 'studyNotes'];
+export const SUMMARY_LENGTHS: SummaryLength[] = ['short', 'medium', 'long'];
+export const SUMMARY_AUDIENCES: SummaryAudience[] = ['beginner', 'general', 'expert'];
+
+// Approximate word budget for each length. TL;DR ignores it.
+export const TARGET_WORDS: Record<SummaryLength, number> = {
+  short: 120,
+  medium: 300,
+  long: 600,
+};
+
+// Matches the single "short and concise" prompt the app started with
+export const DEFAULT_SUMMARY_STYLE: SummaryStyle = { format: 'paragraph', length: 'short', audience: 'general' };
+
+const STYLE_KEY = 'summary-style';
+const PRESETS_KEY = 'summary-presets';
+const BUILT_IN_PREFIX = 'builtin-';
+
+const BUILT_IN_PRESETS: { id: string; nameKey: MessageKey; style: SummaryStyle }[] = [
+  { id: `${BUILT_IN_PREFIX}quick`, nameKey: 'summaryStyle.preset.quick', style: { format: 'tldr', length: 'short', audience: 'general' } },
+  { id: `${BUILT_IN_PREFIX}briefing`, nameKey: 'summaryStyle.preset.briefing', style: { format: 'executive', length: 'medium', audience: 'expert' } },
+  { id: `${BUILT_IN_PREFIX}study`, nameKey: 'summaryStyle.preset.study', style: { format: 'studyNotes', length: 'long', audience: 'beginner' } },
+];
+
+export const formatLabel = (format: SummaryFormat) => t(`summaryStyle.format.${format}` as MessageKey);
+export const lengthLabel = (length: SummaryLength) =>
+  t(`summaryStyle.length.${length}` as MessageKey, { words: TARGET_WORDS[length] });
+export const audienceLabel = (audience: SummaryAudience) => t(`summaryStyle.audience.${audience}` as MessageKey);
+
+// Fills in missing or unknown fields, e.g. from storage or an imported project
+export const normalizeSummaryStyle = (value: unknown): SummaryStyle => {
+  const style = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+  return {
+    format: SUMMARY_FORMATS.includes(style.format as SummaryFormat) ? style.format as SummaryFormat : DEFAULT_SUMMARY_STYLE.format,
+    length: SUMMARY_LENGTHS.includes(style.length as SummaryLength) ? style.length as SummaryLength : DEFAULT_SUMMARY_STYLE.length,
+    audience: SUMMARY_AUDIENCES.includes(style.audience as SummaryAudience) ? style.audience as SummaryAudience : DEFAULT_SUMMARY_STYLE.audience,
+  };
+};
+
+export const isSameStyle = (a: SummaryStyle, b: SummaryStyle) =>
+  a.format === b.format && a.length === b.length && a.audience === b.audience;
+
+export const getPreferredSummaryStyle = (): SummaryStyle => {
+  try {
+    return normalizeSummaryStyle(JSON.parse(localStorage.getItem(STYLE_KEY) || 'null'));
+  } catch {
+    return DEFAULT_SUMMARY_STYLE;
+  }
+};
+
+export const setPreferredSummaryStyle = (style: SummaryStyle) => {
+  try {
+    localStorage.setItem(STYLE_KEY, JSON.stringify(style));
+  } catch {
+    // Storage can be unavailable (private mode); the choice still applies for this session
+  }
+};
+
+const readUserPresets = (): SummaryPreset[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PRESETS_KEY) || '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored
+      .filter(p => p && typeof p.id === 'string' && typeof p.name === 'string')
+      .map(p => ({ id: p.id, name: p.name, style: normalizeSummaryStyle(p.style) }));
+  } catch {
+    return [];
+  }
+};
+
+const writeUserPresets = (presets: SummaryPreset[]) => {
+  try {
+    localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+  } catch {
+    // Storage can be unavailable (private mode); presets then last for this session only
+  }
+};
+
+export const isBuiltInPreset = (id: string) => id.startsWith(BUILT_IN_PREFIX);
+
+// Built-in presets first (named in the current UI language), then the user's own
+export const listSummaryPresets = (): SummaryPreset[] => [
+  ...BUILT_IN_PRESETS.map(p => ({ id: p.id, name: t(p.nameKey), style: p.style })),
+  ...readUserPresets(),
+];
+
+// Saving under an existing name replaces that preset
+export const saveSummaryPreset = (name: string, style: SummaryStyle): SummaryPreset => {
+  const presets = readUserPresets();
+  const trimmed = name.trim();
+  const existing = presets.find(p => p.name === trimmed);
+  const preset: SummaryPreset = { id: existing?.id ?? `preset-${Date.now().toString(36)}`, name: trimmed, style };
+  writeUserPresets(existing ? presets.map(p => (p.id === existing.id ? preset : p)) : [...presets, preset]);
+  return preset;
+};
+
+export const deleteSummaryPreset = (id: string) => {
+  writeUserPresets(readUserPresets().filter(p => p.id !== id));
+};
+
+// One-line description, e.g. "Bullet points · Short (~120 words) · Expert"
+export const summaryStyleLabel = (style: SummaryStyle) =>
+  [
+    formatLabel(style.format),
+    style.format === 'tldr' ? null : lengthLabel(style.length),
+    audienceLabel(style.audience),
+  ].filter(Boolean).join(' · ');
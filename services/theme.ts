@@ -0,0 +1,150 @@
+import * as d3 from 'd3';
+import { BrandColors, ThemeFontId, ThemePaletteId, VisualTheme } from "../types";
+import { MessageKey, t } from "../i18n";
+import { isRecord } from "./validation";
+
+// Named palettes, font stacks and the custom brand theme shared by the mind
+// map, the infographic and their exports. The chosen theme is a preference
+// kept in localStorage, like the summary style.
+
+export const THEME_PALETTES: ThemePaletteId[] = ['glass', 'ocean', 'forest', 'sunset', 'mono', 'brand'];
+export const THEME_FONTS: ThemeFontId[] = ['system', 'serif', 'rounded', 'mono'];
+
+// Resolved colors for one palette in light or dark mode
+export interface ThemeColors {
+  primary: string; // Root nodes, icons, big numbers
+  secondary: string; // Branch nodes
+  accent: string; // Leaf nodes
+  series: string[]; // Chart series, in order
+  background: [string, string, string]; // Gradient behind exported infographics
+}
+
+type PaletteSpec = Record<'light' | 'dark', Omit<ThemeColors, 'series'>>;
+
+// 'glass' is the app's original look
+const PALETTES: Record<Exclude<ThemePaletteId, 'brand'>, PaletteSpec> = {
+  glass: {
+    light: { primary: '#6366f1', secondary: '#ec4899', accent: '#3b82f6', background: ['#e0f2fe', '#f3e8ff', '#fce7f3'] },
+    dark: { primary: '#818cf8', secondary: '#f472b6', accent: '#60a5fa', background: ['#0f172a', '#1e293b', '#0f172a'] },
+  },
+  ocean: {
+    light: { primary: '#0369a1', secondary: '#0d9488', accent: '#6366f1', background: ['#e0f2fe', '#ecfeff', '#f0f9ff'] },
+    dark: { primary: '#38bdf8', secondary: '#2dd4bf', accent: '#a5b4fc', background: ['#082f49', '#0c4a6e', '#082f49'] },
+  },
+  forest: {
+    light: { primary: '#15803d', secondary: '#a16207', accent: '#0f766e', background: ['#f0fdf4', '#fefce8', '#ecfdf5'] },
+    dark: { primary: '#4ade80', secondary: '#facc15', accent: '#5eead4', background: ['#052e16', '#14532d', '#052e16'] },
+  },
+  sunset: {
+    light: { primary: '#ea580c', secondary: '#db2777', accent: '#ca8a04', background: ['#fff7ed', '#fdf2f8', '#fefce8'] },
+    dark: { primary: '#fb923c', secondary: '#f472b6', accent: '#fde047', background: ['#431407', '#4c0519', '#422006'] },
+  },
+  mono: {
+    light: { primary: '#111827', secondary: '#4b5563', accent: '#9ca3af', background: ['#f9fafb', '#f3f4f6', '#e5e7eb'] },
+    dark: { primary: '#f9fafb', secondary: '#d1d5db', accent: '#6b7280', background: ['#030712', '#111827', '#030712'] },
+  },
+};
+
+// Extra series colors after the palette's own three
+const EXTRA_SERIES = ['#10b981', '#0ea5e9', '#8b5cf6'];
+
+// System fonts only: an SVG drawn as an image cannot load web fonts, and these
+// all cover Vietnamese
+export const FONT_STACKS: Record<ThemeFontId, string> = {
+  system: "'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif",
+  serif: "Georgia, 'Times New Roman', serif",
+  rounded: "'Trebuchet MS', 'Segoe UI', Verdana, sans-serif",
+  mono: "'SF Mono', Consolas, 'Liberation Mono', monospace",
+};
+
+export const DEFAULT_BRAND_COLORS: BrandColors = { primary: '#1d4ed8', secondary: '#f97316', accent: '#0f766e' };
+
+export const DEFAULT_THEME: VisualTheme = { palette: 'glass', font: 'system', brandColors: DEFAULT_BRAND_COLORS };
+
+// Logos are kept in localStorage, which holds a few megabytes at most
+export const MAX_LOGO_BYTES = 200 * 1024;
+
+const THEME_KEY = 'visual-theme';
+
+const isHexColor = (value: unknown): value is string => typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+// Brand backgrounds are tints (light) or shades (dark) of the brand colors
+const brandPalette = (colors: BrandColors, isDarkMode: boolean): Omit<ThemeColors, 'series'> => {
+  const base = isDarkMode ? '#0f172a' : '#ffffff';
+  const mix = (color: string) => d3.color(d3.interpolateRgb(color, base)(isDarkMode ? 0.8 : 0.88))!.formatHex();
+  return {
+    ...colors,
+    background: [mix(colors.primary), mix(colors.secondary), mix(colors.accent)],
+  };
+};
+
+export const resolveThemeColors = (theme: VisualTheme, isDarkMode: boolean): ThemeColors => {
+  const colors = theme.palette === 'brand'
+    ? brandPalette(theme.brandColors, isDarkMode)
+    : PALETTES[theme.palette][isDarkMode ? 'dark' : 'light'];
+  return { ...colors, series: [colors.primary, colors.secondary, colors.accent, ...EXTRA_SERIES] };
+};
+
+export const themeFont = (theme: VisualTheme) => FONT_STACKS[theme.font];
+
+// A theme color as rgba, for tinted backgrounds
+export const withOpacity = (color: string, opacity: number) => {
+  const parsed = d3.color(color);
+  return parsed ? parsed.copy({ opacity }).formatRgb() : color;
+};
+
+// Whether the visualizations show a brand header with the logo and name
+export const hasBrandHeader = (theme: VisualTheme) => Boolean(theme.logo || theme.brandName);
+
+export const paletteLabel = (palette: ThemePaletteId) => t(`theme.palette.${palette}` as MessageKey);
+export const fontLabel = (font: ThemeFontId) => t(`theme.font.${font}` as MessageKey);
+
+// Fills in missing or invalid fields, e.g. from storage or a share link
+export const normalizeVisualTheme = (value: unknown): VisualTheme => {
+  const theme = isRecord(value) ? value : {};
+  const brand = isRecord(theme.brandColors) ? theme.brandColors : {};
+  const brandName = typeof theme.brandName === 'string' ? theme.brandName.trim().slice(0, 60) : '';
+  const logo = typeof theme.logo === 'string' && theme.logo.startsWith('data:image/') && theme.logo.length <= MAX_LOGO_BYTES * 1.4
+    ? theme.logo
+    : undefined;
+  return {
+    palette: THEME_PALETTES.includes(theme.palette as ThemePaletteId) ? theme.palette as ThemePaletteId : DEFAULT_THEME.palette,
+    font: THEME_FONTS.includes(theme.font as ThemeFontId) ? theme.font as ThemeFontId : DEFAULT_THEME.font,
+    brandColors: {
+      primary: isHexColor(brand.primary) ? brand.primary : DEFAULT_BRAND_COLORS.primary,
+      secondary: isHexColor(brand.secondary) ? brand.secondary : DEFAULT_BRAND_COLORS.secondary,
+      accent: isHexColor(brand.accent) ? brand.accent : DEFAULT_BRAND_COLORS.accent,
+    },
+    ...(brandName ? { brandName } : {}),
+    ...(logo ? { logo } : {}),
+  };
+};
+
+export const getVisualTheme = (): VisualTheme => {
+  try {
+    return normalizeVisualTheme(JSON.parse(localStorage.getItem(THEME_KEY) || 'null'));
+  } catch {
+    return DEFAULT_THEME;
+  }
+};
+
+// Returns false when the theme could not be stored, e.g. a logo over the storage quota
+export const setVisualTheme = (theme: VisualTheme): boolean => {
+  try {
+    localStorage.setItem(THEME_KEY, JSON.stringify(theme));
+    return true;
+  } catch {
+    // Storage can be unavailable (private mode); the theme still applies for this session
+    return false;
+  }
+};
+
+export const readLogoFile = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    if (!file.type.startsWith('image/')) return reject(new Error("Not an image"));
+    if (file.size > MAX_LOGO_BYTES) return reject(new Error("Logo too large"));
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
@@ -0,0 +1,196 @@
+import { TimelineEntry, TimelineOrientation, VisualTheme } from "../types";
+import {
+  CARD_HEIGHT,
+  CARD_WIDTH,
+  cardGeometry,
+  eventPositions,
+  isDatedTimeline,
+  laneLabelPoint,
+  laneLine,
+  layoutTimeline,
+  tickLabelPoint,
+  tickLine,
+  timelineGroups,
+  timelineLength,
+  timelineScale,
+  timelineTicks
+} from "./timelineLayout";
+import { seriesColor } from "./infographicCharts";
+import { getMindMapPalette } from "./mindMapStyle";
+import { DEFAULT_THEME, hasBrandHeader, resolveThemeColors, themeFont } from "./theme";
+import { t } from "../i18n";
+
+// Draws the timeline as a standalone SVG with the same geometry as
+// TimelineView, fully zoomed out. Cards use native <text> instead of HTML so
+// the file also rasterizes to PNG and PDF.
+
+export interface TimelineSvg {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+interface TimelineSvgOptions {
+  isDarkMode?: boolean;
+  theme?: VisualTheme;
+  orientation?: TimelineOrientation;
+}
+
+const PADDING = 40;
+const CARD_PADDING = 12;
+const DATE_SIZE = 11;
+const TITLE_SIZE = 13;
+const TITLE_LINE_HEIGHT = 16;
+const BRAND_HEIGHT = 40;
+const BRAND_LOGO_WIDTH = 120;
+const BRAND_NAME_SIZE = 18;
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+const measure = (text: string, font: string) => {
+  if (!measureContext) measureContext = document.createElement('canvas').getContext('2d');
+  if (!measureContext) return text.length * 7;
+  measureContext.font = font;
+  return measureContext.measureText(text).width;
+};
+
+const fitText = (text: string, font: string, maxWidth: number) => {
+  if (measure(text, font) <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 1 && measure(`${fitted}…`, font) > maxWidth) fitted = fitted.slice(0, -1);
+  return `${fitted.trimEnd()}…`;
+};
+
+// Two lines at most, the second one truncated, like line-clamp-2 on screen
+const clampLines = (text: string, font: string, maxWidth: number): string[] => {
+  const words = text.split(/\s+/).filter(Boolean);
+  let first = '';
+  let rest = 0;
+  for (; rest < words.length; rest++) {
+    const candidate = first ? `${first} ${words[rest]}` : words[rest];
+    if (first && measure(candidate, font) > maxWidth) break;
+    first = candidate;
+  }
+  const second = words.slice(rest).join(' ');
+  return second ? [fitText(first, font, maxWidth), fitText(second, font, maxWidth)] : [fitText(first, font, maxWidth)];
+};
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export const toTimelineSvg = (
+  entries: TimelineEntry[],
+  { isDarkMode = false, theme = DEFAULT_THEME, orientation = 'horizontal' }: TimelineSvgOptions = {}
+): TimelineSvg => {
+  const colors = resolveThemeColors(theme, isDarkMode);
+  const palette = getMindMapPalette(isDarkMode);
+  const fontFamily = themeFont(theme);
+  const isHorizontal = orientation === 'horizontal';
+  const isDated = isDatedTimeline(entries);
+
+  const length = timelineLength(entries, orientation);
+  const scale = timelineScale(entries, length, orientation);
+  const layout = layoutTimeline(entries, eventPositions(entries, scale), orientation);
+  const ticks = timelineTicks(entries, scale, Math.max(2, Math.floor(length / (isHorizontal ? 120 : 80))));
+
+  const brandHeight = hasBrandHeader(theme) ? BRAND_HEIGHT : 0;
+  const drawingWidth = isHorizontal ? length : layout.size;
+  const drawingHeight = isHorizontal ? layout.size : length;
+  const width = Math.round(drawingWidth + PADDING * 2);
+  const height = Math.round(drawingHeight + PADDING * 2 + brandHeight);
+  const crossSize = isHorizontal ? drawingHeight : drawingWidth;
+
+  const mutedText = isDarkMode ? '#94a3b8' : '#64748b';
+  const cardFill = isDarkMode ? '#1e293b' : '#ffffff';
+  const cardStroke = isDarkMode ? '#475569' : '#e2e8f0';
+  const titleFont = `600 ${TITLE_SIZE}px ${fontFamily}`;
+  const dateFont = `bold ${DATE_SIZE}px ${fontFamily}`;
+  const textWidth = CARD_WIDTH - CARD_PADDING * 2;
+
+  const tickMarkup = ticks.map(tick => {
+    const [from, to] = tickLine(tick, crossSize, orientation);
+    const label = tickLabelPoint(tick, orientation);
+    return `    <line x1="${round(from.x)}" y1="${round(from.y)}" x2="${round(to.x)}" y2="${round(to.y)}" stroke="${palette.link}" stroke-dasharray="3 5"/>
+    <text x="${round(label.x)}" y="${round(label.y)}" font-size="11" font-weight="600" fill="${mutedText}" dominant-baseline="central" text-anchor="${isHorizontal ? 'middle' : 'end'}">${escapeXml(tick.label)}</text>`;
+  });
+
+  const laneMarkup = layout.lanes.map((lane, i) => {
+    const [from, to] = laneLine(lane, length, orientation);
+    const label = laneLabelPoint(lane, orientation);
+    const color = seriesColor(colors.series, i);
+    const name = lane.group || layout.lanes.length > 1
+      ? `\n    <text x="${round(label.x)}" y="${round(label.y)}" font-size="12" font-weight="bold" fill="${color}" dominant-baseline="central">${escapeXml(lane.group ?? t('timeline.ungrouped'))}</text>`
+      : '';
+    return `    <line x1="${round(from.x)}" y1="${round(from.y)}" x2="${round(to.x)}" y2="${round(to.y)}" stroke="${color}" stroke-opacity="0.5" stroke-width="2"/>${name}`;
+  });
+
+  const cardMarkup = layout.cards.map(card => {
+    const entry = entries[card.index];
+    const { x, y, dot, anchor } = cardGeometry(card, layout.lanes[card.lane], orientation);
+    const color = seriesColor(colors.series, card.lane);
+    const date = fitText(entry.date || t('timeline.step', { number: card.index + 1 }), dateFont, textWidth);
+    const title = clampLines(entry.title, titleFont, textWidth)
+      .map((line, i) => `<tspan x="${round(x + CARD_PADDING)}" y="${round(y + 28 + i * TITLE_LINE_HEIGHT)}">${escapeXml(line)}</tspan>`)
+      .join('');
+    const number = isDated
+      ? ''
+      : `\n      <text x="${round(dot.x)}" y="${round(dot.y)}" font-size="10" font-weight="bold" fill="#ffffff" text-anchor="middle" dominant-baseline="central">${card.index + 1}</text>`;
+
+    return `    <g>${entry.description ? `
+      <title>${escapeXml(entry.description)}</title>` : ''}
+      <line x1="${round(dot.x)}" y1="${round(dot.y)}" x2="${round(anchor.x)}" y2="${round(anchor.y)}" stroke="${color}" stroke-opacity="0.6"/>
+      <circle cx="${round(dot.x)}" cy="${round(dot.y)}" r="${isDated ? 6 : 10}" fill="${color}" stroke="${cardFill}" stroke-width="2"/>${number}
+      <rect x="${round(x)}" y="${round(y)}" width="${CARD_WIDTH}" height="${CARD_HEIGHT}" rx="12" fill="${cardFill}" stroke="${cardStroke}"/>
+      <rect x="${round(x)}" y="${round(y + 6)}" width="4" height="${CARD_HEIGHT - 12}" rx="2" fill="${color}"/>
+      <text x="${round(x + CARD_PADDING)}" y="${round(y + 10)}" font-size="${DATE_SIZE}" font-weight="bold" fill="${color}" dominant-baseline="hanging">${escapeXml(date)}</text>
+      <text font-size="${TITLE_SIZE}" font-weight="600" fill="${palette.text}" dominant-baseline="hanging">${title}</text>
+    </g>`;
+  });
+
+  const logo = theme.logo
+    ? `  <image href="${escapeXml(theme.logo)}" x="${PADDING}" y="${PADDING / 2}" width="${BRAND_LOGO_WIDTH}" height="${BRAND_HEIGHT - 8}" preserveAspectRatio="xMinYMid meet"/>\n`
+    : '';
+  const brandName = theme.brandName
+    ? `  <text x="${theme.logo ? PADDING + BRAND_LOGO_WIDTH + 12 : PADDING}" y="${PADDING / 2 + (BRAND_HEIGHT - 8) / 2}" font-size="${BRAND_NAME_SIZE}" font-weight="bold" fill="${colors.primary}" dominant-baseline="central">${escapeXml(theme.brandName)}</text>\n`
+    : '';
+
+  const svg = `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${escapeXml(fontFamily)}">
+  <defs>
+    <linearGradient id="background" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0%" stop-color="${colors.background[0]}"/>
+      <stop offset="50%" stop-color="${colors.background[1]}"/>
+      <stop offset="100%" stop-color="${colors.background[2]}"/>
+    </linearGradient>
+  </defs>
+  <rect width="100%" height="100%" fill="url(#background)"/>
+${brandHeight ? logo + brandName : ''}  <g transform="translate(${PADDING}, ${PADDING + brandHeight})">
+${[...tickMarkup, ...laneMarkup, ...cardMarkup].join('\n')}
+  </g>
+</svg>
+`;
+  return { svg, width, height };
+};
+
+// One section per group, events in timeline order
+export const toTimelineMarkdown = (entries: TimelineEntry[]): string => {
+  const groups = timelineGroups(entries);
+  const hasHeadings = groups.length > 1 || groups[0] !== null;
+  return groups.map(group => {
+    const items = entries
+      .map((entry, index) => ({ entry, index }))
+      .filter(({ entry }) => (entry.group ?? null) === group)
+      .map(({ entry, index }) => {
+        const date = entry.date || t('timeline.step', { number: index + 1 });
+        return `- **${date}** ${entry.title}${entry.description ? `: ${entry.description}` : ''}`;
+      })
+      .join('\n');
+    return hasHeadings ? `## ${group ?? t('timeline.ungrouped')}\n\n${items}` : items;
+  }).join('\n\n') + '\n';
+};
@@ -0,0 +1,185 @@
+import * as d3 from 'd3';
+import { TimelineEntry, TimelineOrientation } from "../types";
+import { getLocale } from "../i18n";
+
+// Geometry of the timeline visualizer, shared by TimelineView and the SVG
+// export. Events sit on one lane per group; within a lane, cards that would
+// overlap are stacked on further levels. Everything is computed along two
+// axes, the time axis ("main") and the lane axis ("cross"), and only turned
+// into x and y at the end, so both orientations share the same code.
+
+export const TIMELINE_ORIENTATIONS: TimelineOrientation[] = ['horizontal', 'vertical'];
+
+export const CARD_WIDTH = 180;
+export const CARD_HEIGHT = 64;
+const CARD_GAP = 10;
+const LANE_LABEL = 28; // Before the lane's line; holds the group name of horizontal lanes
+const LANE_GAP = 16;
+const DOT_OFFSET = 20; // From the lane's line to its first level of cards
+
+// Band for the time axis labels before the first lane: above the lanes, or left of them
+export const AXIS_BAND: Record<TimelineOrientation, number> = { horizontal: 36, vertical: 96 };
+// Vertical lanes are columns with their group name at the top
+const COLUMN_HEADER = 32;
+
+const axisStart = (orientation: TimelineOrientation) => (orientation === 'vertical' ? COLUMN_HEADER : 0);
+
+export const isDatedTimeline = (entries: TimelineEntry[]) =>
+  entries.length > 0 && entries.every(e => e.time !== undefined);
+
+// The extent of a card along the time axis and across it
+const mainExtent = (orientation: TimelineOrientation) => (orientation === 'horizontal' ? CARD_WIDTH : CARD_HEIGHT);
+const crossExtent = (orientation: TimelineOrientation) => (orientation === 'horizontal' ? CARD_HEIGHT : CARD_WIDTH);
+
+// Length of the time axis before zooming: enough for every card side by side
+export const timelineLength = (entries: TimelineEntry[], orientation: TimelineOrientation) =>
+  Math.max(orientation === 'horizontal' ? 1000 : 640, entries.length * (mainExtent(orientation) + CARD_GAP) + axisStart(orientation));
+
+// Dated events are placed by date (UTC milliseconds), the others at even steps
+const eventValue = (entry: TimelineEntry, index: number, isDated: boolean) => (isDated ? entry.time! : index);
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const timelineScale = (entries: TimelineEntry[], length: number, orientation: TimelineOrientation) => {
+  const isDated = isDatedTimeline(entries);
+  const [min = 0, max = 0] = d3.extent(entries.map((e, i) => eventValue(e, i, isDated)));
+  // A single date still needs some room around it
+  const spread = max > min ? 0 : isDated ? 365 * DAY : 1;
+  const margin = mainExtent(orientation) / 2 + 16;
+  return d3.scaleLinear()
+    .domain([min - spread, max + spread])
+    .range([axisStart(orientation) + margin, length - margin]);
+};
+
+export const eventPositions = (entries: TimelineEntry[], scale: d3.ScaleLinear<number, number>) => {
+  const isDated = isDatedTimeline(entries);
+  return entries.map((e, i) => scale(eventValue(e, i, isDated)));
+};
+
+export interface TimelineTick {
+  position: number;
+  label: string;
+}
+
+// Calendar ticks for dated timelines, labeled by year, month or day depending
+// on the visible span. Timelines of ordered steps have no time axis.
+export const timelineTicks = (entries: TimelineEntry[], scale: d3.ScaleLinear<number, number>, count: number): TimelineTick[] => {
+  if (!isDatedTimeline(entries)) return [];
+  const [start, end] = scale.domain();
+  const span = end - start;
+  const format = new Intl.DateTimeFormat(getLocale(), {
+    timeZone: 'UTC',
+    ...(span > 3 * 365 * DAY ? { year: 'numeric' } : span > 60 * DAY ? { month: 'short', year: 'numeric' } : { day: 'numeric', month: 'short' }),
+  });
+  const time = d3.scaleUtc().domain([new Date(start), new Date(end)]);
+  return time.ticks(count).map(date => ({ position: scale(date.getTime()), label: format.format(date) }));
+};
+
+export interface TimelineLane {
+  group: string | null; // null for events without a group
+  offset: number; // Start along the cross axis
+  size: number;
+}
+
+export interface TimelineCard {
+  index: number;
+  lane: number;
+  level: number;
+  position: number; // Center along the time axis
+}
+
+export interface TimelineLayout {
+  lanes: TimelineLane[];
+  cards: TimelineCard[];
+  size: number; // Total extent along the cross axis
+}
+
+// One lane per group, in order of first appearance; ungrouped events share the last lane
+export const timelineGroups = (entries: TimelineEntry[]): (string | null)[] => {
+  const groups: (string | null)[] = [];
+  entries.forEach(e => {
+    const group = e.group ?? null;
+    if (group !== null && !groups.includes(group)) groups.push(group);
+  });
+  if (groups.length === 0 || entries.some(e => e.group === undefined)) groups.push(null);
+  return groups;
+};
+
+export const layoutTimeline = (entries: TimelineEntry[], positions: number[], orientation: TimelineOrientation): TimelineLayout => {
+  const groups = timelineGroups(entries);
+  const half = mainExtent(orientation) / 2;
+  const lanes: TimelineLane[] = [];
+  const cards: TimelineCard[] = [];
+  let offset = AXIS_BAND[orientation];
+
+  groups.forEach((group, lane) => {
+    const members = entries
+      .map((entry, index) => ({ entry, index, position: positions[index] }))
+      .filter(m => (m.entry.group ?? null) === group)
+      .sort((a, b) => a.position - b.position);
+
+    // Greedy packing: each card goes on the first level where it clears the previous card
+    const levelEnds: number[] = [];
+    members.forEach(({ index, position }) => {
+      let level = levelEnds.findIndex(end => end + CARD_GAP <= position - half);
+      if (level === -1) level = levelEnds.length;
+      levelEnds[level] = position + half;
+      cards.push({ index, lane, level, position });
+    });
+
+    const levels = Math.max(levelEnds.length, 1);
+    const size = LANE_LABEL + DOT_OFFSET + levels * (crossExtent(orientation) + CARD_GAP) - CARD_GAP;
+    lanes.push({ group, offset, size });
+    offset += size + LANE_GAP;
+  });
+
+  cards.sort((a, b) => a.index - b.index);
+  return { lanes, cards, size: offset - LANE_GAP };
+};
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+const toPoint = (main: number, cross: number, orientation: TimelineOrientation): Point =>
+  orientation === 'horizontal' ? { x: main, y: cross } : { x: cross, y: main };
+
+// The lane's line, from the start to the end of the time axis
+export const laneLine = (lane: TimelineLane, length: number, orientation: TimelineOrientation): [Point, Point] => {
+  const cross = lane.offset + LANE_LABEL;
+  return [toPoint(axisStart(orientation), cross, orientation), toPoint(length, cross, orientation)];
+};
+
+// Group names start at the lane's corner and are written left to right
+export const laneLabelPoint = (lane: TimelineLane, orientation: TimelineOrientation): Point =>
+  orientation === 'horizontal' ? { x: 4, y: lane.offset + LANE_LABEL / 2 } : { x: lane.offset, y: COLUMN_HEADER / 2 };
+
+export interface CardGeometry {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  dot: Point; // Where the event sits on the lane's line
+  anchor: Point; // Middle of the card's edge facing the line
+}
+
+export const cardGeometry = (card: TimelineCard, lane: TimelineLane, orientation: TimelineOrientation): CardGeometry => {
+  const line = lane.offset + LANE_LABEL;
+  const near = line + DOT_OFFSET + card.level * (crossExtent(orientation) + CARD_GAP);
+  const corner = toPoint(card.position - mainExtent(orientation) / 2, near, orientation);
+  return {
+    ...corner,
+    width: CARD_WIDTH,
+    height: CARD_HEIGHT,
+    dot: toPoint(card.position, line, orientation),
+    anchor: toPoint(card.position, near, orientation),
+  };
+};
+
+// Tick lines run across all lanes
+export const tickLine = (tick: TimelineTick, size: number, orientation: TimelineOrientation): [Point, Point] =>
+  [toPoint(tick.position, AXIS_BAND[orientation] - 8, orientation), toPoint(tick.position, size, orientation)];
+
+export const tickLabelPoint = (tick: TimelineTick, orientation: TimelineOrientation): Point =>
+  orientation === 'horizontal' ? { x: tick.position, y: AXIS_BAND.horizontal / 2 } : { x: AXIS_BAND.vertical - 12, y: tick.position };
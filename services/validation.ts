@@ -0,0 +1,648 @@
+import { ChartDatum, DocumentRef, GraphData, InfographicItem, InfographicItemKind, LinkData, NodeData, NodeExpansion, RankedEntry, RelationType, SourceSpan, TimelineEntry, TimelineEvent } from "../types";
+import { MAX_SOURCES, locateQuote } from "./grounding";
+import { ROOT_ID } from "./graphEditing";
+
+// Model output is only "JSON-shaped": it can reference missing nodes, repeat
+// ids, forget the root or invent icons. These validators repair what they can
+// and report everything they touched. A result without a value means the
+// response could not be repaired and the model should be asked again.
+
+export interface ValidationIssue {
+  severity: 'repaired' | 'fatal';
+  message: string;
+}
+
+export interface ValidationResult<T> {
+  value: T | null;
+  issues: ValidationIssue[];
+}
+
+export const INFOGRAPHIC_ICONS: InfographicItem['icon'][] = ['chart', 'bulb', 'users', 'globe', 'time', 'shield', 'target', 'default'];
+
+export const INFOGRAPHIC_KINDS: InfographicItemKind[] = ['insight', 'stat', 'timeline', 'comparison', 'breakdown', 'ranking'];
+
+export const RELATION_TYPES: RelationType[] = ['partOf', 'causes', 'supports', 'contradicts', 'example', 'related'];
+
+export const MIN_INFOGRAPHIC_ITEMS = 4;
+export const MAX_INFOGRAPHIC_ITEMS = 6;
+
+export const MAX_EXPANSION_ITEMS = 6;
+
+export const MIN_TIMELINE_ENTRIES = 2;
+export const MAX_TIMELINE_ENTRIES = 20;
+export const MAX_TIMELINE_GROUPS = 6;
+
+const parseJson = (jsonText: string, issues: ValidationIssue[]): unknown => {
+  try {
+    return JSON.parse(jsonText);
+  } catch {
+    issues.push({ severity: 'fatal', message: "Response is not valid JSON" });
+    return undefined;
+  }
+};
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toId = (value: unknown): string | null => {
+  if (typeof value === 'string' && value.trim()) return value.trim();
+  if (typeof value === 'number') return String(value);
+  return null;
+};
+
+const isSourceSpan = (value: unknown): value is SourceSpan =>
+  isRecord(value)
+  && typeof value.quote === 'string'
+  && typeof value.start === 'number'
+  && typeof value.end === 'number'
+  && value.start >= 0
+  && value.end >= value.start;
+
+// Supporting passages of one idea. Given the source text, the model's
+// "quotes" are located in it and the ones that are not there are dropped.
+// Without it (imported files, share links) stored spans are only checked
+// for shape. Returns undefined when the idea was never grounded.
+const readSources = (
+  entry: Record<string, unknown>,
+  owner: string,
+  sourceText: string | undefined,
+  repaired: (message: string) => void
+): SourceSpan[] | undefined => {
+  if (sourceText === undefined) {
+    return Array.isArray(entry.sources) ? entry.sources.filter(isSourceSpan).slice(0, MAX_SOURCES) : undefined;
+  }
+
+  const quotes = Array.isArray(entry.quotes) ? entry.quotes.filter((q): q is string => typeof q === 'string') : [];
+  const sources: SourceSpan[] = [];
+  quotes.forEach(quote => {
+    const range = locateQuote(sourceText, quote);
+    if (!range) {
+      repaired(`Dropped a quote for "${owner}" that is not in the source text`);
+      return;
+    }
+    if (sources.length < MAX_SOURCES && !sources.some(s => s.start === range.start)) {
+      // Keep the original wording rather than the model's copy of it
+      sources.push({ quote: sourceText.slice(range.start, range.end), ...range });
+    }
+  });
+  return sources;
+};
+
+// Most rows kept in a list or chart, so a card stays readable
+const MAX_ITEM_ROWS = 6;
+const MAX_TIMELINE_EVENTS = 8;
+
+const toText = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+// Models sometimes write numbers as strings, e.g. "12.5" or "40%". Separators
+// are not guessed: "1,200" and "1.200" mean different things across languages.
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const text = value.trim().replace(/\s*%$/, '');
+  const parsed = Number(text);
+  return text && Number.isFinite(parsed) ? parsed : null;
+};
+
+const readList = <T>(value: unknown, read: (entry: unknown) => T | null, max: number): T[] =>
+  (Array.isArray(value) ? value.map(read).filter((v): v is T => v !== null) : []).slice(0, max);
+
+const readDatum = (entry: unknown): ChartDatum | null => {
+  const label = isRecord(entry) ? toText(entry.label) : '';
+  const value = isRecord(entry) ? toNumber(entry.value) : null;
+  return label && value !== null && value >= 0 ? { label, value } : null;
+};
+
+// The data fields of one typed item, or null when it has too little data for
+// its kind and has to be shown as a plain card instead
+const readItemData = (
+  entry: Record<string, unknown>,
+  kind: InfographicItemKind,
+  repaired: (message: string) => void
+): Partial<InfographicItem> | null => {
+  switch (kind) {
+    case 'insight':
+      return {};
+    case 'stat': {
+      const value = toNumber(entry.value);
+      const unit = toText(entry.unit);
+      return value === null ? null : { value, ...(unit ? { unit } : {}) };
+    }
+    case 'timeline': {
+      const events = readList<TimelineEvent>(entry.events, e => {
+        const date = isRecord(e) ? toText(e.date) : '';
+        const label = isRecord(e) ? toText(e.label) : '';
+        return date && label ? { date, label } : null;
+      }, MAX_TIMELINE_EVENTS);
+      return events.length >= 2 ? { events } : null;
+    }
+    case 'comparison': {
+      const pros = readList(entry.pros, e => toText(e) || null, MAX_ITEM_ROWS);
+      const cons = readList(entry.cons, e => toText(e) || null, MAX_ITEM_ROWS);
+      return pros.length > 0 && cons.length > 0 ? { pros, cons } : null;
+    }
+    case 'breakdown': {
+      const segments = readList(entry.segments, readDatum, MAX_ITEM_ROWS);
+      const total = segments.reduce((sum, s) => sum + s.value, 0);
+      if (segments.length < 2 || total <= 0) return null;
+      // Shares may leave a remainder, but can never add up to more than the whole
+      if (total > 100.5) {
+        repaired(`Scaled breakdown "${toText(entry.title)}" from ${total}% to 100%`);
+        return { segments: segments.map(s => ({ ...s, value: Math.round((s.value / total) * 1000) / 10 })) };
+      }
+      return { segments };
+    }
+    case 'ranking': {
+      const entries = readList<RankedEntry>(entry.entries, e => {
+        const label = isRecord(e) ? toText(e.label) : '';
+        const value = isRecord(e) ? toNumber(e.value) : null;
+        return label ? { label, ...(value !== null ? { value } : {}) } : null;
+      }, MAX_ITEM_ROWS);
+      // A bar chart needs a figure for every entry, otherwise the list is only numbered
+      const ranked = entries.every(e => e.value !== undefined) ? entries : entries.map(e => ({ label: e.label }));
+      return ranked.length >= 2 ? { entries: ranked } : null;
+    }
+  }
+};
+
+const MAX_RELATION_LABEL = 40;
+
+// Relationship fields of one link. Links with a label, a type or the
+// cross-link flag are relations; in a concept map every link is, and tree
+// links without a type are read as "part of".
+const readRelation = (
+  entry: Record<string, unknown>,
+  name: string,
+  conceptMap: boolean,
+  repaired: (message: string) => void
+): Partial<LinkData> => {
+  const crossLink = entry.crossLink === true;
+  let label = toText(entry.label);
+  if (label.length > MAX_RELATION_LABEL) {
+    label = `${label.slice(0, MAX_RELATION_LABEL - 1).trimEnd()}…`;
+    repaired(`Shortened the label of link ${name}`);
+  }
+
+  let type = RELATION_TYPES.find(known => known === entry.type);
+  if (!type) {
+    if (!conceptMap && !label && !crossLink && entry.type === undefined) return {};
+    type = crossLink || label ? 'related' : 'partOf';
+    if (entry.type !== undefined) repaired(`Unknown relation type "${String(entry.type)}" on link ${name}, using "${type}"`);
+  }
+
+  let weight = toNumber(entry.weight);
+  if (weight !== null && (weight < 0 || weight > 1)) {
+    repaired(`Clamped the weight of link ${name} to between 0 and 1`);
+    weight = Math.min(Math.max(weight, 0), 1);
+  }
+
+  return {
+    type,
+    ...(label ? { label } : {}),
+    ...(weight !== null ? { weight } : {}),
+    ...(crossLink ? { crossLink } : {}),
+  };
+};
+
+// The compared documents listed by a stored multi-document map; entries
+// without a key or repeating one are dropped
+const readDocumentRefs = (value: unknown): DocumentRef[] => {
+  if (!Array.isArray(value)) return [];
+  const documents: DocumentRef[] = [];
+  value.forEach(entry => {
+    const key = isRecord(entry) ? toId(entry.key) : null;
+    if (!isRecord(entry) || !key || documents.some(d => d.key === key)) return;
+    documents.push({ key, label: toText(entry.label) || key });
+  });
+  return documents;
+};
+
+// Keys of the documents one idea comes from, limited to the known documents
+const readDocumentTags = (
+  entry: Record<string, unknown>,
+  owner: string,
+  documents: DocumentRef[],
+  repaired: (message: string) => void
+): string[] => {
+  const tags = Array.isArray(entry.documents) ? [...new Set(entry.documents.map(toId))] : [];
+  const known = documents.filter(d => tags.includes(d.key)).map(d => d.key);
+  if (known.length < tags.length) repaired(`Dropped unknown documents from "${owner}"`);
+  return known;
+};
+
+const fatal = <T>(issues: ValidationIssue[], message: string): ValidationResult<T> => {
+  issues.push({ severity: 'fatal', message });
+  return { value: null, issues };
+};
+
+// sourceText, when given, is the original text the nodes' quotes must come
+// from. Cross-links are kept but left out of the tree: the root, the
+// connectivity and the groups only follow the other links. documents are
+// the compared documents of a multi-document map being generated, which
+// every node should be tagged with; without them a stored map keeps its own.
+export const validateGraphData = (
+  jsonText: string,
+  sourceText?: string,
+  conceptMap: boolean = false,
+  documents?: DocumentRef[]
+): ValidationResult<GraphData> => {
+  const issues: ValidationIssue[] = [];
+  const repaired = (message: string) => issues.push({ severity: 'repaired', message });
+
+  const raw = parseJson(jsonText, issues);
+  if (raw === undefined) return { value: null, issues };
+  if (!isRecord(raw) || !Array.isArray(raw.nodes)) {
+    return fatal(issues, "Response must be an object with a \"nodes\" array");
+  }
+  const knownDocuments = documents ?? readDocumentRefs(raw.documents);
+
+  // Nodes: require an id, default the label, drop duplicates
+  const nodes: NodeData[] = [];
+  const seen = new Set<string>();
+  raw.nodes.forEach((entry, index) => {
+    const id = isRecord(entry) ? toId(entry.id) : null;
+    if (!isRecord(entry) || !id) {
+      repaired(`Dropped node #${index} without an id`);
+      return;
+    }
+    if (seen.has(id)) {
+      repaired(`Dropped duplicate node id "${id}"`);
+      return;
+    }
+    seen.add(id);
+
+    let label = typeof entry.label === 'string' ? entry.label.trim() : '';
+    if (!label) {
+      label = id;
+      repaired(`Node "${id}" had no label`);
+    }
+    const sources = readSources(entry, label, sourceText, repaired);
+    const tags = readDocumentTags(entry, label, knownDocuments, repaired);
+    if (documents && tags.length === 0) repaired(`Node "${label}" is not tagged with any document`);
+    // Only validated fields are kept: anything else (e.g. fx/fy) would reach the d3 simulation
+    nodes.push({
+      id,
+      label,
+      group: typeof entry.group === 'number' ? entry.group : undefined,
+      ...(sources ? { sources } : {}),
+      ...(tags.length > 0 ? { documents: tags } : {}),
+    });
+  });
+
+  if (nodes.length === 0) {
+    return fatal(issues, "The mind map has no usable nodes");
+  }
+
+  // Links: only keep unique edges between existing, distinct nodes
+  let links: LinkData[] = [];
+  const rawLinks = Array.isArray(raw.links) ? raw.links : [];
+  if (!Array.isArray(raw.links)) repaired("Missing \"links\" array");
+
+  const edgeKeys = new Set<string>();
+  rawLinks.forEach(entry => {
+    const source = isRecord(entry) ? toId(entry.source) : null;
+    const target = isRecord(entry) ? toId(entry.target) : null;
+    if (!source || !target || !seen.has(source) || !seen.has(target)) {
+      repaired(`Dropped dangling link ${source ?? '?'} → ${target ?? '?'}`);
+      return;
+    }
+    if (source === target) {
+      repaired(`Dropped self-link on "${source}"`);
+      return;
+    }
+    const key = [source, target].sort().join('\u0000');
+    if (edgeKeys.has(key)) {
+      repaired(`Dropped duplicate link ${source} → ${target}`);
+      return;
+    }
+    edgeKeys.add(key);
+    links.push({
+      source,
+      target,
+      ...readRelation(entry as Record<string, unknown>, `${source} → ${target}`, conceptMap, repaired),
+    });
+  });
+
+  // Root: prefer id="root", then the first group 1 node, then the best connected node
+  const degree = new Map<string, number>(nodes.map(n => [n.id, 0]));
+  links.forEach(l => {
+    degree.set(l.source, (degree.get(l.source) || 0) + 1);
+    degree.set(l.target, (degree.get(l.target) || 0) + 1);
+  });
+
+  let root = nodes.find(n => n.id === ROOT_ID);
+  if (!root) {
+    root = nodes.find(n => n.group === 1)
+      || nodes.reduce((best, n) => (degree.get(n.id)! > degree.get(best.id)! ? n : best), nodes[0]);
+    repaired(`No node with id="${ROOT_ID}", using "${root.label}" as the root`);
+
+    const previousId = root.id;
+    root.id = ROOT_ID;
+    links = links.map(l => ({
+      ...l,
+      source: l.source === previousId ? ROOT_ID : l.source,
+      target: l.target === previousId ? ROOT_ID : l.target,
+    }));
+  }
+
+  // Connectivity: walk from the root, attach every unreachable component to it
+  const adjacency = new Map<string, string[]>(nodes.map(n => [n.id, []]));
+  links.forEach(l => {
+    if (l.crossLink) return;
+    adjacency.get(l.source)!.push(l.target);
+    adjacency.get(l.target)!.push(l.source);
+  });
+
+  const depth = new Map<string, number>();
+  const walk = (startId: string, startDepth: number) => {
+    const queue = [startId];
+    depth.set(startId, startDepth);
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      adjacency.get(id)!.forEach(next => {
+        if (!depth.has(next)) {
+          depth.set(next, depth.get(id)! + 1);
+          queue.push(next);
+        }
+      });
+    }
+  };
+
+  walk(ROOT_ID, 0);
+  nodes.forEach(node => {
+    if (depth.has(node.id)) return;
+    links.push({ source: ROOT_ID, target: node.id, ...(conceptMap ? { type: 'partOf' as const } : {}) });
+    adjacency.get(ROOT_ID)!.push(node.id);
+    adjacency.get(node.id)!.push(ROOT_ID);
+    repaired(`Attached disconnected node "${node.label}" to the root`);
+    walk(node.id, 1);
+  });
+
+  // Groups follow the depth: 1 for the root, 2 for main branches, 3 below
+  nodes.forEach(node => {
+    const d = depth.get(node.id)!;
+    const group = d === 0 ? 1 : d === 1 ? 2 : 3;
+    if (node.group !== group) {
+      if (node.group !== undefined) repaired(`Changed group of "${node.label}" from ${node.group} to ${group}`);
+      node.group = group;
+    }
+  });
+
+  // Keep the root first so consumers that read nodes[0] see it
+  nodes.sort((a, b) => (a.id === ROOT_ID ? -1 : b.id === ROOT_ID ? 1 : 0));
+
+  return { value: { nodes, links, ...(knownDocuments.length > 0 ? { documents: knownDocuments } : {}) }, issues };
+};
+
+export const validateInfographicItems = (jsonText: string, sourceText?: string): ValidationResult<InfographicItem[]> => {
+  const issues: ValidationIssue[] = [];
+  const repaired = (message: string) => issues.push({ severity: 'repaired', message });
+
+  let raw = parseJson(jsonText, issues);
+  if (raw === undefined) return { value: null, issues };
+
+  // Some models wrap the list, e.g. {"items": [...]}
+  if (isRecord(raw)) {
+    const wrapped = Object.values(raw).find(Array.isArray);
+    if (wrapped) {
+      raw = wrapped;
+      repaired("Unwrapped item list from an object");
+    }
+  }
+  if (!Array.isArray(raw)) {
+    return fatal(issues, "Response must be an array of items");
+  }
+
+  const items: InfographicItem[] = [];
+  raw.forEach((entry, index) => {
+    const title = isRecord(entry) && typeof entry.title === 'string' ? entry.title.trim() : '';
+    const description = isRecord(entry) && typeof entry.description === 'string' ? entry.description.trim() : '';
+    if (!isRecord(entry) || (!title && !description)) {
+      repaired(`Dropped item #${index} without title or description`);
+      return;
+    }
+
+    let icon = entry.icon as InfographicItem['icon'];
+    if (!INFOGRAPHIC_ICONS.includes(icon)) {
+      repaired(`Replaced unknown icon "${String(entry.icon)}" with "default"`);
+      icon = 'default';
+    }
+    let kind = (entry.kind ?? 'insight') as InfographicItemKind;
+    if (!INFOGRAPHIC_KINDS.includes(kind)) {
+      repaired(`Replaced unknown item kind "${String(entry.kind)}" with "insight"`);
+      kind = 'insight';
+    }
+    let data = readItemData(entry, kind, repaired);
+    if (!data) {
+      repaired(`Showed ${kind} item "${title || description}" as a plain card, its data was missing or unusable`);
+      kind = 'insight';
+      data = {};
+    }
+    const sources = readSources(entry, title || description, sourceText, repaired);
+    items.push({
+      kind,
+      title: title || description,
+      description,
+      icon,
+      ...data,
+      ...(sources ? { sources } : {}),
+    });
+  });
+
+  if (items.length > MAX_INFOGRAPHIC_ITEMS) {
+    repaired(`Kept the first ${MAX_INFOGRAPHIC_ITEMS} of ${items.length} items`);
+    items.length = MAX_INFOGRAPHIC_ITEMS;
+  }
+  if (items.length < MIN_INFOGRAPHIC_ITEMS) {
+    return fatal(issues, `Expected ${MIN_INFOGRAPHIC_ITEMS} to ${MAX_INFOGRAPHIC_ITEMS} items, got ${items.length}`);
+  }
+
+  return { value: items, issues };
+};
+
+// The "time" of a stored event, limited to the years a model date can have
+const readStoredTime = (entry: Record<string, unknown>, owner: string, repaired: (message: string) => void): number | undefined => {
+  if (entry.time === undefined) return undefined;
+  const time = typeof entry.time === 'number' ? entry.time : NaN;
+  const year = new Date(time).getUTCFullYear();
+  if (!Number.isFinite(year) || Math.abs(year) > 9999) {
+    repaired(`Ignored invalid time of "${owner}"`);
+    return undefined;
+  }
+  return time;
+};
+
+// A calendar date from the model's numeric "year", "month" and "day" fields,
+// as UTC milliseconds. Free-text dates are never parsed: "03/04" is read
+// differently across languages. Stored events (share links) only keep the
+// resulting "time", which is read back as is.
+const readTime = (entry: Record<string, unknown>, owner: string, repaired: (message: string) => void): number | undefined => {
+  const year = toNumber(entry.year);
+  if (year === null) return readStoredTime(entry, owner, repaired);
+  if (!Number.isInteger(year) || Math.abs(year) > 9999) {
+    repaired(`Ignored invalid year ${year} of "${owner}"`);
+    return undefined;
+  }
+  const month = toNumber(entry.month);
+  const day = toNumber(entry.day);
+  const validMonth = month !== null && Number.isInteger(month) && month >= 1 && month <= 12 ? month : null;
+  const validDay = validMonth !== null && day !== null && Number.isInteger(day) && day >= 1 && day <= 31 ? day : null;
+  if ((month !== null && validMonth === null) || (day !== null && validDay === null)) {
+    repaired(`Ignored invalid month or day of "${owner}"`);
+  }
+  const date = new Date(Date.UTC(2000, (validMonth ?? 1) - 1, validDay ?? 1));
+  // Date.UTC maps years 0 to 99 to 1900 to 1999
+  date.setUTCFullYear(year);
+  return date.getTime();
+};
+
+// Events for the timeline visualizer. Dated events are put in date order;
+// events without a calendar date keep the order the model gave them.
+export const validateTimeline = (jsonText: string, sourceText?: string): ValidationResult<TimelineEntry[]> => {
+  const issues: ValidationIssue[] = [];
+  const repaired = (message: string) => issues.push({ severity: 'repaired', message });
+
+  let raw = parseJson(jsonText, issues);
+  if (raw === undefined) return { value: null, issues };
+  if (isRecord(raw)) {
+    const wrapped = Array.isArray(raw.events) ? raw.events : Object.values(raw).find(Array.isArray);
+    if (wrapped) {
+      raw = wrapped;
+      repaired("Unwrapped event list from an object");
+    }
+  }
+  if (!Array.isArray(raw)) {
+    return fatal(issues, "Response must be an array of events");
+  }
+
+  const groups: string[] = [];
+  const entries: TimelineEntry[] = [];
+  raw.forEach((entry, index) => {
+    const title = isRecord(entry) ? toText(entry.title) || toText(entry.label) : '';
+    if (!isRecord(entry) || !title) {
+      repaired(`Dropped event #${index} without a title`);
+      return;
+    }
+
+    const time = readTime(entry, title, repaired);
+    const date = toText(entry.date) || (time !== undefined ? String(new Date(time).getUTCFullYear()) : '');
+    let group = toText(entry.group).slice(0, 40);
+    if (group && !groups.includes(group)) {
+      if (groups.length < MAX_TIMELINE_GROUPS) {
+        groups.push(group);
+      } else {
+        repaired(`Removed group "${group}" of "${title}", there were more than ${MAX_TIMELINE_GROUPS} groups`);
+        group = '';
+      }
+    }
+    const sources = readSources(entry, title, sourceText, repaired);
+    entries.push({
+      date,
+      ...(time !== undefined ? { time } : {}),
+      title,
+      description: toText(entry.description),
+      ...(group ? { group } : {}),
+      ...(sources ? { sources } : {}),
+    });
+  });
+
+  if (entries.length > 0 && entries.every(e => e.time !== undefined)) {
+    const sorted = [...entries].sort((a, b) => a.time! - b.time!);
+    if (sorted.some((e, i) => e !== entries[i])) {
+      repaired("Sorted events by date");
+      entries.splice(0, entries.length, ...sorted);
+    }
+  }
+
+  if (entries.length > MAX_TIMELINE_ENTRIES) {
+    repaired(`Kept the first ${MAX_TIMELINE_ENTRIES} of ${entries.length} events`);
+    entries.length = MAX_TIMELINE_ENTRIES;
+  }
+  if (entries.length < MIN_TIMELINE_ENTRIES) {
+    return fatal(issues, `Expected at least ${MIN_TIMELINE_ENTRIES} events, got ${entries.length}`);
+  }
+
+  return { value: entries, issues };
+};
+
+// Children proposed for one node. Labels that repeat each other or the
+// node's existing children are dropped.
+export const validateNodeExpansion = (
+  jsonText: string,
+  existingLabels: string[] = [],
+  sourceText?: string
+): ValidationResult<NodeExpansion[]> => {
+  const issues: ValidationIssue[] = [];
+  const repaired = (message: string) => issues.push({ severity: 'repaired', message });
+
+  let raw = parseJson(jsonText, issues);
+  if (raw === undefined) return { value: null, issues };
+  if (isRecord(raw) && Array.isArray(raw.children)) raw = raw.children;
+  if (!Array.isArray(raw)) {
+    return fatal(issues, "Response must contain a \"children\" array");
+  }
+
+  const seen = new Set(existingLabels.map(l => l.trim().toLowerCase()));
+  const items: NodeExpansion[] = [];
+  raw.forEach((entry, index) => {
+    const label = isRecord(entry) && typeof entry.label === 'string' ? entry.label.trim() : typeof entry === 'string' ? entry.trim() : '';
+    if (!label) {
+      repaired(`Dropped child #${index} without a label`);
+      return;
+    }
+    if (seen.has(label.toLowerCase())) {
+      repaired(`Dropped repeated idea "${label}"`);
+      return;
+    }
+    seen.add(label.toLowerCase());
+
+    const children = isRecord(entry) && Array.isArray(entry.children)
+      ? entry.children
+          .map(c => (typeof c === 'string' ? c : isRecord(c) && typeof c.label === 'string' ? c.label : '').trim())
+          .filter(c => c.length > 0)
+      : [];
+    const sources = isRecord(entry) ? readSources(entry, label, sourceText, repaired) : undefined;
+    items.push({ label, children, ...(sources ? { sources } : {}) });
+  });
+
+  if (items.length > MAX_EXPANSION_ITEMS) {
+    repaired(`Kept the first ${MAX_EXPANSION_ITEMS} of ${items.length} ideas`);
+    items.length = MAX_EXPANSION_ITEMS;
+  }
+  if (items.length === 0) {
+    return fatal(issues, "No new child ideas were returned");
+  }
+
+  return { value: items, issues };
+};
+
+// Passages found for ideas in one part of a long document, by idea id. The
+// quotes are located in the whole sourceText; ids that were not asked about
+// are dropped. A part that supports none of the ideas gives an empty result.
+export const validateGrounding = (
+  jsonText: string,
+  ids: string[],
+  sourceText: string
+): ValidationResult<Record<string, SourceSpan[]>> => {
+  const issues: ValidationIssue[] = [];
+  const repaired = (message: string) => issues.push({ severity: 'repaired', message });
+
+  const raw = parseJson(jsonText, issues);
+  if (raw === undefined) return { value: null, issues };
+  if (!Array.isArray(raw)) {
+    return fatal(issues, "Response must be an array of ideas");
+  }
+
+  const sources: Record<string, SourceSpan[]> = {};
+  raw.forEach((entry, index) => {
+    const id = isRecord(entry) ? toId(entry.id) : null;
+    if (!isRecord(entry) || !id || !ids.includes(id)) {
+      repaired(`Dropped entry #${index} for an unknown idea`);
+      return;
+    }
+    const found = readSources(entry, id, sourceText, repaired) ?? [];
+    if (found.length > 0) sources[id] = [...(sources[id] ?? []), ...found].slice(0, MAX_SOURCES);
+  });
+
+  return { value: sources, issues };
+};
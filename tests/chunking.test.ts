@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { needsChunking, splitIntoChunks } from '../services/chunking';
+
+const paragraph = (word: string, count: number) => Array(count).fill(`${word}.`).join(' ');
+
+test('only text longer than the chunk size needs chunking', () => {
+  assert.equal(needsChunking('short', 10), false);
+  assert.equal(needsChunking('a'.repeat(11), 10), true);
+});
+
+test('chunks break at paragraphs and keep every paragraph whole', () => {
+  const paragraphs = ['one', 'two', 'three', 'four'].map(word => paragraph(word, 10));
+  const chunks = splitIntoChunks(paragraphs.join('\n\n'), 100);
+
+  assert.deepEqual(chunks.map(c => c.index), chunks.map((_, i) => i));
+  assert.ok(chunks.every(c => c.text.length <= 100));
+  assert.deepEqual(chunks.flatMap(c => c.text.split('\n\n')), paragraphs);
+});
+
+test('a heading starts a new chunk once the current one is half full and names it', () => {
+  const text = `# Intro\n\n${paragraph('intro', 10)}\n\n# Details\n\n${paragraph('detail', 5)}`;
+  const chunks = splitIntoChunks(text, 120);
+
+  assert.deepEqual(chunks.map(c => c.title), ['Intro', 'Details']);
+  assert.ok(chunks[1].text.startsWith('# Details'));
+});
+
+test('a paragraph longer than the chunk size is split between sentences', () => {
+  const chunks = splitIntoChunks(paragraph('sentence', 30), 50);
+
+  assert.ok(chunks.length > 1);
+  assert.ok(chunks.every(c => c.text.length <= 50 && c.text.endsWith('.')));
+  assert.equal(chunks.map(c => c.text).join(' '), paragraph('sentence', 30));
+});
@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createAIError, errorForStatus, toAIError, wait, withRetry } from '../services/providers/errors';
+
+test('HTTP statuses map to error kinds', () => {
+  assert.equal(errorForStatus(401, 'unauthorized').kind, 'apiKey');
+  assert.equal(errorForStatus(403, 'forbidden').kind, 'apiKey');
+  assert.equal(errorForStatus(400, 'API key not valid').kind, 'apiKey');
+  assert.equal(errorForStatus(400, 'bad request').kind, 'unknown');
+  assert.equal(errorForStatus(503, 'overloaded').kind, 'unavailable');
+
+  const quota = errorForStatus(429, 'slow down', 5000);
+  assert.equal(quota.kind, 'quota');
+  assert.equal(quota.retryAfterMs, 5000);
+});
+
+test('thrown errors are classified', () => {
+  const existing = createAIError('safety', 'blocked');
+  assert.equal(toAIError(existing), existing);
+
+  const quota = toAIError(Object.assign(new Error('{"retryDelay": "27s"}'), { status: 429 }));
+  assert.equal(quota.kind, 'quota');
+  assert.equal(quota.retryAfterMs, 27000);
+
+  assert.equal(toAIError(new TypeError('Failed to fetch')).kind, 'offline');
+  assert.equal(toAIError(new SyntaxError('Unexpected token')).kind, 'malformed');
+  assert.equal(toAIError('something else').kind, 'unknown');
+});
+
+test('transient failures are retried until the request succeeds', async () => {
+  let calls = 0;
+  const result = await withRetry(async () => {
+    calls++;
+    if (calls < 3) throw createAIError('quota', 'slow down', { retryAfterMs: 1 });
+    return 'ok';
+  });
+  assert.equal(result, 'ok');
+  assert.equal(calls, 3);
+});
+
+test('permanent failures and refused retries are thrown at once', async () => {
+  let calls = 0;
+  await assert.rejects(
+    withRetry(async () => {
+      calls++;
+      throw createAIError('apiKey', 'invalid key');
+    }),
+    { kind: 'apiKey' }
+  );
+  await assert.rejects(
+    withRetry(async () => {
+      calls++;
+      throw createAIError('unavailable', 'down', { retryAfterMs: 1 });
+    }, undefined, () => false),
+    { kind: 'unavailable' }
+  );
+  assert.equal(calls, 2);
+});
+
+test('wait rejects with the abort reason', async () => {
+  const controller = new AbortController();
+  const waiting = wait(10000, controller.signal);
+  controller.abort(new Error('stopped'));
+  await assert.rejects(waiting, { message: 'stopped' });
+});
@@ -0,0 +1,83 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GraphData } from '../types';
+import { addChildNode, deleteSubtree, getAncestorPath, mergeNodeExpansion, renameNode, reparentNode } from '../services/graphEditing';
+
+// root ─ a ─ a1
+//      └ b
+const graph = (): GraphData => ({
+  nodes: [
+    { id: 'root', label: 'Topic', group: 1 },
+    { id: 'a', label: 'A', group: 2 },
+    { id: 'a1', label: 'A1', group: 3 },
+    { id: 'b', label: 'B', group: 2 },
+  ],
+  links: [
+    { source: 'root', target: 'a' },
+    { source: 'a', target: 'a1' },
+    { source: 'root', target: 'b' },
+  ],
+});
+
+const groups = (data: GraphData) => Object.fromEntries(data.nodes.map(n => [n.id, n.group]));
+
+test('renaming trims the label and ignores empty names', () => {
+  assert.equal(renameNode(graph(), 'a', '  New  ').nodes[1].label, 'New');
+  const data = graph();
+  assert.equal(renameNode(data, 'a', '   '), data);
+});
+
+test('a child gets a fresh id, a link from its parent and the group for its depth', () => {
+  const { data, node } = addChildNode(graph(), 'a1', 'Deep');
+  assert.deepEqual(node, { id: 'node-5', label: 'Deep', group: 3 });
+  assert.deepEqual(data.links.at(-1), { source: 'a1', target: 'node-5' });
+  assert.deepEqual(getAncestorPath(data, 'node-5'), ['Topic', 'A', 'A1', 'Deep']);
+});
+
+test('deleting a node removes its subtree, and the root cannot be deleted', () => {
+  const data = deleteSubtree(graph(), 'a');
+  assert.deepEqual(data.nodes.map(n => n.id), ['root', 'b']);
+  assert.deepEqual(data.links, [{ source: 'root', target: 'b' }]);
+
+  const unchanged = graph();
+  assert.equal(deleteSubtree(unchanged, 'root'), unchanged);
+});
+
+test('re-parenting moves the subtree and regroups it', () => {
+  const data = reparentNode(graph(), 'a', 'b');
+  assert.deepEqual(getAncestorPath(data, 'a1'), ['Topic', 'B', 'A', 'A1']);
+  assert.deepEqual(groups(data), { root: 1, a: 3, a1: 3, b: 2 });
+});
+
+test('moving a node below its own descendant leaves the map unchanged', () => {
+  const data = graph();
+  assert.equal(reparentNode(data, 'a', 'a1'), data);
+  assert.equal(reparentNode(data, 'root', 'b'), data);
+});
+
+test('an expansion adds children and grandchildren below the node', () => {
+  const data = mergeNodeExpansion(graph(), 'b', [{ label: 'B1', children: ['B1a', 'B1b'] }]);
+  assert.deepEqual(getAncestorPath(data, 'node-6'), ['Topic', 'B', 'B1', 'B1a']);
+  assert.equal(data.nodes.length, 7);
+  assert.equal(mergeNodeExpansion(data, 'missing', [{ label: 'X', children: [] }]), data);
+});
+
+test('links added to a concept map get the default relation', () => {
+  const conceptMap = graph();
+  conceptMap.links = conceptMap.links.map(l => ({ ...l, type: 'causes' as const }));
+
+  const { data, node } = addChildNode(conceptMap, 'b', 'New');
+  assert.deepEqual(data.links.at(-1), { source: 'b', target: node.id, type: 'partOf' });
+
+  const moved = reparentNode(conceptMap, 'a1', 'b');
+  assert.deepEqual(moved.links.at(-1), { source: 'b', target: 'a1', type: 'partOf' });
+});
+
+test('re-parenting along a cross-link keeps its relation as the tree link', () => {
+  const conceptMap = graph();
+  conceptMap.links.push({ source: 'a1', target: 'b', type: 'supports', label: 'backs', crossLink: true });
+
+  const data = reparentNode(conceptMap, 'a1', 'b');
+  assert.deepEqual(data.links.at(-1), { source: 'a1', target: 'b', type: 'supports', label: 'backs' });
+  assert.deepEqual(getAncestorPath(data, 'a1'), ['Topic', 'B', 'A1']);
+});
@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRateLimiter } from '../server/rateLimit';
+
+test('a client can send a burst up to the limit, then has to wait', () => {
+  const limiter = createRateLimiter(3, 60000);
+
+  assert.deepEqual([0, 0, 0].map(() => limiter.take('a', 0).allowed), [true, true, true]);
+  assert.deepEqual(limiter.take('a', 0), { allowed: false, retryAfterMs: 20000 });
+});
+
+test('the allowance refills evenly over the window', () => {
+  const limiter = createRateLimiter(3, 60000);
+  [0, 0, 0].forEach(() => limiter.take('a', 0));
+
+  assert.deepEqual(limiter.take('a', 5000), { allowed: false, retryAfterMs: 15000 });
+  assert.equal(limiter.take('a', 20000).allowed, true);
+  assert.equal(limiter.take('a', 20000).allowed, false);
+});
+
+test('clients are limited separately', () => {
+  const limiter = createRateLimiter(1, 60000);
+
+  assert.equal(limiter.take('a', 0).allowed, true);
+  assert.equal(limiter.take('a', 0).allowed, false);
+  assert.equal(limiter.take('b', 0).allowed, true);
+});
@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TimelineEntry } from '../types';
+import { SharedState, createShareUrl, readSharedState } from '../services/shareLink';
+import { DEFAULT_THEME } from '../services/theme';
+
+// Share links are built from the page's address
+Object.defineProperty(globalThis, 'window', { value: { location: new URL('https://example.com/app/') } });
+
+const sharedTimeline = (timelineData: TimelineEntry[]): SharedState => ({
+  summary: 'Summary',
+  visualizerType: 'timeline',
+  timelineData,
+  settings: {
+    isDarkMode: false,
+    showAnnotations: true,
+    mindMapLayout: 'force',
+    infographicLayout: 'grid',
+    timelineOrientation: 'vertical',
+    theme: DEFAULT_THEME,
+  },
+});
+
+const roundTrip = async (state: SharedState) => readSharedState(new URL(await createShareUrl(state)).hash);
+
+test('a dated timeline keeps its dates and order through a share link', async () => {
+  const timelineData: TimelineEntry[] = [
+    { date: '44 BC', time: Date.UTC(-43, 2, 15), title: 'Ides of March', description: '' },
+    { date: 'March 2021', time: Date.UTC(2021, 2, 1), title: 'Launch', description: 'First release', group: 'Product' },
+    { date: '2024', time: Date.UTC(2024, 0, 1), title: 'Second version', description: '', group: 'Product' },
+  ];
+
+  const shared = await roundTrip(sharedTimeline(timelineData));
+
+  assert.ok(shared);
+  assert.deepEqual(shared.timelineData, timelineData);
+  assert.equal(shared.settings.timelineOrientation, 'vertical');
+});
+
+test('an undated timeline keeps the order it was shared in', async () => {
+  const timelineData: TimelineEntry[] = [
+    { date: 'Phase 2', title: 'Build', description: '' },
+    { date: 'Phase 1', title: 'Plan', description: '' },
+  ];
+
+  const shared = await roundTrip(sharedTimeline(timelineData));
+
+  assert.deepEqual(shared?.timelineData, timelineData);
+});
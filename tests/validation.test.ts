@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateGraphData, validateInfographicItems } from '../services/validation';
+
+const insight = (title: string, extra: Record<string, unknown> = {}) => ({ kind: 'insight', title, description: `${title} in short`, icon: 'bulb', ...extra });
+
+test('graph nodes and links keep only the fields that were validated', () => {
+  const { value } = validateGraphData(JSON.stringify({
+    nodes: [
+      { id: 'root', label: 'Topic', group: 1, val: 'huge', x: 'nope', fx: 5, fy: 7 },
+      { id: 'a', label: 'Idea', group: 2, extra: { a: 1 } },
+    ],
+    links: [{ source: 'root', target: 'a', foo: 1 }],
+  }));
+
+  assert.deepEqual(value?.nodes, [
+    { id: 'root', label: 'Topic', group: 1 },
+    { id: 'a', label: 'Idea', group: 2 },
+  ]);
+  assert.deepEqual(value?.links, [{ source: 'root', target: 'a' }]);
+});
+
+test('a graph without a root or links is repaired into a tree', () => {
+  const { value, issues } = validateGraphData(JSON.stringify({
+    nodes: [{ id: 'main', label: 'Topic', group: 1 }, { id: 'b', label: 'Idea' }, { id: 'b', label: 'Again' }],
+    links: [{ source: 'main', target: 'missing' }],
+  }));
+
+  assert.deepEqual(value?.nodes.map(n => [n.id, n.group]), [['root', 1], ['b', 2]]);
+  assert.deepEqual(value?.links, [{ source: 'root', target: 'b' }]);
+  assert.ok(issues.length > 0 && issues.every(i => i.severity === 'repaired'));
+});
+
+test('a graph response without nodes cannot be repaired', () => {
+  const { value, issues } = validateGraphData('{"links": []}');
+  assert.equal(value, null);
+  assert.equal(issues[0].severity, 'fatal');
+});
+
+test('infographic items keep only their validated fields and data', () => {
+  const { value } = validateInfographicItems(JSON.stringify([
+    insight('One', { extra: { a: 1 } }),
+    insight('Two', { kind: 'stat', value: '40%', unit: '%', pros: ['not a comparison'] }),
+    insight('Three', { icon: 'rocket' }),
+    insight('Four'),
+  ]));
+
+  assert.deepEqual(value?.[0], { kind: 'insight', title: 'One', description: 'One in short', icon: 'bulb' });
+  assert.deepEqual(value?.[1], { kind: 'stat', title: 'Two', description: 'Two in short', icon: 'bulb', value: 40, unit: '%' });
+  assert.equal(value?.[2].icon, 'default');
+});
+
+test('too few infographic items ask the model again', () => {
+  const { value, issues } = validateInfographicItems(JSON.stringify([insight('One'), insight('Two')]));
+  assert.equal(value, null);
+  assert.ok(issues.some(i => i.severity === 'fatal'));
+});
@@ -0,0 +1,23 @@
+import { readdirSync } from 'node:fs';
+import { defineConfig } from 'vite';
+
+// Bundles the checks in tests/ for Node's test runner (`npm test`), the same
+// way the proxy server is built. Every *.test.ts file is an entry; code they
+// share goes to chunks/, which the runner does not pick up. Dependencies stay external.
+const testFiles = readdirSync('tests').filter(file => file.endsWith('.test.ts')).map(file => `tests/${file}`);
+
+export default defineConfig({
+  build: {
+    ssr: true,
+    outDir: 'dist-tests',
+    emptyOutDir: true,
+    target: 'node20',
+    rollupOptions: {
+      input: testFiles,
+      output: {
+        entryFileNames: '[name].js',
+        chunkFileNames: 'chunks/[name]-[hash].js',
+      },
+    },
+  },
+});
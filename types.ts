@@ -1,27 +1,194 @@
+// A passage of the original text that supports a generated idea
+export interface SourceSpan {
+  quote: string;
+  start: number; // Character offsets into the project's inputText
+  end: number;
+}
+
 export interface NodeData {
   id: string;
   label: string;
   group?: number;
   val?: number; // For radius
+  sources?: SourceSpan[]; // Set on generated ideas; empty when no supporting passage was found
+  documents?: string[]; // Multi-document maps: keys of the compared documents the idea comes from
 }
 
+// How two ideas of a concept map relate, read from source to target
+export type RelationType = 'partOf' | 'causes' | 'supports' | 'contradicts' | 'example' | 'related';
+
 export interface LinkData {
   source: string;
   target: string;
+  // Concept maps only; plain mind map links have none of these
+  label?: string; // The relationship as a short phrase, e.g. "leads to"
+  type?: RelationType;
+  weight?: number; // Strength of the relationship, from 0 to 1
+  crossLink?: boolean; // Relates ideas of different branches; not part of the tree the map hangs from
+}
+
+// A compared document as a multi-document map refers to it
+export interface DocumentRef {
+  key: string; // "A", "B", …
+  label: string;
 }
 
 export interface GraphData {
   nodes: NodeData[];
   links: LinkData[];
+  documents?: DocumentRef[]; // Multi-document maps only, in input order
+}
+
+// Child ideas suggested by the "expand this idea" action
+export interface NodeExpansion {
+  label: string;
+  children: string[];
+  sources?: SourceSpan[];
+}
+
+// Plain insight cards carry only text; the other kinds also carry the data
+// their mini chart or list is drawn from
+export type InfographicItemKind = 'insight' | 'stat' | 'timeline' | 'comparison' | 'breakdown' | 'ranking';
+
+export interface TimelineEvent {
+  date: string; // As written in the text, e.g. "2019" or "Q3 2024"
+  label: string;
+}
+
+export interface ChartDatum {
+  label: string;
+  value: number;
+}
+
+export interface RankedEntry {
+  label: string;
+  value?: number; // Only when the text gives a figure to rank by
 }
 
 export interface InfographicItem {
+  kind?: InfographicItemKind; // Missing on items saved before typed items existed, read as 'insight'
   title: string;
   description: string;
   icon: 'chart' | 'bulb' | 'users' | 'globe' | 'time' | 'shield' | 'target' | 'default';
+  value?: number; // stat
+  unit?: string; // stat, e.g. "%" or "million USD"
+  events?: TimelineEvent[]; // timeline, in chronological order
+  pros?: string[]; // comparison
+  cons?: string[]; // comparison
+  segments?: ChartDatum[]; // breakdown, values in percent
+  entries?: RankedEntry[]; // ranking, first place first
+  sources?: SourceSpan[];
+}
+
+// One event of the timeline visualizer
+export interface TimelineEntry {
+  date: string; // As written in the text, e.g. "March 2021", "Q3" or "Phase 2"; empty for events that are only ordered
+  time?: number; // UTC epoch milliseconds when the date is a calendar date; places the event on a time axis
+  title: string;
+  description: string;
+  group?: string; // Phase, team or track the event belongs to
+  sources?: SourceSpan[];
+}
+
+// Time runs left to right, or top to bottom
+export type TimelineOrientation = 'horizontal' | 'vertical';
+
+export interface SectionSummary {
+  title?: string; // Heading of the source chunk, if it had one
+  summary: string;
+}
+
+export interface SummaryResult {
+  summary: string;
+  sections: SectionSummary[]; // Per-chunk summaries; empty when the text fit in one prompt
+  style: SummaryStyle; // The options the summary was written with
+}
+
+export type SummaryFormat = 'paragraph' | 'bullets' | 'tldr' | 'executive' | 'studyNotes';
+export type SummaryLength = 'short' | 'medium' | 'long';
+export type SummaryAudience = 'beginner' | 'general' | 'expert';
+
+export interface SummaryStyle {
+  format: SummaryFormat;
+  length: SummaryLength;
+  audience: SummaryAudience;
+}
+
+export interface SummaryPreset {
+  id: string;
+  name: string;
+  style: SummaryStyle;
+}
+
+export type ThemePaletteId = 'glass' | 'ocean' | 'forest' | 'sunset' | 'mono' | 'brand';
+
+export type ThemeFontId = 'system' | 'serif' | 'rounded' | 'mono';
+
+export interface BrandColors {
+  primary: string; // Hex colors, e.g. "#1d4ed8"
+  secondary: string;
+  accent: string;
+}
+
+// Look of both visualizers and their exports
+export interface VisualTheme {
+  palette: ThemePaletteId;
+  font: ThemeFontId;
+  brandColors: BrandColors; // Used by the 'brand' palette
+  brandName?: string;
+  logo?: string; // Image data URL
+}
+
+export type ChunkStatus = 'pending' | 'running' | 'done';
+
+export interface SummaryProgress {
+  stage: 'map' | 'reduce';
+  chunks: { title?: string; status: ChunkStatus }[];
+}
+
+export type DocumentFormat = 'text' | 'markdown' | 'pdf' | 'docx' | 'html' | 'subtitles';
+
+export interface IngestedDocument {
+  name: string;
+  format: DocumentFormat;
+  size: number; // Bytes
+  pageCount?: number; // PDF only
+  text: string;
+  charCount: number;
+}
+
+// One source of a multi-document comparison
+export interface ComparedDocument extends DocumentRef {
+  text: string;
+  sourceDocument: IngestedDocument | null; // Set when the text was read from a file
+  summary: string;
 }
 
 export interface GeminiResponse {
   summary: string;
   graphData?: GraphData;
-}
\ No newline at end of file
+}
+export type VisualizerType = 'mindmap' | 'infographic' | 'timeline';
+
+// Everything needed to reopen a piece of work, as stored in the local library
+export interface Project {
+  id: string;
+  title: string;
+  createdAt: number; // Epoch milliseconds
+  updatedAt: number;
+  inputText: string;
+  sourceDocument: IngestedDocument | null;
+  documents?: ComparedDocument[] | null; // Multi-document projects; inputText and summary then combine them
+  summary: string;
+  summaryStyle?: SummaryStyle; // Missing for projects saved before summary styles existed
+  sections: SectionSummary[];
+  graphData: GraphData | null;
+  infographicData: InfographicItem[] | null;
+  timelineData?: TimelineEntry[] | null; // Missing for projects saved before timelines existed
+  visualizerType: VisualizerType;
+}
+
+export type LanguageCode = 'vi' | 'en' | 'ja' | 'zh' | 'ko' | 'fr' | 'de' | 'es';
+
+// 'auto' writes the results in the language of the source text
+export type OutputLanguage = 'auto' | LanguageCode;
@@ -4,15 +4,31 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Keys stay on the companion server (server/index.ts). Calling Gemini or
+    // an OpenAI-compatible endpoint straight from the browser is a development
+    // opt-in (AI_PROVIDER=gemini or openai with `npm run dev`); only then is
+    // that provider's key written into the client, never into a production build.
+    const isDirect = mode === 'development' && (env.AI_PROVIDER === 'gemini' || env.AI_PROVIDER === 'openai');
+    const provider = isDirect || env.AI_PROVIDER === 'mock' ? env.AI_PROVIDER : 'proxy';
+    const apiKey = isDirect && provider === 'gemini' ? env.GEMINI_API_KEY : undefined;
+    const openAIKey = isDirect && provider === 'openai' ? env.OPENAI_API_KEY : undefined;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // Lets the proxy provider call the companion server on the app's own origin
+        proxy: {
+          '/api': `http://localhost:${env.PROXY_PORT || 8787}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(apiKey),
+        'process.env.AI_PROVIDER': JSON.stringify(provider),
+        'process.env.AI_MODEL': JSON.stringify(env.AI_MODEL),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL),
+        'process.env.OPENAI_API_KEY': JSON.stringify(openAIKey),
+        'process.env.PROXY_URL': JSON.stringify(env.PROXY_URL)
       },
       resolve: {
         alias: {